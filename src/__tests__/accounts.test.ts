@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import {
+  resolveConfig,
+  resolveAccount,
+  listAccountIds,
+  accountConfigPath,
+  updateAccountConfig,
+  removeAccountConfig,
+} from "../accounts.js";
+
+function makeCfg(channel: Record<string, any>) {
+  return { channels: { "whatsapp-cloud": channel, telegram: { enabled: true } } };
+}
+
+const multiCfg = makeCfg({
+  phoneNumberId: "111",
+  accessToken: "shared_token",
+  appSecret: "shared_secret",
+  webhookPort: 3100,
+  dmPolicy: "open",
+  accounts: {
+    acme: { phoneNumberId: "222", name: "Acme", dmPolicy: "allowlist", allowFrom: ["+391"] },
+    globex: { phoneNumberId: "333", accessToken: "globex_token", enabled: false },
+  },
+});
+
+describe("listAccountIds", () => {
+  it("returns only default for a flat config", () => {
+    expect(listAccountIds(makeCfg({ phoneNumberId: "111" }))).toEqual(["default"]);
+    expect(listAccountIds({})).toEqual(["default"]);
+  });
+
+  it("lists named accounts after the top-level default", () => {
+    expect(listAccountIds(multiCfg)).toEqual(["default", "acme", "globex"]);
+  });
+
+  it("omits default when the top level has no phone number of its own", () => {
+    const cfg = makeCfg({ accessToken: "t", accounts: { acme: { phoneNumberId: "222" } } });
+    expect(listAccountIds(cfg)).toEqual(["acme"]);
+  });
+
+  it("returns nothing when the channel is disabled", () => {
+    expect(listAccountIds(makeCfg({ ...multiCfg.channels["whatsapp-cloud"], enabled: false }))).toEqual([]);
+  });
+});
+
+describe("resolveConfig", () => {
+  it("resolves the top-level block as the default account", () => {
+    const config = resolveConfig(multiCfg);
+    expect(config.phoneNumberId).toBe("111");
+    expect(config.accessToken).toBe("shared_token");
+  });
+
+  it("merges named accounts over shared settings", () => {
+    const config = resolveConfig(multiCfg, "acme");
+    expect(config.phoneNumberId).toBe("222");
+    expect(config.accessToken).toBe("shared_token");
+    expect(config.appSecret).toBe("shared_secret");
+    expect(config.webhookPort).toBe(3100);
+    expect(config.dmPolicy).toBe("allowlist");
+    expect(config.allowFrom).toEqual(["+391"]);
+  });
+
+  it("does not inherit the top-level phone number", () => {
+    expect(resolveConfig(multiCfg, "missing").phoneNumberId).toBe("");
+  });
+
+  it("disables every account when the channel is disabled", () => {
+    const cfg = makeCfg({ ...multiCfg.channels["whatsapp-cloud"], enabled: false });
+    expect(resolveConfig(cfg, "acme").enabled).toBe(false);
+    expect(resolveConfig(multiCfg, "globex").enabled).toBe(false);
+    expect(resolveConfig(multiCfg, "acme").enabled).toBe(true);
+  });
+
+  it("takes the account name from the account block", () => {
+    expect(resolveAccount(multiCfg, "acme").name).toBe("Acme");
+    expect(resolveAccount(multiCfg, "globex").tokenSource).toBe("config");
+  });
+});
+
+describe("account config updates", () => {
+  it("builds per-account config paths", () => {
+    expect(accountConfigPath("default")).toBe("channels.whatsapp-cloud.");
+    expect(accountConfigPath("acme")).toBe("channels.whatsapp-cloud.accounts.acme.");
+  });
+
+  it("updates only the targeted account", () => {
+    const next = updateAccountConfig(multiCfg, "globex", (current) => ({ ...current, enabled: true }));
+    const channel = next.channels["whatsapp-cloud"];
+    expect(channel.accounts.globex.enabled).toBe(true);
+    expect(channel.enabled).toBeUndefined();
+    expect(channel.accounts.acme).toEqual(multiCfg.channels["whatsapp-cloud"].accounts.acme);
+    expect(next.channels.telegram).toEqual({ enabled: true });
+  });
+
+  it("updates the top-level block for the default account", () => {
+    const next = updateAccountConfig(multiCfg, "default", (current) => ({ ...current, enabled: false }));
+    expect(next.channels["whatsapp-cloud"].enabled).toBe(false);
+    expect(next.channels["whatsapp-cloud"].accounts.acme).toBeDefined();
+  });
+
+  it("removes a named account and keeps the others", () => {
+    const next = removeAccountConfig(multiCfg, "acme");
+    expect(Object.keys(next.channels["whatsapp-cloud"].accounts)).toEqual(["globex"]);
+    expect(next.channels["whatsapp-cloud"].phoneNumberId).toBe("111");
+  });
+
+  it("keeps shared settings when removing default while named accounts remain", () => {
+    const next = removeAccountConfig(multiCfg, "default");
+    const channel = next.channels["whatsapp-cloud"];
+    expect(channel.phoneNumberId).toBeUndefined();
+    expect(channel.webhookPort).toBe(3100);
+    expect(channel.dmPolicy).toBe("open");
+    expect(listAccountIds(next)).toEqual(["acme", "globex"]);
+  });
+
+  it("strips the default account's credentials and hands them to accounts that inherited them", () => {
+    const next = removeAccountConfig(multiCfg, "default");
+    const channel = next.channels["whatsapp-cloud"];
+    expect(channel.accessToken).toBeUndefined();
+    expect(channel.appSecret).toBeUndefined();
+    expect(channel.accounts.acme).toMatchObject({ accessToken: "shared_token", appSecret: "shared_secret" });
+    expect(channel.accounts.globex).toMatchObject({ accessToken: "globex_token", appSecret: "shared_secret" });
+    expect(resolveConfig(next, "acme").accessToken).toBe("shared_token");
+    expect(resolveConfig(next, "globex").accessToken).toBe("globex_token");
+  });
+
+  it("removes the channel block when the last account is deleted", () => {
+    const next = removeAccountConfig(makeCfg({ phoneNumberId: "111" }), "default");
+    expect(next.channels["whatsapp-cloud"]).toBeUndefined();
+    expect(next.channels.telegram).toBeDefined();
+  });
+});
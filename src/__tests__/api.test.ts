@@ -1,4 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
 import type { WhatsAppCloudConfig } from "../types.js";
 
 // Mock fetch globally
@@ -6,7 +10,28 @@ const mockFetch = vi.fn();
 vi.stubGlobal("fetch", mockFetch);
 
 // Import after mocking
-import { sendText, sendButtons, sendMedia, markAsRead, getMediaUrl } from "../api.js";
+import {
+  sendText,
+  sendTemplate,
+  sendButtons,
+  sendInteractive,
+  sendFlow,
+  sendMedia,
+  markAsRead,
+  getMediaUrl,
+  uploadMedia,
+  downloadMedia,
+  buildButtonMessage,
+  buildListMessage,
+  buildCtaUrlMessage,
+  buildLocationRequestMessage,
+  buildAddressMessage,
+  buildProductMessage,
+  buildProductListMessage,
+  buildCatalogMessage,
+  buildFlowMessage,
+} from "../api.js";
+import { WhatsAppApiError } from "../errors.js";
 
 const mockLog = {
   info: vi.fn(),
@@ -43,6 +68,11 @@ function mockApiSuccess(messageId: string = "wamid.sent123") {
   });
 }
 
+/** fetch() failure as undici reports it, with the socket error as the cause */
+function connectError(code: string): Error {
+  return new TypeError("fetch failed", { cause: Object.assign(new Error(code), { code }) });
+}
+
 function mockApiError(code: number = 400, message: string = "Bad request") {
   mockFetch.mockResolvedValueOnce({
     ok: false,
@@ -91,17 +121,22 @@ describe("sendText", () => {
     const result = await sendText(config, "393491234567", "Hello", mockLog);
 
     expect(result.ok).toBe(false);
-    expect(result.error).toContain("Invalid OAuth token");
+    expect(result.error?.message).toContain("Invalid OAuth token");
+    expect(result.error?.kind).toBe("auth");
+    expect(result.error?.fbtraceId).toBe("trace123");
   });
 
   it("handles network errors", async () => {
-    const config = makeConfig();
-    mockFetch.mockRejectedValueOnce(new Error("ECONNREFUSED"));
+    const config = { ...makeConfig(), retry: { maxAttempts: 2, baseDelayMs: 0 } };
+    mockFetch.mockRejectedValueOnce(connectError("ECONNREFUSED"));
+    mockFetch.mockRejectedValueOnce(connectError("ECONNREFUSED"));
 
     const result = await sendText(config, "393491234567", "Hello", mockLog);
 
     expect(result.ok).toBe(false);
-    expect(result.error).toContain("ECONNREFUSED");
+    expect(result.error?.message).toContain("fetch failed");
+    expect(result.error?.kind).toBe("network");
+    expect(mockFetch).toHaveBeenCalledTimes(2);
   });
 
   it("splits long messages into chunks", async () => {
@@ -117,6 +152,241 @@ describe("sendText", () => {
     expect(result.ok).toBe(true);
     expect(mockFetch).toHaveBeenCalledTimes(2);
   });
+
+  it("enables link previews when the text contains a URL", async () => {
+    mockApiSuccess();
+    mockApiSuccess();
+    mockApiSuccess();
+
+    await sendText(makeConfig(), "393491234567", "Plain text", mockLog);
+    await sendText(makeConfig(), "393491234567", "See https://example.com/docs", mockLog);
+    await sendText(makeConfig(), "393491234567", "See https://example.com", mockLog, { previewUrl: false });
+
+    const previews = mockFetch.mock.calls.map(([, options]) => JSON.parse(options.body).text.preview_url);
+    expect(previews).toEqual([false, true, false]);
+  });
+});
+
+describe("retry policy", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  function retryConfig(): WhatsAppCloudConfig {
+    return { ...makeConfig(), retry: { maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 1000 } };
+  }
+
+  function mockThrottled(code: number, retryAfter?: string) {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 400,
+      statusText: "Bad Request",
+      headers: new Headers(retryAfter ? { "Retry-After": retryAfter } : {}),
+      json: async () => ({
+        error: { message: "Rate limit hit", type: "OAuthException", code, fbtrace_id: "trace" },
+      }),
+    });
+  }
+
+  it("retries a refused connection and succeeds", async () => {
+    mockFetch.mockRejectedValueOnce(connectError("ECONNREFUSED"));
+    mockApiSuccess("wamid.retried");
+
+    const result = await sendText(retryConfig(), "393491234567", "Hello", mockLog);
+
+    expect(result.ok).toBe(true);
+    expect(result.messageId).toBe("wamid.retried");
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(mockLog.warn).toHaveBeenCalledWith(expect.stringContaining("attempt 1/3"));
+  });
+
+  it("does not resend a message after an ambiguous network error", async () => {
+    mockFetch.mockRejectedValueOnce(connectError("ECONNRESET"));
+
+    const result = await sendText(retryConfig(), "393491234567", "Hello", mockLog);
+
+    expect(result.ok).toBe(false);
+    expect(result.error?.kind).toBe("network");
+    expect(mockFetch).toHaveBeenCalledOnce();
+  });
+
+  it("does not resend a message after a 5xx or code 131000", async () => {
+    mockApiError(503, "Service unavailable");
+    mockThrottled(131000);
+
+    expect((await sendText(retryConfig(), "393491234567", "Hello", mockLog)).ok).toBe(false);
+    expect((await sendText(retryConfig(), "393491234567", "Hello", mockLog)).ok).toBe(false);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(mockLog.warn).toHaveBeenCalledWith(expect.stringContaining("may already have been sent"));
+  });
+
+  it("retries ambiguous send failures when retryAmbiguousSends is on", async () => {
+    const config = { ...makeConfig(), retry: { maxAttempts: 3, baseDelayMs: 0, retryAmbiguousSends: true } };
+    mockFetch.mockRejectedValueOnce(connectError("ECONNRESET"));
+    mockApiError(503, "Service unavailable");
+    mockApiSuccess();
+
+    const result = await sendText(config, "393491234567", "Hello", mockLog);
+
+    expect(result.ok).toBe(true);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("retries Meta throttling codes", async () => {
+    mockThrottled(130429);
+    mockThrottled(131056);
+    mockApiSuccess();
+
+    const result = await sendText(retryConfig(), "393491234567", "Hello", mockLog);
+
+    expect(result.ok).toBe(true);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("retries 5xx responses of idempotent requests", async () => {
+    mockApiError(503, "Service unavailable");
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ url: "https://lookaside.fbsbx.com/media", mime_type: "image/jpeg" }),
+    });
+
+    const url = await getMediaUrl(retryConfig(), "media123", mockLog);
+
+    expect(url).toBe("https://lookaside.fbsbx.com/media");
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not retry permanent errors", async () => {
+    mockApiError(401, "Invalid OAuth token");
+
+    const result = await sendText(retryConfig(), "393491234567", "Hello", mockLog);
+
+    expect(result.ok).toBe(false);
+    expect(mockFetch).toHaveBeenCalledOnce();
+  });
+
+  it("stops after maxAttempts", async () => {
+    mockThrottled(4);
+    mockThrottled(4);
+    mockThrottled(4);
+
+    const result = await sendText(retryConfig(), "393491234567", "Hello", mockLog);
+
+    expect(result.ok).toBe(false);
+    expect(result.error?.message).toContain("Rate limit hit");
+    expect(result.error?.kind).toBe("rate-limit");
+    expect(result.error?.retryable).toBe(true);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("waits for a pacing slot before every attempt", async () => {
+    const config = { ...retryConfig(), phoneNumberId: "777000111", messagesPerSecond: 5 };
+    const attemptAt: number[] = [];
+    mockFetch.mockImplementation(async () => {
+      attemptAt.push(Date.now());
+      return attemptAt.length === 1
+        ? {
+            ok: false,
+            status: 400,
+            statusText: "Bad Request",
+            headers: new Headers(),
+            json: async () => ({ error: { message: "Rate limit hit", code: 130429 } }),
+          }
+        : { ok: true, json: async () => ({ messages: [{ id: "wamid.paced" }] }) };
+    });
+
+    const result = await sendText(config, "393491234567", "Hello", mockLog);
+
+    mockFetch.mockReset();
+    expect(result.ok).toBe(true);
+    // 5 messages per second: the retry takes the next 200ms slot instead of going out at once
+    expect(attemptAt[1] - attemptAt[0]).toBeGreaterThanOrEqual(190);
+  });
+
+  it("gives up when Retry-After exceeds maxDelayMs", async () => {
+    mockThrottled(80007, "120");
+
+    const result = await sendText(retryConfig(), "393491234567", "Hello", mockLog);
+
+    expect(result.ok).toBe(false);
+    expect(mockFetch).toHaveBeenCalledOnce();
+    expect(mockLog.warn).toHaveBeenCalledWith(expect.stringContaining("giving up"));
+  });
+});
+
+describe("structured errors", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("keeps code, subcode, details and fbtrace_id", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 400,
+      statusText: "Bad Request",
+      json: async () => ({
+        error: {
+          message: "Re-engagement message",
+          type: "OAuthException",
+          code: 131047,
+          error_subcode: 2494010,
+          error_data: {
+            messaging_product: "whatsapp",
+            details: "Message failed to send because more than 24 hours have passed",
+          },
+          fbtrace_id: "AbCdEf",
+        },
+      }),
+    });
+
+    const result = await sendText(makeConfig(), "393491234567", "Hello", mockLog);
+
+    expect(result.error).toBeInstanceOf(WhatsAppApiError);
+    expect(result.error?.kind).toBe("re-engagement");
+    expect(result.error?.code).toBe(131047);
+    expect(result.error?.subcode).toBe(2494010);
+    expect(result.error?.details).toContain("24 hours");
+    expect(result.error?.fbtraceId).toBe("AbCdEf");
+    expect(result.error?.retryable).toBe(false);
+    expect(result.error?.describe()).toContain("fbtrace_id AbCdEf");
+  });
+
+  it("classifies template and recipient errors", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 404,
+      statusText: "Not Found",
+      json: async () => ({
+        error: { message: "Template name does not exist", type: "OAuthException", code: 132001, fbtrace_id: "t1" },
+      }),
+    });
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 400,
+      statusText: "Bad Request",
+      json: async () => ({
+        error: { message: "Message undeliverable", type: "OAuthException", code: 131026, fbtrace_id: "t2" },
+      }),
+    });
+
+    const template = await sendText(makeConfig(), "393491234567", "Hello", mockLog);
+    const recipient = await sendText(makeConfig(), "393491234567", "Hello", mockLog);
+
+    expect(template.error?.kind).toBe("template");
+    expect(recipient.error?.kind).toBe("recipient-invalid");
+  });
+
+  it("falls back to the HTTP status when the body is empty", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 403,
+      statusText: "Forbidden",
+      json: async () => {
+        throw new Error("not json");
+      },
+    });
+
+    const result = await sendText(makeConfig(), "393491234567", "Hello", mockLog);
+
+    expect(result.error?.message).toBe("HTTP 403 Forbidden");
+    expect(result.error?.kind).toBe("auth");
+  });
 });
 
 describe("sendButtons", () => {
@@ -147,41 +417,196 @@ describe("sendButtons", () => {
     expect(body.interactive.action.buttons[0].reply.id).toBe("opt_a");
   });
 
-  it("limits to 3 buttons max", async () => {
+  it("rejects more than 3 buttons instead of dropping them", async () => {
+    const config = makeConfig();
+
+    await expect(
+      sendButtons(
+        config,
+        "393491234567",
+        "Pick:",
+        [
+          { id: "1", title: "One" },
+          { id: "2", title: "Two" },
+          { id: "3", title: "Three" },
+          { id: "4", title: "Four" },
+        ],
+        mockLog
+      )
+    ).rejects.toThrow("action.buttons: has 4 items, expected 1–3");
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("rejects button titles over 20 chars instead of truncating them", async () => {
     const config = makeConfig();
+
+    await expect(
+      sendButtons(
+        config,
+        "393491234567",
+        "Pick:",
+        [{ id: "1", title: "This is a very long button title that exceeds the limit" }],
+        mockLog
+      )
+    ).rejects.toMatchObject({
+      name: "WhatsAppValidationError",
+      field: "action.buttons[0].reply.title",
+    });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
+
+describe("sendFlow", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("sends a flow message that opens a screen", async () => {
     mockApiSuccess();
 
-    await sendButtons(
-      config,
+    await sendFlow(
+      makeConfig(),
       "393491234567",
-      "Pick:",
-      [
-        { id: "1", title: "One" },
-        { id: "2", title: "Two" },
-        { id: "3", title: "Three" },
-        { id: "4", title: "Four" }, // should be dropped
-      ],
+      "Book a table",
+      { flowId: "1234", cta: "Book now", token: "booking-42", mode: "draft", screen: "BOOKING", data: { guests: 2 } },
       mockLog
     );
 
     const body = JSON.parse(mockFetch.mock.calls[0][1].body);
-    expect(body.interactive.action.buttons).toHaveLength(3);
+    expect(body.interactive).toEqual({
+      type: "flow",
+      body: { text: "Book a table" },
+      action: {
+        name: "flow",
+        parameters: {
+          flow_message_version: "3",
+          flow_id: "1234",
+          flow_cta: "Book now",
+          flow_token: "booking-42",
+          mode: "draft",
+          flow_action: "navigate",
+          flow_action_payload: { screen: "BOOKING", data: { guests: 2 } },
+        },
+      },
+    });
   });
 
-  it("truncates button titles to 20 chars", async () => {
-    const config = makeConfig();
+  it("lets the data endpoint pick the first screen", async () => {
     mockApiSuccess();
 
-    await sendButtons(
-      config,
-      "393491234567",
-      "Pick:",
-      [{ id: "1", title: "This is a very long button title that exceeds the limit" }],
-      mockLog
+    await sendFlow(makeConfig(), "393491234567", "Survey", { flowName: "survey", cta: "Start", action: "data_exchange" }, mockLog);
+
+    const parameters = JSON.parse(mockFetch.mock.calls[0][1].body).interactive.action.parameters;
+    expect(parameters.flow_action).toBe("data_exchange");
+    expect(parameters.flow_action_payload).toBeUndefined();
+  });
+
+  it("requires a screen to navigate to", async () => {
+    await expect(sendFlow(makeConfig(), "393491234567", "Survey", { flowId: "1", cta: "Start" }, mockLog)).rejects.toThrow(
+      /flow_action_payload\.screen/
+    );
+  });
+});
+
+describe("interactive builders", () => {
+  const rows = (n: number) => Array.from({ length: n }, (_, i) => ({ id: `r${i}`, title: `Row ${i}` }));
+
+  it("builds buttons with a media header and footer", () => {
+    const message = buildButtonMessage("Confirm?", [{ id: "yes", title: "Yes" }], {
+      header: { type: "image", image: { link: "https://example.com/a.jpg" } },
+      footer: "Reply within 24h",
+    });
+
+    expect(message).toEqual({
+      type: "button",
+      header: { type: "image", image: { link: "https://example.com/a.jpg" } },
+      body: { text: "Confirm?" },
+      footer: { text: "Reply within 24h" },
+      action: { buttons: [{ type: "reply", reply: { id: "yes", title: "Yes" } }] },
+    });
+  });
+
+  it("rejects duplicate button IDs and media headers without a source", () => {
+    expect(() => buildButtonMessage("?", [{ id: "a", title: "A" }, { id: "a", title: "B" }])).toThrow(
+      'action.buttons: duplicate ID "a"'
     );
+    expect(() => buildButtonMessage("?", [{ id: "a", title: "A" }], { header: { type: "video", video: {} } })).toThrow(
+      "header.video: needs a media id or link"
+    );
+  });
+
+  it("validates list rows across sections", () => {
+    expect(buildListMessage("Menu", "View", [{ rows: rows(10) }]).action.sections[0].rows).toHaveLength(10);
+    expect(() => buildListMessage("Menu", "View", [{ title: "A", rows: rows(6) }, { title: "B", rows: rows(5) }])).toThrow(
+      "action.sections[].rows: has 11 items, expected 1–10"
+    );
+    expect(() => buildListMessage("Menu", "View", [{ rows: rows(1) }, { rows: rows(1) }])).toThrow(
+      "action.sections[0].title: must not be empty"
+    );
+    expect(() => buildListMessage("Menu", "View", [{ rows: [{ id: "x", title: "A row title that is too long" }] }])).toThrow(
+      /rows\[0\]\.title: is 28 characters, the limit is 24/
+    );
+  });
+
+  it("builds CTA URL, location request and catalog messages", () => {
+    expect(buildCtaUrlMessage("Your order", "Track", "https://example.com/t").action).toEqual({
+      name: "cta_url",
+      parameters: { display_text: "Track", url: "https://example.com/t" },
+    });
+    expect(() => buildCtaUrlMessage("Your order", "Track", "example.com")).toThrow(/must be an http\(s\) URL/);
+    expect(buildLocationRequestMessage("Where should we deliver?")).toEqual({
+      type: "location_request_message",
+      body: { text: "Where should we deliver?" },
+      action: { name: "send_location" },
+    });
+    expect(buildCatalogMessage("Browse", { thumbnailProductRetailerId: "sku-1" }).action).toEqual({
+      name: "catalog_message",
+      parameters: { thumbnail_product_retailer_id: "sku-1" },
+    });
+  });
+
+  it("builds product and product list messages", () => {
+    expect(buildProductMessage("cat_1", "sku-1").action).toEqual({ catalog_id: "cat_1", product_retailer_id: "sku-1" });
+
+    const list = buildProductListMessage("Bestsellers", "Our picks", "cat_1", [
+      { title: "Shoes", productRetailerIds: ["sku-1", "sku-2"] },
+    ]);
+    expect(list.header).toEqual({ type: "text", text: "Bestsellers" });
+    expect(list.action.sections[0].product_items).toEqual([
+      { product_retailer_id: "sku-1" },
+      { product_retailer_id: "sku-2" },
+    ]);
+
+    const tooMany = Array.from({ length: 31 }, (_, i) => `sku-${i}`);
+    expect(() =>
+      buildProductListMessage("Everything", "All", "cat_1", [{ title: "All", productRetailerIds: tooMany }])
+    ).toThrow("action.sections[].product_items: has 31 items, expected 1–30");
+  });
+
+  it("builds address and flow messages", () => {
+    expect(buildAddressMessage("Shipping address", { country: "IN", values: { name: "Asha" } }).action).toEqual({
+      name: "address_message",
+      parameters: { country: "IN", values: { name: "Asha" } },
+    });
+    expect(() => buildAddressMessage("Shipping address", { country: "India" })).toThrow(/ISO 3166-1/);
+
+    const flow = buildFlowMessage("Book a table", {
+      flow_id: "123",
+      flow_cta: "Book",
+      flow_action: "navigate",
+      flow_action_payload: { screen: "BOOKING" },
+    });
+    expect(flow.action.parameters).toMatchObject({ flow_message_version: "3", flow_id: "123", flow_cta: "Book" });
+    expect(() => buildFlowMessage("Book", { flow_cta: "Book" })).toThrow("exactly one of flow_id and flow_name");
+  });
+
+  it("sends any interactive type through sendInteractive", async () => {
+    vi.clearAllMocks();
+    mockApiSuccess();
+
+    await sendInteractive(makeConfig(), "393491234567", buildLocationRequestMessage("Share your location"), mockLog);
 
     const body = JSON.parse(mockFetch.mock.calls[0][1].body);
-    expect(body.interactive.action.buttons[0].reply.title.length).toBeLessThanOrEqual(20);
+    expect(body.type).toBe("interactive");
+    expect(body.interactive.type).toBe("location_request_message");
   });
 });
 
@@ -227,6 +652,107 @@ describe("sendMedia", () => {
   });
 });
 
+describe("reply threading", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("quotes the replied-to message on the first text chunk only", async () => {
+    mockApiSuccess("wamid.chunk1");
+    mockApiSuccess("wamid.chunk2");
+
+    await sendText(makeConfig(), "393491234567", "A".repeat(5000), mockLog, { replyTo: "wamid.inbound" });
+
+    const first = JSON.parse(mockFetch.mock.calls[0][1].body);
+    const second = JSON.parse(mockFetch.mock.calls[1][1].body);
+    expect(first.context).toEqual({ message_id: "wamid.inbound" });
+    expect(second.context).toBeUndefined();
+  });
+
+  it("adds context to media, interactive and template messages", async () => {
+    const config = makeConfig();
+    const options = { replyTo: "wamid.inbound" };
+    mockApiSuccess();
+    mockApiSuccess();
+    mockApiSuccess();
+
+    await sendMedia(config, "393491234567", "image", { link: "https://example.com/a.jpg" }, mockLog, options);
+    await sendButtons(config, "393491234567", "Pick", [{ id: "a", title: "A" }], mockLog, options);
+    await sendTemplate(config, "393491234567", "hello_world", "en_US", undefined, mockLog, options);
+
+    for (const call of mockFetch.mock.calls) {
+      expect(JSON.parse(call[1].body).context).toEqual({ message_id: "wamid.inbound" });
+    }
+  });
+
+  it("omits context without replyTo", async () => {
+    mockApiSuccess();
+    await sendText(makeConfig(), "393491234567", "Hi", mockLog);
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).context).toBeUndefined();
+  });
+});
+
+describe("uploadMedia", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  function mockUploadSuccess(mediaId: string) {
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ id: mediaId }) });
+  }
+
+  it("uploads a buffer as multipart form data", async () => {
+    const config = makeConfig();
+    mockUploadSuccess("media_upload_1");
+
+    const result = await uploadMedia(config, Buffer.from("first pdf"), "application/pdf", mockLog, {
+      filename: "report.pdf",
+    });
+
+    expect(result.ok).toBe(true);
+    expect(result.mediaId).toBe("media_upload_1");
+
+    const [url, options] = mockFetch.mock.calls[0];
+    expect(url).toBe("https://graph.facebook.com/v21.0/111222333/media");
+    expect(options.method).toBe("POST");
+    expect(options.headers["Content-Type"]).toBeUndefined();
+    const form = options.body as FormData;
+    expect(form.get("messaging_product")).toBe("whatsapp");
+    expect(form.get("type")).toBe("application/pdf");
+    expect((form.get("file") as File).name).toBe("report.pdf");
+  });
+
+  it("reuses the media ID for identical content", async () => {
+    const config = makeConfig();
+    mockUploadSuccess("media_upload_2");
+
+    const first = await uploadMedia(config, Buffer.from("same bytes"), "image/png", mockLog);
+    const second = await uploadMedia(config, Buffer.from("same bytes"), "image/png", mockLog);
+
+    expect(first.mediaId).toBe("media_upload_2");
+    expect(second.mediaId).toBe("media_upload_2");
+    expect(mockFetch).toHaveBeenCalledOnce();
+  });
+
+  it("reads local paths and file:// URLs", async () => {
+    const config = makeConfig();
+    const dir = await mkdtemp(join(tmpdir(), "wa-upload-"));
+    const path = join(dir, "chart.png");
+    await writeFile(path, "png bytes");
+    mockUploadSuccess("media_upload_3");
+
+    const result = await uploadMedia(config, pathToFileURL(path).href, "image/png", mockLog);
+
+    expect(result.mediaId).toBe("media_upload_3");
+    const form = mockFetch.mock.calls[0][1].body as FormData;
+    expect((form.get("file") as File).name).toBe("chart.png");
+  });
+
+  it("returns a media error when the file is missing", async () => {
+    const result = await uploadMedia(makeConfig(), "/nonexistent/file.pdf", "application/pdf", mockLog);
+
+    expect(result.ok).toBe(false);
+    expect(result.error?.kind).toBe("media");
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
+
 describe("markAsRead", () => {
   beforeEach(() => vi.clearAllMocks());
 
@@ -280,3 +806,35 @@ describe("getMediaUrl", () => {
     expect(url).toBeNull();
   });
 });
+
+describe("downloadMedia", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("downloads the binary content", async () => {
+    mockFetch.mockResolvedValueOnce(
+      new Response(new Uint8Array([1, 2, 3]), { headers: { "content-type": "audio/ogg" } })
+    );
+
+    const result = await downloadMedia(makeConfig(), "https://lookaside.fbsbx.com/x", mockLog);
+
+    expect(result?.buffer).toEqual(Buffer.from([1, 2, 3]));
+    expect(result?.mimeType).toBe("audio/ogg");
+  });
+
+  it("enforces maxBytes even without Content-Length", async () => {
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new Uint8Array(600));
+        controller.enqueue(new Uint8Array(600));
+        controller.close();
+      },
+    });
+    mockFetch.mockResolvedValueOnce(new Response(stream, { headers: { "content-type": "video/mp4" } }));
+
+    const result = await downloadMedia(makeConfig(), "https://lookaside.fbsbx.com/x", mockLog, {
+      maxBytes: 1000,
+    });
+
+    expect(result).toBeNull();
+  });
+});
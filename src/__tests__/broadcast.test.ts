@@ -0,0 +1,373 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, writeFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { WhatsAppCloudConfig } from "../types.js";
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+vi.stubGlobal("fetch", mockFetch);
+
+import { normalizePhoneNumber, parseAudience, loadAudience, runBroadcast } from "../broadcast.js";
+import { recordStatusUpdate } from "../status.js";
+import { statusLogPath } from "../status-log.js";
+
+const mockLog = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+};
+
+function makeConfig(): WhatsAppCloudConfig {
+  return {
+    enabled: true,
+    phoneNumberId: "111222333",
+    businessAccountId: "444555666",
+    accessToken: "test_token",
+    appSecret: "test_secret",
+    verifyToken: "test-verify",
+    webhookPort: 3100,
+    webhookPath: "/webhook/whatsapp-cloud",
+    apiVersion: "v21.0",
+    dmPolicy: "open",
+    allowFrom: [],
+    sendReadReceipts: true,
+    messagesPerSecond: 1000,
+  };
+}
+
+const TEMPLATE = {
+  id: "t1",
+  name: "order_shipped",
+  language: "en_US",
+  status: "APPROVED",
+  category: "UTILITY",
+  components: [
+    { type: "BODY", text: "Hi {{1}}, order {{2}} is on its way." },
+    { type: "BUTTONS", buttons: [{ type: "URL", text: "Track", url: "https://example.com/track/{{1}}" }] },
+  ],
+};
+
+/**
+ * Answer template lookups with TEMPLATE and sends with wamid.<recipient>.
+ * Recipients in `failing` get an error from the Cloud API.
+ */
+function mockGraph(failing: string[] = []) {
+  mockFetch.mockImplementation(async (url: string, init?: { body?: string }) => {
+    if (url.includes("/message_templates")) {
+      return { ok: true, json: async () => ({ data: [TEMPLATE] }) };
+    }
+    const to = JSON.parse(init?.body ?? "{}").to;
+    if (failing.includes(to)) {
+      return {
+        ok: false,
+        status: 400,
+        statusText: "Bad Request",
+        json: async () => ({ error: { message: "Recipient is not a valid WhatsApp user", code: 131026 } }),
+      };
+    }
+    return { ok: true, json: async () => ({ messages: [{ id: `wamid.${to}` }] }) };
+  });
+}
+
+function sentTo(): string[] {
+  return mockFetch.mock.calls
+    .filter(([url]) => String(url).endsWith("/messages"))
+    .map(([, init]) => JSON.parse(init.body).to);
+}
+
+function readLines(path: string) {
+  return readFileSync(path, "utf8")
+    .trim()
+    .split("\n")
+    .map((line) => JSON.parse(line));
+}
+
+const CSV = ["phone,1,2,button:0", "+39 349 1234567,Ada,A-100,A-100", "0044 7700 900123,Bob,B-200,B-200"].join("\n");
+
+describe("normalizePhoneNumber", () => {
+  it("keeps the country code and drops separators", () => {
+    expect(normalizePhoneNumber("+39 349 123-4567")).toBe("393491234567");
+    expect(normalizePhoneNumber("0044 (7700) 900123")).toBe("447700900123");
+    expect(normalizePhoneNumber("393491234567")).toBe("393491234567");
+  });
+
+  it("applies the default country code to national numbers", () => {
+    expect(normalizePhoneNumber("07700 900123", "44")).toBe("447700900123");
+    expect(normalizePhoneNumber("07700 900123")).toBeUndefined();
+    expect(normalizePhoneNumber("(415) 555-0123", "1")).toBe("14155550123");
+    expect(normalizePhoneNumber("+1 415 555 0123", "44")).toBe("14155550123");
+  });
+
+  it("rejects what can't be a phone number", () => {
+    expect(normalizePhoneNumber("")).toBeUndefined();
+    expect(normalizePhoneNumber("12345")).toBeUndefined();
+    expect(normalizePhoneNumber("+39 349 abc")).toBeUndefined();
+    expect(normalizePhoneNumber("1234567890123456")).toBeUndefined();
+  });
+});
+
+describe("parseAudience", () => {
+  it("maps CSV columns to template parameters", () => {
+    const result = parseAudience(
+      ["phone,header:image,name,payload:1", '393491234567,https://example.com/a.jpg,"Ada, Countess",stop'].join("\n"),
+      "csv"
+    );
+
+    expect(result.invalid).toEqual([]);
+    expect(result.rows).toEqual([
+      {
+        to: "393491234567",
+        line: 2,
+        params: {
+          header: { type: "image", link: "https://example.com/a.jpg" },
+          body: { name: "Ada, Countess" },
+          buttons: [{ type: "quick_reply", index: 1, payload: "stop" }],
+        },
+      },
+    ]);
+  });
+
+  it("orders numbered columns and handles quoted newlines", () => {
+    const result = parseAudience(['to,2,1', '393491234567,"second\nline",first'].join("\r\n"), "csv");
+
+    expect(result.rows[0].params.body).toEqual(["first", "second\nline"]);
+  });
+
+  it("deduplicates numbers and reports invalid rows by line", () => {
+    const result = parseAudience(
+      ["phone,1", "+39 349 1234567,a", "393491234567,b", "not a number,c", "447700900123", "447700900124,d"].join("\n"),
+      "csv"
+    );
+
+    expect(result.rows.map((r) => [r.to, r.params.body])).toEqual([
+      ["393491234567", ["a"]],
+      ["447700900124", ["d"]],
+    ]);
+    expect(result.duplicates).toBe(1);
+    expect(result.invalid).toEqual([
+      { line: 4, reason: 'invalid phone number "not a number"' },
+      { line: 5, reason: "has 1 fields, the header has 2" },
+    ]);
+  });
+
+  it("reads JSONL rows with columns or full params", () => {
+    const result = parseAudience(
+      [
+        JSON.stringify({ phone: "+393491234567", 1: "Ada" }),
+        "{broken",
+        JSON.stringify({ wa_id: "447700900123", params: { body: { name: "Bob" } } }),
+        JSON.stringify({ phone: "447700900124", "footer:1": "x" }),
+      ].join("\n"),
+      "jsonl"
+    );
+
+    expect(result.rows.map((r) => r.params)).toEqual([{ body: ["Ada"] }, { body: { name: "Bob" } }]);
+    expect(result.invalid).toEqual([
+      { line: 2, reason: "invalid JSON" },
+      { line: 4, reason: 'unknown column "footer:1"' },
+    ]);
+  });
+});
+
+describe("runBroadcast", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockFetch.mockReset();
+    dir = mkdtempSync(join(tmpdir(), "wa-broadcast-"));
+  });
+
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("sends to every row and writes one result per recipient", async () => {
+    mockGraph(["447700900123"]);
+    writeFileSync(join(dir, "audience.csv"), CSV);
+    const { rows } = await loadAudience(join(dir, "audience.csv"));
+    const resultsPath = join(dir, "results.jsonl");
+    const onProgress = vi.fn();
+
+    const report = await runBroadcast(
+      makeConfig(),
+      { template: "order_shipped", language: "en_US", audience: rows, resultsPath, messagesPerSecond: 100, onProgress },
+      mockLog
+    );
+
+    expect(sentTo()).toEqual(["393491234567", "447700900123"]);
+    const body = JSON.parse(mockFetch.mock.calls.find(([url]) => String(url).endsWith("/messages"))![1].body);
+    expect(body.template.components).toEqual([
+      {
+        type: "body",
+        parameters: [
+          { type: "text", text: "Ada" },
+          { type: "text", text: "A-100" },
+        ],
+      },
+      { type: "button", sub_type: "url", index: "0", parameters: [{ type: "text", text: "A-100" }] },
+    ]);
+
+    expect(report.counts).toEqual({ accepted: 1, failed: 1 });
+    expect(onProgress).toHaveBeenLastCalledWith({ total: 2, done: 2, failed: 1 });
+    expect(readLines(resultsPath)).toEqual([
+      { to: "393491234567", status: "accepted", messageId: "wamid.393491234567", at: expect.any(Number) },
+      { to: "447700900123", status: "failed", error: expect.stringContaining("131026"), at: expect.any(Number) },
+    ]);
+  });
+
+  it("records rows that don't fit the template as invalid without sending", async () => {
+    mockGraph();
+    const { rows } = parseAudience(["phone,1", "393491234567,Ada"].join("\n"), "csv");
+
+    const report = await runBroadcast(
+      makeConfig(),
+      { template: "order_shipped", language: "en_US", audience: rows, messagesPerSecond: 100 },
+      mockLog
+    );
+
+    expect(sentTo()).toEqual([]);
+    expect(report.counts).toEqual({ invalid: 1 });
+    expect(report.results[0].error).toContain("body");
+  });
+
+  it("sends nothing and writes nothing on a dry run", async () => {
+    mockGraph();
+    const { rows } = parseAudience(CSV, "csv");
+    const resultsPath = join(dir, "results.jsonl");
+
+    const report = await runBroadcast(
+      makeConfig(),
+      { template: "order_shipped", language: "en_US", audience: rows, resultsPath, dryRun: true },
+      mockLog
+    );
+
+    expect(sentTo()).toEqual([]);
+    expect(report.counts).toEqual({ "dry-run": 2 });
+    expect(() => readFileSync(resultsPath)).toThrow();
+  });
+
+  it("resumes from the results file without messaging anyone twice", async () => {
+    mockGraph();
+    const { rows } = parseAudience(
+      ["phone,1,2,button:0", "393491234567,a,b,c", "447700900123,a,b,c", "447700900124,a,b,c", "447700900125,a,b,c"].join(
+        "\n"
+      ),
+      "csv"
+    );
+    const resultsPath = join(dir, "results.jsonl");
+    writeFileSync(
+      resultsPath,
+      [
+        { to: "393491234567", status: "sending", at: 1 },
+        { to: "393491234567", status: "accepted", messageId: "wamid.old", at: 2 },
+        { to: "447700900123", status: "sending", at: 3 },
+        { to: "447700900124", status: "failed", error: "boom", at: 4 },
+      ]
+        .map((r) => JSON.stringify(r))
+        .join("\n") + '\n{"to":"4477009',
+    );
+
+    const report = await runBroadcast(
+      makeConfig(),
+      { template: "order_shipped", language: "en_US", audience: rows, resultsPath, messagesPerSecond: 100 },
+      mockLog
+    );
+
+    expect(sentTo()).toEqual(["447700900125"]);
+    expect(report.skipped).toBe(3);
+    expect(readLines(resultsPath).map((r) => [r.to, r.status])).toEqual([
+      ["393491234567", "accepted"],
+      ["447700900123", "unknown"],
+      ["447700900124", "failed"],
+      ["447700900125", "accepted"],
+    ]);
+
+    mockFetch.mockClear();
+    await runBroadcast(
+      makeConfig(),
+      { template: "order_shipped", language: "en_US", audience: rows, resultsPath, retryFailed: true },
+      mockLog
+    );
+    expect(sentTo()).toEqual(["447700900124"]);
+  });
+
+  it("reports the delivery status from status webhooks", async () => {
+    mockGraph();
+    const { rows } = parseAudience(["phone,1,2,button:0", "393491234599,a,b,c"].join("\n"), "csv");
+    const resultsPath = join(dir, "results.jsonl");
+
+    const run = runBroadcast(
+      makeConfig(),
+      { template: "order_shipped", language: "en_US", audience: rows, resultsPath, waitForStatusMs: 5000 },
+      mockLog
+    );
+    await vi.waitFor(() => expect(sentTo()).toHaveLength(1));
+    setTimeout(() => {
+      recordStatusUpdate("111222333", {
+        id: "wamid.393491234599",
+        status: "delivered",
+        timestamp: String(Math.floor(Date.now() / 1000)),
+        recipient_id: "393491234599",
+      });
+    }, 50);
+    const report = await run;
+
+    expect(report.counts).toEqual({ delivered: 1 });
+    expect(readLines(resultsPath)[0].status).toBe("delivered");
+  });
+
+  it("reads final statuses from the gateway's status log", async () => {
+    mockGraph();
+    const { rows } = parseAudience(["phone,1,2,button:0", "393491234588,a,b,c"].join("\n"), "csv");
+    const resultsPath = join(dir, "results.jsonl");
+    const config = { ...makeConfig(), statusLog: true, statusLogDir: dir };
+
+    await runBroadcast(config, { template: "order_shipped", language: "en_US", audience: rows, resultsPath }, mockLog);
+    expect(readLines(resultsPath)[0].status).toBe("accepted");
+
+    // Written by the gateway process, which received the webhook
+    writeFileSync(
+      statusLogPath(config),
+      JSON.stringify({ id: "wamid.393491234588", status: "failed", at: Date.now(), error: "Message undeliverable" }) + "\n"
+    );
+    mockFetch.mockClear();
+    const report = await runBroadcast(
+      config,
+      { template: "order_shipped", language: "en_US", audience: rows, resultsPath },
+      mockLog
+    );
+
+    expect(sentTo()).toEqual([]);
+    expect(report.counts).toEqual({ failed: 1 });
+    expect(readLines(resultsPath)[0]).toMatchObject({ status: "failed", error: "Message undeliverable" });
+  });
+
+  it("rejects a rate that isn't a positive number", async () => {
+    mockGraph();
+    const { rows } = parseAudience(CSV, "csv");
+
+    for (const messagesPerSecond of [NaN, 0, -5, Infinity]) {
+      await expect(
+        runBroadcast(makeConfig(), { template: "order_shipped", language: "en_US", audience: rows, messagesPerSecond }, mockLog)
+      ).rejects.toThrow("messagesPerSecond: must be a positive number");
+    }
+    expect(sentTo()).toEqual([]);
+  });
+
+  it("stops launching sends when aborted", async () => {
+    mockGraph();
+    const { rows } = parseAudience(CSV, "csv");
+    const abort = new AbortController();
+    abort.abort();
+
+    const report = await runBroadcast(
+      makeConfig(),
+      { template: "order_shipped", language: "en_US", audience: rows, signal: abort.signal },
+      mockLog
+    );
+
+    expect(sentTo()).toEqual([]);
+    expect(report.interrupted).toBe(true);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseBusinessEvent,
+  describeBusinessEvent,
+  recordBusinessEvent,
+  getBusinessIssues,
+  type WhatsAppBusinessEvent,
+} from "../business-events.js";
+
+function templateStatus(event: string, reason = "NONE"): WhatsAppBusinessEvent {
+  return parseBusinessEvent("message_template_status_update", "444555666", {
+    event,
+    message_template_id: 1234,
+    message_template_name: "order_shipped",
+    message_template_language: "en_US",
+    reason,
+  })!;
+}
+
+function phoneQuality(event: string, currentLimit = "TIER_1K"): WhatsAppBusinessEvent {
+  return parseBusinessEvent("phone_number_quality_update", "444555666", {
+    display_phone_number: "15550001234",
+    event,
+    current_limit: currentLimit,
+  })!;
+}
+
+describe("parseBusinessEvent", () => {
+  it("types known fields and keeps the business account ID", () => {
+    const event = templateStatus("APPROVED");
+
+    expect(event.field).toBe("message_template_status_update");
+    expect(event.businessAccountId).toBe("444555666");
+    expect(event.value).toMatchObject({ event: "APPROVED", message_template_name: "order_shipped" });
+  });
+
+  it("ignores unknown fields and malformed values", () => {
+    expect(parseBusinessEvent("security", "1", { event: "PIN_CHANGED" })).toBeUndefined();
+    expect(parseBusinessEvent("message_template_status_update", "1", { event: "APPROVED" })).toBeUndefined();
+    expect(parseBusinessEvent("account_update", "1", {})).toBeUndefined();
+    expect(parseBusinessEvent("account_update", "1", null)).toBeUndefined();
+  });
+});
+
+describe("describeBusinessEvent", () => {
+  it("flags rejected templates with the reason", () => {
+    expect(describeBusinessEvent(templateStatus("REJECTED", "INVALID_FORMAT"))).toEqual({
+      message: "Template order_shipped (en_US) was rejected: INVALID_FORMAT",
+      problem: true,
+      resolved: false,
+    });
+    expect(describeBusinessEvent(templateStatus("APPROVED"))).toEqual({
+      message: "Template order_shipped (en_US) was approved",
+      problem: false,
+      resolved: true,
+    });
+    expect(describeBusinessEvent(templateStatus("PENDING_DELETION"))).toMatchObject({
+      message: "Template order_shipped (en_US) is pending deletion",
+      resolved: false,
+    });
+  });
+
+  it("describes quality and limit changes", () => {
+    expect(describeBusinessEvent(phoneQuality("FLAGGED"))).toEqual({
+      message: "Number 15550001234 quality dropped to RED",
+      problem: true,
+      resolved: false,
+    });
+    expect(describeBusinessEvent(phoneQuality("UNFLAGGED")).resolved).toBe(true);
+    expect(describeBusinessEvent(phoneQuality("DOWNGRADE", "TIER_250")).message).toBe(
+      "Number 15550001234 messaging limit lowered to TIER_250"
+    );
+
+    const quality = parseBusinessEvent("message_template_quality_update", "444555666", {
+      previous_quality_score: "GREEN",
+      new_quality_score: "RED",
+      message_template_id: 1234,
+      message_template_name: "promo",
+      message_template_language: "it",
+    })!;
+    expect(describeBusinessEvent(quality)).toEqual({
+      message: "Template promo (it) quality changed from GREEN to RED",
+      problem: true,
+      resolved: false,
+    });
+  });
+
+  it("describes account restrictions and informational events", () => {
+    const restricted = parseBusinessEvent("account_update", "444555666", {
+      event: "ACCOUNT_RESTRICTION",
+      restriction_info: [{ restriction_type: "RESTRICTED_ADD_PHONE_NUMBER_ACTION", expiration: 1700000000 }],
+    })!;
+    expect(describeBusinessEvent(restricted)).toEqual({
+      message: "Business account restricted: RESTRICTED_ADD_PHONE_NUMBER_ACTION",
+      problem: true,
+      resolved: false,
+    });
+
+    const capability = parseBusinessEvent("business_capability_update", "444555666", {
+      max_daily_conversation_per_phone: 1000,
+    })!;
+    expect(describeBusinessEvent(capability)).toEqual({
+      message: "Business capabilities updated: max_daily_conversation_per_phone=1000",
+      problem: false,
+      resolved: false,
+    });
+  });
+});
+
+describe("recordBusinessEvent", () => {
+  it("opens issues and clears them with a later event", () => {
+    recordBusinessEvent("record-1", templateStatus("REJECTED", "INVALID_FORMAT"), 1);
+    recordBusinessEvent("record-1", phoneQuality("FLAGGED"), 2);
+
+    expect(getBusinessIssues("record-1").map((i) => i.message)).toEqual([
+      "Template order_shipped (en_US) was rejected: INVALID_FORMAT",
+      "Number 15550001234 quality dropped to RED",
+    ]);
+
+    // An edited template goes back to review
+    recordBusinessEvent("record-1", templateStatus("PENDING"), 3);
+    recordBusinessEvent("record-1", phoneQuality("UNFLAGGED"), 4);
+
+    expect(getBusinessIssues("record-1")).toEqual([]);
+  });
+
+  it("keeps issues per phone number", () => {
+    recordBusinessEvent("record-2", phoneQuality("DOWNGRADE"));
+
+    expect(getBusinessIssues("record-2")).toHaveLength(1);
+    expect(getBusinessIssues("record-3")).toEqual([]);
+  });
+});
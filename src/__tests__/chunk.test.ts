@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { chunkMessage, graphemeLength, graphemes } from "../chunk.js";
+
+describe("graphemes", () => {
+  it("keeps emoji sequences together", () => {
+    expect(graphemes("a👍🏽🇮🇹👨‍👩‍👧")).toEqual(["a", "👍🏽", "🇮🇹", "👨‍👩‍👧"]);
+    expect(graphemeLength("👨‍👩‍👧 hi")).toBe(4);
+  });
+});
+
+describe("chunkMessage", () => {
+  it("returns short text unchanged", () => {
+    expect(chunkMessage("hello", { maxLength: 10 })).toEqual(["hello"]);
+  });
+
+  it("prefers paragraph breaks", () => {
+    const text = "First paragraph here.\n\nSecond one is here. And more words";
+    expect(chunkMessage(text, { maxLength: 40 })).toEqual(["First paragraph here.", "Second one is here. And more words"]);
+  });
+
+  it("falls back to sentences, then words", () => {
+    expect(chunkMessage("One sentence. Another sentence follows", { maxLength: 30 })).toEqual([
+      "One sentence.",
+      "Another sentence follows",
+    ]);
+    expect(chunkMessage("alpha beta gamma delta epsilon", { maxLength: 20 })).toEqual([
+      "alpha beta gamma",
+      "delta epsilon",
+    ]);
+  });
+
+  it("never splits a grapheme cluster", () => {
+    const text = "🇮🇹".repeat(25);
+    const chunks = chunkMessage(text, { maxLength: 10 });
+    expect(chunks.join("")).toBe(text);
+    for (const chunk of chunks) {
+      expect(graphemeLength(chunk)).toBeLessThanOrEqual(10);
+      expect(chunk).toMatch(/^(🇮🇹)+$/);
+    }
+  });
+
+  it("closes and reopens code fences", () => {
+    const code = Array.from({ length: 8 }, (_, i) => `line ${i}`).join("\n");
+    const chunks = chunkMessage(`Code:\n\`\`\`\n${code}\n\`\`\`\nDone`, { maxLength: 40 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(graphemeLength(chunk)).toBeLessThanOrEqual(40);
+      expect(chunk.match(/```/g)?.length ?? 0).not.toBe(1);
+    }
+    expect(chunks[1].startsWith("```\n")).toBe(true);
+  });
+
+  it("closes and reopens inline formatting", () => {
+    const chunks = chunkMessage("Intro. *this bold span is long enough to be split*", { maxLength: 30 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[0].endsWith("*")).toBe(true);
+    expect(chunks[1].startsWith("*")).toBe(true);
+    for (const chunk of chunks) expect(chunk.match(/\*/g)?.length ?? 0).toBe(2);
+  });
+
+  it("ignores markers that never close", () => {
+    const chunks = chunkMessage("2 *3 is a multiplication that goes on and on and on", { maxLength: 30 });
+    expect(chunks.slice(1).every((c) => !c.startsWith("*"))).toBe(true);
+  });
+
+  it("adds numbered markers within the limit", () => {
+    const words = Array.from({ length: 60 }, (_, i) => `w${i}`).join(" ");
+    const chunks = chunkMessage(words, { maxLength: 25, markers: true });
+
+    expect(chunks.length).toBeGreaterThan(9);
+    expect(chunks[0].endsWith(`\n(1/${chunks.length})`)).toBe(true);
+    expect(chunks.at(-1)!.endsWith(`\n(${chunks.length}/${chunks.length})`)).toBe(true);
+    for (const chunk of chunks) expect(graphemeLength(chunk)).toBeLessThanOrEqual(25);
+  });
+});
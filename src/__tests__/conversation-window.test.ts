@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { WhatsAppCloudConfig, SendResult } from "../types.js";
+
+const mockFetch = vi.fn();
+vi.stubGlobal("fetch", mockFetch);
+
+import {
+  recordInboundMessage,
+  getWindowState,
+  sendWithinWindow,
+  setConversationWindowStore,
+  SERVICE_WINDOW_MS,
+} from "../conversation-window.js";
+import { WhatsAppApiError } from "../errors.js";
+
+const mockLog = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+};
+
+function makeConfig(overrides: Partial<WhatsAppCloudConfig> = {}): WhatsAppCloudConfig {
+  return {
+    enabled: true,
+    phoneNumberId: "111222333",
+    businessAccountId: "444555666",
+    accessToken: "test_token",
+    appSecret: "test_secret",
+    verifyToken: "test-verify",
+    webhookPort: 3100,
+    webhookPath: "/webhook/whatsapp-cloud",
+    apiVersion: "v21.0",
+    dmPolicy: "open",
+    allowFrom: [],
+    sendReadReceipts: true,
+    ...overrides,
+  };
+}
+
+function resetStore() {
+  const map = new Map<string, number>();
+  setConversationWindowStore({ get: async (k) => map.get(k), set: async (k, v) => void map.set(k, v) });
+}
+
+describe("getWindowState", async () => {
+  beforeEach(resetStore);
+
+  it("is unknown before any inbound message", async () => {
+    expect(await getWindowState("111222333", "393491234567")).toBe("unknown");
+  });
+
+  it("is open within 24h of the last inbound message", async () => {
+    const now = Date.now();
+    await recordInboundMessage("111222333", "393491234567", now - 60_000);
+    expect(await getWindowState("111222333", "+39 349 123 4567", now)).toBe("open");
+  });
+
+  it("closes after 24h", async () => {
+    const now = Date.now();
+    await recordInboundMessage("111222333", "393491234567", now - SERVICE_WINDOW_MS - 1);
+    expect(await getWindowState("111222333", "393491234567", now)).toBe("closed");
+  });
+
+  it("ignores out-of-order older timestamps", async () => {
+    const now = Date.now();
+    await recordInboundMessage("111222333", "393491234567", now - 1000);
+    await recordInboundMessage("111222333", "393491234567", now - SERVICE_WINDOW_MS * 2);
+    expect(await getWindowState("111222333", "393491234567", now)).toBe("open");
+  });
+
+  it("treats a malformed timestamp as now", async () => {
+    await recordInboundMessage("111222333", "393491234567", NaN);
+    expect(await getWindowState("111222333", "393491234567")).toBe("open");
+  });
+
+  it("is scoped per business number", async () => {
+    await recordInboundMessage("111222333", "393491234567");
+    expect(await getWindowState("999888777", "393491234567")).toBe("unknown");
+  });
+
+  it("works with an asynchronous store", async () => {
+    const map = new Map<string, number>();
+    const delay = () => new Promise((r) => setTimeout(r, 5));
+    setConversationWindowStore({
+      get: async (k) => {
+        await delay();
+        return map.get(k);
+      },
+      set: async (k, v) => {
+        await delay();
+        map.set(k, v);
+      },
+    });
+    const now = Date.now();
+
+    await recordInboundMessage("111222333", "393491234567", now - 1000);
+    await recordInboundMessage("111222333", "393491234567", now - SERVICE_WINDOW_MS * 2);
+
+    expect(map.get("111222333:393491234567")).toBe(now - 1000);
+    expect(await getWindowState("111222333", "393491234567", now)).toBe("open");
+  });
+});
+
+describe("sendWithinWindow", () => {
+  beforeEach(() => {
+    resetStore();
+    vi.clearAllMocks();
+  });
+
+  const template = { name: "follow_up", language: "en_US" };
+
+  function mockTemplateSent() {
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ messages: [{ id: "wamid.template" }] }) });
+  }
+
+  it("sends normally while the window is open", async () => {
+    await recordInboundMessage("111222333", "393491234567");
+    const send = vi.fn(async (): Promise<SendResult> => ({ ok: true, messageId: "wamid.text" }));
+
+    const result = await sendWithinWindow(makeConfig(), "393491234567", send, mockLog);
+
+    expect(send).toHaveBeenCalledOnce();
+    expect(result.messageId).toBe("wamid.text");
+  });
+
+  it("sends the re-engagement template when the window is closed", async () => {
+    await recordInboundMessage("111222333", "393491234567", Date.now() - SERVICE_WINDOW_MS - 1000);
+    const send = vi.fn();
+    mockTemplateSent();
+
+    const result = await sendWithinWindow(
+      makeConfig({ reengagementTemplate: template }),
+      "393491234567",
+      send,
+      mockLog
+    );
+
+    expect(send).not.toHaveBeenCalled();
+    expect(result.ok).toBe(false);
+    expect(result.error?.kind).toBe("re-engagement");
+    expect(result.reengagementMessageId).toBe("wamid.template");
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+    expect(body.type).toBe("template");
+    expect(body.template).toEqual({ name: "follow_up", language: { code: "en_US" } });
+  });
+
+  it("falls back to the template when Meta reports a closed window", async () => {
+    const send = vi.fn(async (): Promise<SendResult> => ({
+      ok: false,
+      error: new WhatsAppApiError("Re-engagement message", { code: 131047 }),
+    }));
+    mockTemplateSent();
+
+    const result = await sendWithinWindow(
+      makeConfig({ reengagementTemplate: template }),
+      "393491234567",
+      send,
+      mockLog
+    );
+
+    expect(result.ok).toBe(false);
+    expect(result.error?.kind).toBe("re-engagement");
+    expect(result.reengagementMessageId).toBe("wamid.template");
+    expect(await getWindowState("111222333", "393491234567")).toBe("closed");
+  });
+
+  it("sends the template once per closed window", async () => {
+    await recordInboundMessage("111222333", "393491234567", Date.now() - SERVICE_WINDOW_MS - 1000);
+    const config = makeConfig({ reengagementTemplate: template });
+    mockTemplateSent();
+
+    const parts = await Promise.all([1, 2, 3].map(() => sendWithinWindow(config, "393491234567", vi.fn(), mockLog)));
+
+    expect(mockFetch).toHaveBeenCalledOnce();
+    expect(parts.map((r) => r.error?.kind)).toEqual(["re-engagement", "re-engagement", "re-engagement"]);
+    expect(parts.filter((r) => r.reengagementMessageId)).toHaveLength(1);
+
+    // A reply opens a new window; once that closes too, the template is sent again
+    await recordInboundMessage("111222333", "393491234567", Date.now() - SERVICE_WINDOW_MS - 500);
+    mockTemplateSent();
+    const later = await sendWithinWindow(config, "393491234567", vi.fn(), mockLog);
+    expect(later.reengagementMessageId).toBe("wamid.template");
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("returns a re-engagement error when no template is configured", async () => {
+    await recordInboundMessage("111222333", "393491234567", Date.now() - SERVICE_WINDOW_MS - 1000);
+
+    const result = await sendWithinWindow(makeConfig(), "393491234567", vi.fn(), mockLog);
+
+    expect(result.ok).toBe(false);
+    expect(result.error?.kind).toBe("re-engagement");
+    expect(result.error?.message).toContain("reengagementTemplate");
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
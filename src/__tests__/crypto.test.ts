@@ -1,6 +1,14 @@
 import { describe, it, expect } from "vitest";
-import { createHmac } from "node:crypto";
-import { verifyWebhookSignature } from "../crypto.js";
+import {
+  createHmac,
+  generateKeyPairSync,
+  publicEncrypt,
+  randomBytes,
+  createCipheriv,
+  createDecipheriv,
+  constants,
+} from "node:crypto";
+import { verifyWebhookSignature, decryptFlowRequest, encryptFlowResponse } from "../crypto.js";
 
 const APP_SECRET = "test_app_secret_1234567890";
 
@@ -48,3 +56,37 @@ describe("verifyWebhookSignature", () => {
     expect(verifyWebhookSignature(body, sig, APP_SECRET)).toBe(true);
   });
 });
+
+describe("Flows encryption", () => {
+  it("decrypts a request and encrypts the response with the flipped IV", () => {
+    const { publicKey, privateKey } = generateKeyPairSync("rsa", {
+      modulusLength: 2048,
+      publicKeyEncoding: { type: "spki", format: "pem" },
+      privateKeyEncoding: { type: "pkcs8", format: "pem" },
+    });
+    const aesKey = randomBytes(16);
+    const iv = randomBytes(16);
+    const cipher = createCipheriv("aes-128-gcm", aesKey, iv);
+    const data = Buffer.concat([cipher.update('{"action":"ping"}', "utf8"), cipher.final(), cipher.getAuthTag()]);
+
+    const decrypted = decryptFlowRequest(
+      {
+        encrypted_flow_data: data.toString("base64"),
+        encrypted_aes_key: publicEncrypt(
+          { key: publicKey, padding: constants.RSA_PKCS1_OAEP_PADDING, oaepHash: "sha256" },
+          aesKey
+        ).toString("base64"),
+        initial_vector: iv.toString("base64"),
+      },
+      privateKey
+    );
+    expect(decrypted.body).toEqual({ action: "ping" });
+    expect(decrypted.aesKey.equals(aesKey)).toBe(true);
+
+    const response = Buffer.from(encryptFlowResponse({ data: { status: "active" } }, aesKey, iv), "base64");
+    const decipher = createDecipheriv("aes-128-gcm", aesKey, Buffer.from(iv.map((b) => ~b & 0xff)));
+    decipher.setAuthTag(response.subarray(-16));
+    const plain = Buffer.concat([decipher.update(response.subarray(0, -16)), decipher.final()]).toString("utf8");
+    expect(JSON.parse(plain)).toEqual({ data: { status: "active" } });
+  });
+});
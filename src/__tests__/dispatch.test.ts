@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { WhatsAppCloudConfig } from "../types.js";
+import type { ParsedInboundMessage } from "../webhook.js";
+import { dispatchInbound, coalesceMessages } from "../dispatch.js";
+
+function makeConfig(overrides: Partial<WhatsAppCloudConfig> = {}): WhatsAppCloudConfig {
+  return {
+    enabled: true,
+    phoneNumberId: "111222333",
+    businessAccountId: "444555666",
+    accessToken: "test_token",
+    appSecret: "",
+    verifyToken: "test-verify",
+    webhookPort: 3100,
+    webhookPath: "/webhook/whatsapp-cloud",
+    apiVersion: "v21.0",
+    dmPolicy: "open",
+    allowFrom: [],
+    sendReadReceipts: false,
+    ...overrides,
+  };
+}
+
+function makeMessage(from: string, text: string, id: string = `wamid.${text}`): ParsedInboundMessage {
+  return { from, senderName: "Test User", text, messageId: id, timestamp: "1700000000", type: "text" };
+}
+
+const mockLog = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+};
+
+const delay = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe("dispatchInbound", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("handles one sender's messages in order, one at a time", async () => {
+    const events: string[] = [];
+    const handler = async (msg: ParsedInboundMessage) => {
+      events.push(`start ${msg.text}`);
+      await delay(msg.text === "first" ? 30 : 1);
+      events.push(`end ${msg.text}`);
+    };
+    const config = makeConfig({ phoneNumberId: "order" });
+
+    await Promise.all([
+      dispatchInbound(config, makeMessage("391", "first"), handler, mockLog),
+      dispatchInbound(config, makeMessage("391", "second"), handler, mockLog),
+    ]);
+
+    expect(events).toEqual(["start first", "end first", "start second", "end second"]);
+  });
+
+  it("runs different senders in parallel", async () => {
+    const events: string[] = [];
+    const handler = async (msg: ParsedInboundMessage) => {
+      events.push(`start ${msg.from}`);
+      await delay(10);
+      events.push(`end ${msg.from}`);
+    };
+    const config = makeConfig({ phoneNumberId: "parallel" });
+
+    await Promise.all([
+      dispatchInbound(config, makeMessage("391", "a"), handler, mockLog),
+      dispatchInbound(config, makeMessage("392", "b"), handler, mockLog),
+    ]);
+
+    expect(events.slice(0, 2)).toEqual(["start 391", "start 392"]);
+  });
+
+  it("coalesces a burst within the debounce window", async () => {
+    const received: ParsedInboundMessage[] = [];
+    const config = makeConfig({ phoneNumberId: "burst", inboundDebounceMs: 20 });
+    const handler = (msg: ParsedInboundMessage) => {
+      received.push(msg);
+    };
+
+    const first = dispatchInbound(config, makeMessage("391", "hi"), handler, mockLog);
+    await delay(5);
+    const second = dispatchInbound(config, makeMessage("391", "I need help"), handler, mockLog);
+    await delay(5);
+    const third = dispatchInbound(config, makeMessage("391", "with my order"), handler, mockLog);
+    await Promise.all([first, second, third]);
+
+    expect(received).toHaveLength(1);
+    expect(received[0].text).toBe("hi\nI need help\nwith my order");
+    expect(received[0].messageId).toBe("wamid.with my order");
+    expect(received[0].batch).toHaveLength(3);
+    expect(mockLog.info).toHaveBeenCalledWith(expect.stringContaining("Coalesced 3 messages"));
+  });
+
+  it("dispatches a burst that keeps going once the cap is reached", async () => {
+    const received: Array<{ msg: ParsedInboundMessage; at: number }> = [];
+    const config = makeConfig({ phoneNumberId: "endless", inboundDebounceMs: 30, inboundDebounceMaxMs: 60 });
+    const handler = (msg: ParsedInboundMessage) => {
+      received.push({ msg, at: Date.now() });
+    };
+
+    const calls: Promise<void>[] = [];
+    const start = Date.now();
+    for (let i = 0; i < 8; i++) {
+      calls.push(dispatchInbound(config, makeMessage("391", `part ${i}`), handler, mockLog));
+      await delay(15);
+    }
+    await Promise.all(calls);
+
+    expect(received.length).toBeGreaterThan(1);
+    expect(received[0].at - start).toBeLessThan(100);
+    expect(received.flatMap(({ msg }) => msg.batch ?? [msg]).map((m) => m.text)).toHaveLength(8);
+  });
+
+  it("caps concurrent dispatches", async () => {
+    let active = 0;
+    let peak = 0;
+    const handler = async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await delay(5);
+      active--;
+    };
+    const config = makeConfig({ phoneNumberId: "capped", maxConcurrentDispatches: 2 });
+
+    await Promise.all(
+      ["391", "392", "393", "394", "395"].map((from) => dispatchInbound(config, makeMessage(from, "x"), handler, mockLog))
+    );
+
+    expect(peak).toBe(2);
+  });
+
+  it("rejects every caller of a failed batch", async () => {
+    const config = makeConfig({ phoneNumberId: "failing", inboundDebounceMs: 10 });
+    const handler = () => {
+      throw new Error("agent down");
+    };
+
+    const results = await Promise.allSettled([
+      dispatchInbound(config, makeMessage("391", "a"), handler, mockLog),
+      dispatchInbound(config, makeMessage("391", "b"), handler, mockLog),
+    ]);
+
+    expect(results.map((r) => r.status)).toEqual(["rejected", "rejected"]);
+  });
+});
+
+describe("coalesceMessages", () => {
+  it("returns a single message unchanged", () => {
+    const msg = makeMessage("391", "solo");
+    expect(coalesceMessages([msg])).toBe(msg);
+  });
+
+  it("keeps media and reply context from earlier messages", () => {
+    const withMedia = { ...makeMessage("391", "[📷 Image]"), media: { id: "m1", mimeType: "image/jpeg" } };
+    const quoted = { ...makeMessage("391", "this one"), quotedMessageId: "wamid.quoted" };
+    const merged = coalesceMessages([withMedia, quoted]);
+    expect(merged.media?.id).toBe("m1");
+    expect(merged.quotedMessageId).toBe("wamid.quoted");
+    expect(merged.text).toBe("[📷 Image]\nthis one");
+  });
+
+  it("keeps reactions, orders and Flow responses from earlier messages", () => {
+    const reaction = { ...makeMessage("391", "[Reacted 👍]"), type: "reaction", reaction: { messageId: "wamid.out", emoji: "👍" } };
+    const order = {
+      ...makeMessage("391", "[Order]"),
+      type: "order",
+      order: { catalogId: "cat1", items: [{ productRetailerId: "sku1", quantity: 1, itemPrice: 9.5, currency: "EUR" }] },
+    };
+    const flow = { ...makeMessage("391", "[Flow]"), type: "interactive", flowResponse: { data: { size: "M" } } };
+
+    const merged = coalesceMessages([reaction, order, flow, makeMessage("391", "thanks")]);
+
+    expect(merged.messageId).toBe("wamid.thanks");
+    expect(merged.reaction).toEqual({ messageId: "wamid.out", emoji: "👍" });
+    expect(merged.order?.catalogId).toBe("cat1");
+    expect(merged.flowResponse?.data).toEqual({ size: "M" });
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect, vi, beforeAll, afterEach } from "vitest";
+import {
+  createHmac,
+  generateKeyPairSync,
+  publicEncrypt,
+  randomBytes,
+  createCipheriv,
+  createDecipheriv,
+  constants,
+} from "node:crypto";
+import type { WhatsAppCloudConfig } from "../types.js";
+import { startWebhookServer, attachWebhookRoute, detachWebhookRoute } from "../webhook.js";
+import { setFlowDataHandler, FlowEndpointError } from "../flows.js";
+
+const APP_SECRET = "test_secret_for_flows";
+const PASSPHRASE = "flows-passphrase";
+
+let publicKey: string;
+let privateKey: string;
+
+beforeAll(() => {
+  const pair = generateKeyPairSync("rsa", {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: "spki", format: "pem" },
+    privateKeyEncoding: { type: "pkcs8", format: "pem", cipher: "aes-256-cbc", passphrase: PASSPHRASE },
+  });
+  publicKey = pair.publicKey;
+  privateKey = pair.privateKey;
+});
+
+const mockLog = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+};
+
+function makeConfig(port: number, overrides: Partial<WhatsAppCloudConfig> = {}): WhatsAppCloudConfig {
+  return {
+    enabled: true,
+    phoneNumberId: "111222333",
+    businessAccountId: "444555666",
+    accessToken: "test_token",
+    appSecret: APP_SECRET,
+    verifyToken: "test-verify",
+    webhookPort: port,
+    webhookPath: "/webhook/whatsapp-cloud",
+    apiVersion: "v21.0",
+    dmPolicy: "open",
+    allowFrom: [],
+    sendReadReceipts: false,
+    flowsEndpointPath: "/flows",
+    flowsPrivateKey: privateKey,
+    flowsPrivateKeyPassphrase: PASSPHRASE,
+    ...overrides,
+  };
+}
+
+/** Encrypt a request the way the WhatsApp client does */
+function encryptRequest(body: unknown) {
+  const aesKey = randomBytes(16);
+  const iv = randomBytes(16);
+  const cipher = createCipheriv("aes-128-gcm", aesKey, iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(body), "utf8"), cipher.final(), cipher.getAuthTag()]);
+  const encryptedKey = publicEncrypt({ key: publicKey, padding: constants.RSA_PKCS1_OAEP_PADDING, oaepHash: "sha256" }, aesKey);
+  return {
+    payload: {
+      encrypted_flow_data: data.toString("base64"),
+      encrypted_aes_key: encryptedKey.toString("base64"),
+      initial_vector: iv.toString("base64"),
+    },
+    aesKey,
+    iv,
+  };
+}
+
+function decryptResponse(body: string, aesKey: Buffer, iv: Buffer): unknown {
+  const data = Buffer.from(body, "base64");
+  const flipped = Buffer.from(iv.map((b) => ~b & 0xff));
+  const decipher = createDecipheriv("aes-128-gcm", aesKey, flipped);
+  decipher.setAuthTag(data.subarray(-16));
+  return JSON.parse(Buffer.concat([decipher.update(data.subarray(0, -16)), decipher.final()]).toString("utf8"));
+}
+
+async function withServer<T>(config: WhatsAppCloudConfig, fn: () => Promise<T>): Promise<T> {
+  const server = startWebhookServer(config, () => {}, undefined, mockLog);
+  await new Promise<void>((resolve) => (server.listening ? resolve() : server.on("listening", resolve)));
+  try {
+    return await fn();
+  } finally {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+}
+
+async function post(port: number, payload: unknown, secret: string = APP_SECRET): Promise<Response> {
+  const body = JSON.stringify(payload);
+  return fetch(`http://localhost:${port}/flows`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Hub-Signature-256": "sha256=" + createHmac("sha256", secret).update(body).digest("hex"),
+    },
+    body,
+  });
+}
+
+describe("Flows data endpoint", () => {
+  afterEach(() => {
+    setFlowDataHandler(undefined);
+    setFlowDataHandler(undefined, "default");
+  });
+
+  it("answers health checks", async () => {
+    await withServer(makeConfig(13131), async () => {
+      const { payload, aesKey, iv } = encryptRequest({ version: "3.0", action: "ping" });
+      const res = await post(13131, payload);
+
+      expect(res.status).toBe(200);
+      expect(decryptResponse(await res.text(), aesKey, iv)).toEqual({ data: { status: "active" } });
+    });
+  });
+
+  it("passes data_exchange requests to the handler", async () => {
+    const handler = vi.fn(() => ({ screen: "CONFIRM", data: { total: 42 } }));
+    setFlowDataHandler(handler);
+
+    await withServer(makeConfig(13132), async () => {
+      const request = { version: "3.0", action: "data_exchange", screen: "CART", data: { qty: 2 }, flow_token: "tok" };
+      const { payload, aesKey, iv } = encryptRequest(request);
+      const res = await post(13132, payload);
+
+      expect(res.status).toBe(200);
+      expect(decryptResponse(await res.text(), aesKey, iv)).toEqual({ screen: "CONFIRM", data: { total: 42 } });
+      expect(handler).toHaveBeenCalledWith(request, expect.objectContaining({ accountId: "default", log: mockLog }));
+    });
+  });
+
+  it("prefers the account's own handler", async () => {
+    const shared = vi.fn(() => ({ screen: "SHARED", data: {} }));
+    const own = vi.fn(() => ({ screen: "OWN", data: {} }));
+    const other = vi.fn(() => ({ screen: "OTHER", data: {} }));
+    setFlowDataHandler(shared);
+    setFlowDataHandler(own, "default");
+    setFlowDataHandler(other, "sales");
+
+    await withServer(makeConfig(13142), async () => {
+      const { payload, aesKey, iv } = encryptRequest({ version: "3.0", action: "INIT", flow_token: "tok" });
+      const res = await post(13142, payload);
+
+      expect(decryptResponse(await res.text(), aesKey, iv)).toEqual({ screen: "OWN", data: {} });
+      expect(shared).not.toHaveBeenCalled();
+      expect(other).not.toHaveBeenCalled();
+    });
+  });
+
+  it("uses the route's onFlowData with its account ID", async () => {
+    const onFlowData = vi.fn(() => ({ screen: "ROUTE", data: {} }));
+    setFlowDataHandler(() => ({ screen: "SHARED", data: {} }));
+    const config = makeConfig(13143);
+    const server = attachWebhookRoute({ accountId: "sales", config, onMessage: () => {}, onFlowData, log: mockLog });
+    await new Promise<void>((resolve) => (server.listening ? resolve() : server.on("listening", resolve)));
+
+    try {
+      const { payload, aesKey, iv } = encryptRequest({ version: "3.0", action: "INIT", flow_token: "tok" });
+      const res = await post(13143, payload);
+
+      expect(decryptResponse(await res.text(), aesKey, iv)).toEqual({ screen: "ROUTE", data: {} });
+      expect(onFlowData).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ accountId: "sales", config }));
+    } finally {
+      await detachWebhookRoute(config);
+    }
+  });
+
+  it("closes the Flow with the submitted fields when no handler is registered", async () => {
+    await withServer(makeConfig(13144), async () => {
+      const request = { version: "3.0", action: "data_exchange", screen: "CART", data: { qty: 2 }, flow_token: "tok" };
+      const { payload, aesKey, iv } = encryptRequest(request);
+      const res = await post(13144, payload);
+
+      expect(res.status).toBe(200);
+      expect(decryptResponse(await res.text(), aesKey, iv)).toEqual({
+        screen: "SUCCESS",
+        data: { extension_message_response: { params: { flow_token: "tok", qty: 2 } } },
+      });
+    });
+  });
+
+  it("acknowledges error notifications without calling the handler", async () => {
+    const handler = vi.fn();
+    setFlowDataHandler(handler);
+
+    await withServer(makeConfig(13133), async () => {
+      const { payload, aesKey, iv } = encryptRequest({
+        version: "3.0",
+        action: "data_exchange",
+        screen: "CART",
+        flow_token: "tok",
+        data: { error: "INVALID_SCREEN", error_message: "Screen CART not found" },
+      });
+      const res = await post(13133, payload);
+
+      expect(decryptResponse(await res.text(), aesKey, iv)).toEqual({ data: { acknowledged: true } });
+      expect(handler).not.toHaveBeenCalled();
+      expect(mockLog.warn).toHaveBeenCalledWith(expect.stringContaining("Screen CART not found"));
+    });
+  });
+
+  it("maps handler errors to HTTP statuses", async () => {
+    await withServer(makeConfig(13134), async () => {
+      setFlowDataHandler(() => {
+        throw new FlowEndpointError(427, "Flow token expired");
+      });
+      expect((await post(13134, encryptRequest({ version: "3.0", action: "INIT", flow_token: "old" }).payload)).status).toBe(427);
+
+      setFlowDataHandler(undefined);
+      expect((await post(13134, encryptRequest({ version: "3.0", action: "INIT" }).payload)).status).toBe(500);
+    });
+  });
+
+  it("rejects bad signatures with 432 and undecryptable requests with 421", async () => {
+    await withServer(makeConfig(13135), async () => {
+      const { payload } = encryptRequest({ version: "3.0", action: "ping" });
+      expect((await post(13135, payload, "wrong_secret")).status).toBe(432);
+
+      const tampered = { ...payload, encrypted_aes_key: randomBytes(256).toString("base64") };
+      expect((await post(13135, tampered)).status).toBe(421);
+    });
+  });
+
+  it("is not served when flowsEndpointPath is unset", async () => {
+    await withServer(makeConfig(13136, { flowsEndpointPath: undefined }), async () => {
+      expect((await post(13136, encryptRequest({ version: "3.0", action: "ping" }).payload)).status).toBe(404);
+    });
+  });
+});
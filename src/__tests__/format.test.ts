@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import type { WhatsAppCloudConfig } from "../types.js";
+import { markdownToWhatsApp, formatOutboundText, containsUrl } from "../format.js";
+
+function makeConfig(overrides: Partial<WhatsAppCloudConfig> = {}): WhatsAppCloudConfig {
+  return {
+    enabled: true,
+    phoneNumberId: "111222333",
+    businessAccountId: "444555666",
+    accessToken: "test_token",
+    appSecret: "",
+    verifyToken: "test-verify",
+    webhookPort: 3100,
+    webhookPath: "/webhook/whatsapp-cloud",
+    apiVersion: "v21.0",
+    dmPolicy: "open",
+    allowFrom: [],
+    sendReadReceipts: false,
+    ...overrides,
+  };
+}
+
+describe("markdownToWhatsApp", () => {
+  it("converts inline emphasis", () => {
+    expect(markdownToWhatsApp("**bold** and __also bold__")).toBe("*bold* and *also bold*");
+    expect(markdownToWhatsApp("*italic* and _italic_")).toBe("_italic_ and _italic_");
+    expect(markdownToWhatsApp("~~gone~~")).toBe("~gone~");
+    expect(markdownToWhatsApp("***both***")).toBe("*_both_*");
+  });
+
+  it("turns headings into bold lines", () => {
+    expect(markdownToWhatsApp("# Title\n\n## **Already bold** ##\ntext")).toBe("*Title*\n\n*Already bold*\ntext");
+  });
+
+  it("flattens tables into one line per row", () => {
+    const table = ["| Plan | Price |", "|------|------:|", "| Basic | €5 |", "| **Pro** | €10 |", "", "after"].join("\n");
+    expect(markdownToWhatsApp(table)).toBe("*Plan* — *Price*\nBasic — €5\n*Pro* — €10\n\nafter");
+  });
+
+  it("keeps links as visible URLs", () => {
+    expect(markdownToWhatsApp("[the docs](https://example.com/docs)")).toBe("the docs (https://example.com/docs)");
+    expect(markdownToWhatsApp("[https://example.com](https://example.com)")).toBe("https://example.com");
+    expect(markdownToWhatsApp("[example.com](https://example.com)")).toBe("https://example.com");
+    expect(markdownToWhatsApp("<https://example.com>")).toBe("https://example.com");
+    expect(markdownToWhatsApp("![diagram](https://example.com/a.png)")).toBe("diagram (https://example.com/a.png)");
+  });
+
+  it("leaves code untouched", () => {
+    const md = "```ts\nconst x = **y** * 2; // [a](b)\n```\nuse `**kwargs` here";
+    expect(markdownToWhatsApp(md)).toBe("```\nconst x = **y** * 2; // [a](b)\n```\nuse `**kwargs` here");
+  });
+
+  it("closes an unterminated fence", () => {
+    expect(markdownToWhatsApp("```\ncode")).toBe("```\ncode\n```");
+  });
+
+  it("normalises bullets, quotes and rules", () => {
+    expect(markdownToWhatsApp("* one\n+ two\n  - nested\n1. first")).toBe("- one\n- two\n  - nested\n1. first");
+    expect(markdownToWhatsApp("> **note**")).toBe("> *note*");
+    expect(markdownToWhatsApp("above\n\n---\n\nbelow")).toBe("above\n\n───\n\nbelow");
+  });
+
+  it("honours backslash escapes", () => {
+    expect(markdownToWhatsApp("2 \\* 3 \\* 4 and \\_id\\_")).toBe("2 * 3 * 4 and _id_");
+  });
+
+  it("does not touch snake_case or arithmetic", () => {
+    expect(markdownToWhatsApp("user_id and 2 * 3 * 4")).toBe("user_id and 2 * 3 * 4");
+  });
+});
+
+describe("formatOutboundText", () => {
+  it("formats by default and can be disabled", () => {
+    expect(formatOutboundText(makeConfig(), "# Hi")).toBe("*Hi*");
+    expect(formatOutboundText(makeConfig({ formatMarkdown: false }), "# Hi")).toBe("# Hi");
+  });
+});
+
+describe("containsUrl", () => {
+  it("detects http(s) links only", () => {
+    expect(containsUrl("see https://example.com")).toBe(true);
+    expect(containsUrl("see example.com or ftp://host")).toBe(false);
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { mkdtemp, readFile, appendFile } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { WhatsAppCloudConfig, WebhookValue } from "../types.js";
+import {
+  appendInboxEntry,
+  markInboxEntryDone,
+  listPendingEntries,
+  takePendingForReplay,
+  compactInbox,
+  inboxEntryValue,
+  purgeInbox,
+  inboxPath,
+  MAX_INBOX_ATTEMPTS,
+} from "../inbox.js";
+
+function makeConfig(overrides: Partial<WhatsAppCloudConfig> = {}): WhatsAppCloudConfig {
+  return {
+    enabled: true,
+    phoneNumberId: "111222333",
+    businessAccountId: "444555666",
+    accessToken: "test_token",
+    appSecret: "",
+    verifyToken: "test-verify",
+    webhookPort: 3100,
+    webhookPath: "/webhook/whatsapp-cloud",
+    apiVersion: "v21.0",
+    dmPolicy: "open",
+    allowFrom: [],
+    sendReadReceipts: false,
+    durableInbox: true,
+    ...overrides,
+  };
+}
+
+function makeValue(id: string): WebhookValue {
+  return {
+    messaging_product: "whatsapp",
+    metadata: { display_phone_number: "15550001234", phone_number_id: "111222333" },
+    messages: [{ from: "393491234567", id, timestamp: "1700000000", type: "text", text: { body: "Hi" } }],
+  };
+}
+
+function makePayload(id: string): string {
+  return JSON.stringify({
+    object: "whatsapp_business_account",
+    entry: [{ id: "444555666", changes: [{ field: "messages", value: makeValue(id) }] }],
+  });
+}
+
+const mockLog = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+};
+
+describe("durable inbox", () => {
+  let config: WhatsAppCloudConfig;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    config = makeConfig({ inboxDir: await mkdtemp(join(tmpdir(), "wa-inbox-")) });
+  });
+
+  it("keeps entries pending until they are marked done", () => {
+    const first = appendInboxEntry(config, makePayload("wamid.1"), [0, 0]);
+    const second = appendInboxEntry(config, makePayload("wamid.2"), [0, 0]);
+    expect(listPendingEntries(config).map((e) => e.id)).toEqual([first.id, second.id]);
+
+    markInboxEntryDone(config, first.id);
+    const pending = listPendingEntries(config);
+    expect(pending.map((e) => e.id)).toEqual([second.id]);
+    expect(inboxEntryValue(pending[0]).messages?.[0].id).toBe("wamid.2");
+  });
+
+  it("writes one JSONL file per phone number", async () => {
+    appendInboxEntry(config, makePayload("wamid.1"), [0, 0]);
+    expect(inboxPath(config)).toBe(join(config.inboxDir!, "111222333.jsonl"));
+    const lines = (await readFile(inboxPath(config), "utf8")).trim().split("\n");
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0]).type).toBe("event");
+  });
+
+  it("compacts the file and counts attempts on replay", async () => {
+    const done = appendInboxEntry(config, makePayload("wamid.1"), [0, 0]);
+    const pending = appendInboxEntry(config, makePayload("wamid.2"), [0, 0]);
+    markInboxEntryDone(config, done.id);
+
+    const replay = takePendingForReplay(config, mockLog);
+    expect(replay.map((e) => e.id)).toEqual([pending.id]);
+    expect(replay[0].attempts).toBe(1);
+
+    const lines = (await readFile(inboxPath(config), "utf8")).trim().split("\n");
+    expect(lines).toHaveLength(1);
+  });
+
+  it("keeps the raw payload and finds the change in it", () => {
+    const payload = JSON.stringify({
+      object: "whatsapp_business_account",
+      entry: [
+        {
+          id: "444555666",
+          changes: [
+            { field: "messages", value: makeValue("wamid.1") },
+            { field: "messages", value: makeValue("wamid.2") },
+          ],
+        },
+      ],
+    });
+    appendInboxEntry(config, payload, [0, 1]);
+
+    const [entry] = listPendingEntries(config);
+    expect(entry.payload).toBe(payload);
+    expect(inboxEntryValue(entry)).toEqual(makeValue("wamid.2"));
+  });
+
+  it("compacts without counting an attempt", async () => {
+    const done = appendInboxEntry(config, makePayload("wamid.1"), [0, 0]);
+    const pending = appendInboxEntry(config, makePayload("wamid.2"), [0, 0]);
+    markInboxEntryDone(config, done.id);
+
+    compactInbox(config, mockLog);
+    const lines = (await readFile(inboxPath(config), "utf8")).trim().split("\n");
+    expect(lines).toHaveLength(1);
+    expect(listPendingEntries(config)).toEqual([pending]);
+  });
+
+  it("drops entries that keep failing", () => {
+    appendInboxEntry(config, makePayload("wamid.1"), [0, 0]);
+    for (let i = 1; i < MAX_INBOX_ATTEMPTS; i++) {
+      expect(takePendingForReplay(config, mockLog)).toHaveLength(1);
+    }
+    expect(takePendingForReplay(config, mockLog)).toHaveLength(0);
+    expect(mockLog.error).toHaveBeenCalledWith(expect.stringContaining("Dropping inbox entry"));
+  });
+
+  it("skips a truncated last line", async () => {
+    const entry = appendInboxEntry(config, makePayload("wamid.1"), [0, 0]);
+    await appendFile(inboxPath(config), '{"type":"event","id":"trunc');
+    expect(listPendingEntries(config, mockLog).map((e) => e.id)).toEqual([entry.id]);
+    expect(mockLog.warn).toHaveBeenCalledWith(expect.stringContaining("corrupt inbox line"));
+  });
+
+  it("purges the backlog", () => {
+    appendInboxEntry(config, makePayload("wamid.1"), [0, 0]);
+    appendInboxEntry(config, makePayload("wamid.2"), [0, 0]);
+    expect(purgeInbox(config)).toBe(2);
+    expect(existsSync(inboxPath(config))).toBe(false);
+    expect(listPendingEntries(config)).toEqual([]);
+  });
+});
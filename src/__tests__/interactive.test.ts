@@ -0,0 +1,132 @@
+import { describe, it, expect, vi } from "vitest";
+import { planInteractiveReply, extractNumberedOptions, readReplyChannelData } from "../interactive.js";
+
+describe("readReplyChannelData", () => {
+  it("reads channelData.whatsapp from a payload", () => {
+    const data = { buttons: [{ title: "Yes" }] };
+    expect(readReplyChannelData({ text: "hi", channelData: { whatsapp: data } })).toBe(data);
+    expect(readReplyChannelData({ text: "hi" })).toBeUndefined();
+    expect(readReplyChannelData({ channelData: { telegram: {} } })).toBeUndefined();
+  });
+});
+
+describe("planInteractiveReply", () => {
+  it("builds reply buttons from channel data", () => {
+    const plan = planInteractiveReply(
+      "Which size?",
+      { buttons: [{ id: "size_s", title: "Small" }, { title: "Large" }], footer: "Free shipping" },
+      false
+    );
+
+    expect(plan?.leadText).toBeUndefined();
+    expect(plan?.interactive).toEqual({
+      type: "button",
+      body: { text: "Which size?" },
+      footer: { text: "Free shipping" },
+      action: {
+        buttons: [
+          { type: "reply", reply: { id: "size_s", title: "Small" } },
+          { type: "reply", reply: { id: "option:2", title: "Large" } },
+        ],
+      },
+    });
+  });
+
+  it("builds a list from flat rows", () => {
+    const plan = planInteractiveReply(
+      "Pick a store",
+      { list: { button: "Stores", rows: [{ id: "mi", title: "Milano", description: "Via Roma 1" }] } },
+      false
+    );
+
+    expect(plan?.interactive.type).toBe("list");
+    expect(plan?.interactive.action).toEqual({
+      button: "Stores",
+      sections: [{ rows: [{ id: "mi", title: "Milano", description: "Via Roma 1" }] }],
+    });
+  });
+
+  it("builds a CTA URL button", () => {
+    const plan = planInteractiveReply("", { ctaUrl: { text: "Track order", url: "https://example.com/t/1" }, body: "Shipped!" }, false);
+
+    expect(plan?.interactive).toEqual({
+      type: "cta_url",
+      body: { text: "Shipped!" },
+      action: { name: "cta_url", parameters: { display_text: "Track order", url: "https://example.com/t/1" } },
+    });
+  });
+
+  it("falls back to plain text when the choices break Meta's limits", () => {
+    const buttons = ["A", "B", "C", "D"].map((title) => ({ title }));
+    expect(planInteractiveReply("Pick", { buttons }, false)).toBeUndefined();
+    expect(planInteractiveReply("Open", { ctaUrl: { text: "Go", url: "not a url" } }, false)).toBeUndefined();
+  });
+
+  it("logs why the choices were rejected", () => {
+    const log = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+    const buttons = [{ id: "same", title: "A" }, { id: "same", title: "B" }];
+    expect(planInteractiveReply("Pick", { buttons }, false, log)).toBeUndefined();
+    expect(log.warn).toHaveBeenCalledWith(expect.stringMatching(/plain text — interactive message invalid at action\.buttons/));
+  });
+
+  it("shortens overlong titles", () => {
+    const plan = planInteractiveReply("Pick", { buttons: [{ id: "a", title: "A title far longer than twenty" }] }, false);
+    expect(plan?.interactive).toMatchObject({
+      action: { buttons: [{ reply: { id: "a", title: "A title far longer …" } }] },
+    });
+  });
+
+  it("sends long text ahead of the interactive body", () => {
+    const text = `${"Long explanation. ".repeat(70)}\n\nWhich one?`;
+    const plan = planInteractiveReply(text, { buttons: [{ title: "A" }, { title: "B" }] }, false);
+
+    expect(plan?.leadText).toBe("Long explanation. ".repeat(70).trimEnd());
+    expect(plan?.interactive.body.text).toBe("Which one?");
+  });
+
+  it("leaves plain replies alone unless autoInteractive is on", () => {
+    const text = "How can I help?\n1. Orders\n2. Returns";
+    expect(planInteractiveReply(text, undefined, false)).toBeUndefined();
+    expect(planInteractiveReply(text, undefined, true)?.interactive).toMatchObject({
+      type: "button",
+      body: { text: "How can I help?" },
+      action: {
+        buttons: [
+          { type: "reply", reply: { id: "option:1", title: "Orders" } },
+          { type: "reply", reply: { id: "option:2", title: "Returns" } },
+        ],
+      },
+    });
+  });
+
+  it("uses a list for up to 10 options and plain text beyond", () => {
+    const options = (n: number) => Array.from({ length: n }, (_, i) => `${i + 1}. Option ${i + 1}`).join("\n");
+
+    const list = planInteractiveReply(`Choose:\n${options(5)}`, undefined, true);
+    expect(list?.interactive.type).toBe("list");
+    expect(list?.interactive.action.sections?.[0].rows).toHaveLength(5);
+
+    expect(planInteractiveReply(`Choose:\n${options(11)}`, undefined, true)).toBeUndefined();
+  });
+
+  it("falls back to text when options are too long for rows", () => {
+    const text = "Choose:\n1. A very long option title that will not fit\n2. Short";
+    expect(planInteractiveReply(text, undefined, true)).toBeUndefined();
+  });
+});
+
+describe("extractNumberedOptions", () => {
+  it("finds a trailing numbered list", () => {
+    expect(extractNumberedOptions("Pick one:\n\n1) *Pizza*\n2) Pasta\n")).toEqual({
+      body: "Pick one:",
+      options: ["Pizza", "Pasta"],
+    });
+  });
+
+  it("ignores lists that are not at the end, not numbered from 1, or have no lead-in", () => {
+    expect(extractNumberedOptions("1. a\n2. b\nThanks!")).toBeUndefined();
+    expect(extractNumberedOptions("Steps:\n2. a\n3. b")).toBeUndefined();
+    expect(extractNumberedOptions("1. a\n2. b")).toBeUndefined();
+    expect(extractNumberedOptions("Only:\n1. a")).toBeUndefined();
+  });
+});
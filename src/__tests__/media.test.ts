@@ -0,0 +1,464 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { mkdtemp, readFile, writeFile, symlink } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { basename, join } from "node:path";
+import type { WhatsAppCloudConfig } from "../types.js";
+
+const mockFetch = vi.fn();
+vi.stubGlobal("fetch", mockFetch);
+
+import {
+  isLocalMediaRef,
+  mimeTypeFromPath,
+  sniffMimeType,
+  resolveMediaType,
+  sendMediaFromUrl,
+  sendMediaBuffer,
+  downloadInboundMedia,
+} from "../media.js";
+
+const mockLog = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+};
+
+function makeConfig(): WhatsAppCloudConfig {
+  return {
+    enabled: true,
+    phoneNumberId: "111222333",
+    businessAccountId: "444555666",
+    accessToken: "test_token",
+    appSecret: "test_secret",
+    verifyToken: "test-verify",
+    webhookPort: 3100,
+    webhookPath: "/webhook/whatsapp-cloud",
+    apiVersion: "v21.0",
+    dmPolicy: "open",
+    allowFrom: [],
+    sendReadReceipts: true,
+  };
+}
+
+function mockJson(body: unknown) {
+  mockFetch.mockResolvedValueOnce({ ok: true, json: async () => body });
+}
+
+describe("isLocalMediaRef", () => {
+  it("treats http(s) URLs as remote", () => {
+    expect(isLocalMediaRef("https://example.com/a.png")).toBe(false);
+    expect(isLocalMediaRef("HTTP://example.com/a.png")).toBe(false);
+  });
+
+  it("treats paths and file:// URLs as local", () => {
+    expect(isLocalMediaRef("/tmp/a.png")).toBe(true);
+    expect(isLocalMediaRef("./out/a.png")).toBe(true);
+    expect(isLocalMediaRef("file:///tmp/a.png")).toBe(true);
+  });
+
+  it("treats other URL schemes as neither", () => {
+    expect(isLocalMediaRef("ftp://example.com/a.png")).toBe(false);
+    expect(isLocalMediaRef("data:image/png;base64,AAAA")).toBe(false);
+  });
+});
+
+describe("mimeTypeFromPath", () => {
+  it("maps known extensions", () => {
+    expect(mimeTypeFromPath("/tmp/report.PDF")).toBe("application/pdf");
+    expect(mimeTypeFromPath("https://cdn.example.com/voice.ogg?sig=abc")).toBe("audio/ogg");
+  });
+
+  it("returns undefined for unknown extensions", () => {
+    expect(mimeTypeFromPath("/tmp/blob.xyz")).toBeUndefined();
+  });
+});
+
+function mockHead(contentType: string, contentLength?: number) {
+  mockFetch.mockResolvedValueOnce({
+    ok: true,
+    headers: new Headers({
+      "content-type": contentType,
+      ...(contentLength !== undefined ? { "content-length": String(contentLength) } : {}),
+    }),
+  });
+}
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+const PDF = Buffer.from("%PDF-1.7\n...");
+
+describe("sniffMimeType", () => {
+  it("recognises common formats", () => {
+    expect(sniffMimeType(PNG)).toBe("image/png");
+    expect(sniffMimeType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe("image/jpeg");
+    expect(sniffMimeType(PDF)).toBe("application/pdf");
+    expect(sniffMimeType(Buffer.from("OggS\0\x02"))).toBe("audio/ogg");
+    expect(sniffMimeType(Buffer.from("ID3\x04\0"))).toBe("audio/mpeg");
+    expect(sniffMimeType(Buffer.from([0xff, 0xf1, 0x50, 0x80]))).toBe("audio/aac");
+    expect(sniffMimeType(Buffer.from("RIFF\0\0\0\0WEBPVP8 "))).toBe("image/webp");
+  });
+
+  it("tells MP4 video from M4A and 3GP", () => {
+    expect(sniffMimeType(Buffer.from("\0\0\0\x18ftypisom"))).toBe("video/mp4");
+    expect(sniffMimeType(Buffer.from("\0\0\0\x18ftypM4A "))).toBe("audio/mp4");
+    expect(sniffMimeType(Buffer.from("\0\0\0\x18ftyp3gp4"))).toBe("video/3gpp");
+  });
+
+  it("returns undefined for unknown content", () => {
+    expect(sniffMimeType(Buffer.from("hello world"))).toBeUndefined();
+  });
+});
+
+describe("resolveMediaType", () => {
+  it("maps supported MIME types to their natural type", () => {
+    expect(resolveMediaType({ mimeType: "image/jpeg" }).type).toBe("image");
+    expect(resolveMediaType({ mimeType: "audio/mpeg" }).type).toBe("audio");
+    expect(resolveMediaType({ mimeType: "video/mp4; codecs=avc1" }).type).toBe("video");
+    expect(resolveMediaType({ mimeType: "image/webp", size: 50_000 }).type).toBe("sticker");
+  });
+
+  it("sends unsupported formats as documents with a filename", () => {
+    const pdf = resolveMediaType({ mimeType: "application/pdf" });
+    expect(pdf).toMatchObject({ type: "document", filename: "file.pdf" });
+
+    const gif = resolveMediaType({ mimeType: "image/gif", filename: "party.gif" });
+    expect(gif).toMatchObject({ type: "document", filename: "party.gif" });
+    expect(gif.fallbackReason).toContain("image/gif");
+  });
+
+  it("falls back to document when the size limit is exceeded", () => {
+    const big = resolveMediaType({ mimeType: "image/png", size: 6 * 1024 * 1024 });
+    expect(big.type).toBe("document");
+    expect(big.fallbackReason).toContain("image limit");
+  });
+
+  it("applies the smaller limit to static stickers", () => {
+    const staticWebp = Buffer.concat([Buffer.from("RIFF\0\0\0\0WEBPVP8 "), Buffer.alloc(8)]);
+    expect(resolveMediaType({ mimeType: "image/webp", size: 200_000, buffer: staticWebp }).type).toBe(
+      "document"
+    );
+
+    const animated = Buffer.concat([Buffer.from("RIFF\0\0\0\0WEBPVP8X"), Buffer.alloc(4), Buffer.from([0x02])]);
+    expect(resolveMediaType({ mimeType: "image/webp", size: 200_000, buffer: animated }).type).toBe("sticker");
+  });
+
+  it("treats a missing MIME type as a generic document", () => {
+    expect(resolveMediaType({})).toMatchObject({ type: "document", mimeType: "application/octet-stream" });
+  });
+
+  it("rejects files beyond the document limit", () => {
+    const tooBig = 100 * 1024 * 1024 + 1;
+    for (const mimeType of ["application/zip", "video/mp4"]) {
+      expect(() => resolveMediaType({ mimeType, size: tooBig })).toThrow(
+        expect.objectContaining({
+          kind: "media",
+          message: `${tooBig} bytes exceeds the document limit of ${tooBig - 1} bytes`,
+        })
+      );
+    }
+  });
+});
+
+describe("sendMediaFromUrl", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("sends remote URLs as a link, typed by HEAD content-type", async () => {
+    mockHead("image/jpeg", 12_345);
+    mockJson({ messages: [{ id: "wamid.link" }] });
+
+    const result = await sendMediaFromUrl(
+      makeConfig(),
+      "393491234567",
+      "https://example.com/photo",
+      { caption: "Look" },
+      mockLog
+    );
+
+    expect(result.messageId).toBe("wamid.link");
+    expect(mockFetch.mock.calls[0][1].method).toBe("HEAD");
+    const body = JSON.parse(mockFetch.mock.calls[1][1].body);
+    expect(body.type).toBe("image");
+    expect(body.image).toEqual({ link: "https://example.com/photo", caption: "Look" });
+  });
+
+  it("fails with a media error for a malformed URL", async () => {
+    const result = await sendMediaFromUrl(makeConfig(), "393491234567", "https://exa mple.com/[x", {}, mockLog);
+
+    expect(result.ok).toBe(false);
+    expect(result.error?.kind).toBe("media");
+    expect(result.error?.message).toContain("Invalid media URL");
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("fails with a media error when the file is too big even as a document", async () => {
+    mockHead("application/zip", 150 * 1024 * 1024);
+
+    const result = await sendMediaFromUrl(makeConfig(), "393491234567", "https://example.com/dump.zip", {}, mockLog);
+
+    expect(result.ok).toBe(false);
+    expect(result.error?.kind).toBe("media");
+    expect(result.error?.message).toContain("exceeds the document limit");
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("sends remote PDFs as documents named after the URL", async () => {
+    mockFetch.mockRejectedValueOnce(new Error("HEAD not allowed"));
+    mockJson({ messages: [{ id: "wamid.pdf" }] });
+
+    await sendMediaFromUrl(makeConfig(), "393491234567", "https://example.com/files/q3.pdf", {}, mockLog);
+
+    const body = JSON.parse(mockFetch.mock.calls[1][1].body);
+    expect(body.type).toBe("document");
+    expect(body.document).toEqual({ link: "https://example.com/files/q3.pdf", filename: "q3.pdf" });
+  });
+
+  it("follows audio with a separate caption message", async () => {
+    mockHead("audio/mpeg");
+    mockJson({ messages: [{ id: "wamid.audio" }] });
+    mockJson({ messages: [{ id: "wamid.caption" }] });
+
+    const result = await sendMediaFromUrl(
+      makeConfig(),
+      "393491234567",
+      "https://example.com/voice.mp3",
+      { caption: "Your summary" },
+      mockLog
+    );
+
+    expect(result.messageId).toBe("wamid.audio");
+    const media = JSON.parse(mockFetch.mock.calls[1][1].body);
+    expect(media.audio).toEqual({ link: "https://example.com/voice.mp3" });
+    const text = JSON.parse(mockFetch.mock.calls[2][1].body);
+    expect(text.text.body).toBe("Your summary");
+  });
+
+  it("keeps the media result and reports a failed caption follow-up", async () => {
+    mockHead("audio/mpeg");
+    mockJson({ messages: [{ id: "wamid.audio" }] });
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 400,
+      statusText: "Bad Request",
+      headers: new Headers(),
+      json: async () => ({ error: { message: "Invalid parameter", type: "OAuthException", code: 100 } }),
+    });
+
+    const result = await sendMediaFromUrl(
+      makeConfig(),
+      "393491234567",
+      "https://example.com/voice.mp3",
+      { caption: "Your summary" },
+      mockLog
+    );
+
+    expect(result.ok).toBe(true);
+    expect(result.messageId).toBe("wamid.audio");
+    expect(result.captionError?.message).toContain("Invalid parameter");
+    expect(mockLog.warn).toHaveBeenCalledWith(expect.stringContaining("caption failed"));
+  });
+
+  it("quotes replyTo on the media message but not on the caption follow-up", async () => {
+    mockHead("audio/mpeg");
+    mockJson({ messages: [{ id: "wamid.audio" }] });
+    mockJson({ messages: [{ id: "wamid.caption" }] });
+
+    await sendMediaFromUrl(
+      makeConfig(),
+      "393491234567",
+      "https://example.com/voice.mp3",
+      { caption: "Your summary", replyTo: "wamid.inbound" },
+      mockLog
+    );
+
+    expect(JSON.parse(mockFetch.mock.calls[1][1].body).context).toEqual({ message_id: "wamid.inbound" });
+    expect(JSON.parse(mockFetch.mock.calls[2][1].body).context).toBeUndefined();
+  });
+
+  it("uploads local files and sends them by ID", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "wa-media-"));
+    const path = join(dir, "invoice.pdf");
+    await writeFile(path, "%PDF-1.4 invoice");
+    mockJson({ id: "media_local" });
+    mockJson({ messages: [{ id: "wamid.local" }] });
+
+    const result = await sendMediaFromUrl({ ...makeConfig(), outboundMediaDir: dir }, "393491234567", path, {}, mockLog);
+
+    expect(result.messageId).toBe("wamid.local");
+    expect(mockFetch.mock.calls[0][0]).toContain("/111222333/media");
+    expect((mockFetch.mock.calls[0][1].body as FormData).get("type")).toBe("application/pdf");
+    const body = JSON.parse(mockFetch.mock.calls[1][1].body);
+    expect(body.type).toBe("document");
+    expect(body.document).toEqual({ id: "media_local", filename: "invoice.pdf" });
+  });
+
+  it("resolves relative paths against outboundMediaDir", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "wa-media-"));
+    await writeFile(join(dir, "receipt.pdf"), "%PDF-1.4 receipt");
+    mockJson({ id: "media_receipt" });
+    mockJson({ messages: [{ id: "wamid.receipt" }] });
+
+    const result = await sendMediaFromUrl({ ...makeConfig(), outboundMediaDir: dir }, "393491234567", "receipt.pdf", {}, mockLog);
+
+    expect(result.ok).toBe(true);
+  });
+
+  it("refuses local files when outboundMediaDir is unset", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "wa-media-"));
+    await writeFile(join(dir, "invoice.pdf"), "%PDF-1.4 invoice");
+
+    const result = await sendMediaFromUrl(makeConfig(), "393491234567", join(dir, "invoice.pdf"), {}, mockLog);
+
+    expect(result.ok).toBe(false);
+    expect(result.error?.kind).toBe("media");
+    expect(result.error?.message).toContain("outboundMediaDir");
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("refuses files outside outboundMediaDir, including through .. and symlinks", async () => {
+    const root = await mkdtemp(join(tmpdir(), "wa-media-root-"));
+    const outside = await mkdtemp(join(tmpdir(), "wa-media-secret-"));
+    const secret = join(outside, "openclaw.json");
+    await writeFile(secret, '{"accessToken":"secret"}');
+    await symlink(secret, join(root, "link.json"));
+    const config = { ...makeConfig(), outboundMediaDir: root };
+
+    for (const ref of [secret, `file://${secret}`, join(root, "..", basename(outside), "openclaw.json"), "link.json"]) {
+      const result = await sendMediaFromUrl(config, "393491234567", ref, {}, mockLog);
+      expect(result.ok).toBe(false);
+      expect(result.error?.kind).toBe("media");
+    }
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("refuses URL schemes other than http(s) and file", async () => {
+    const result = await sendMediaFromUrl(makeConfig(), "393491234567", "ftp://example.com/a.png", {}, mockLog);
+
+    expect(result.ok).toBe(false);
+    expect(result.error?.kind).toBe("media");
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("returns a media error without sending when the file is missing", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "wa-media-"));
+    const result = await sendMediaFromUrl(
+      { ...makeConfig(), outboundMediaDir: dir },
+      "393491234567",
+      `file://${join(dir, "chart.png")}`,
+      {},
+      mockLog
+    );
+
+    expect(result.ok).toBe(false);
+    expect(result.error?.kind).toBe("media");
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
+
+describe("sendMediaBuffer", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("sniffs the buffer to choose the type", async () => {
+    mockJson({ id: "media_png" });
+    mockJson({ messages: [{ id: "wamid.png" }] });
+
+    await sendMediaBuffer(makeConfig(), "393491234567", PNG, { caption: "Chart" }, mockLog);
+
+    expect((mockFetch.mock.calls[0][1].body as FormData).get("type")).toBe("image/png");
+    const body = JSON.parse(mockFetch.mock.calls[1][1].body);
+    expect(body.type).toBe("image");
+    expect(body.image).toEqual({ id: "media_png", caption: "Chart" });
+  });
+
+  it("honours an explicit mediaType", async () => {
+    mockJson({ id: "media_forced" });
+    mockJson({ messages: [{ id: "wamid.forced" }] });
+
+    await sendMediaBuffer(
+      makeConfig(),
+      "393491234567",
+      Buffer.from([0xff, 0xd8, 0xff, 0xe0, 1]),
+      { mediaType: "document", filename: "scan.jpg" },
+      mockLog
+    );
+
+    const body = JSON.parse(mockFetch.mock.calls[1][1].body);
+    expect(body.type).toBe("document");
+    expect(body.document.filename).toBe("scan.jpg");
+  });
+});
+
+describe("downloadInboundMedia", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  function mockMediaUrl() {
+    mockJson({ url: "https://lookaside.fbsbx.com/media/abc", mime_type: "image/jpeg", id: "media_in" });
+  }
+
+  function mockDownload(body: Buffer, contentType: string) {
+    mockFetch.mockResolvedValueOnce(
+      new Response(new Uint8Array(body), {
+        status: 200,
+        headers: { "content-type": contentType, "content-length": String(body.length) },
+      })
+    );
+  }
+
+  it("saves the media into mediaDir", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "wa-inbound-"));
+    const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 1, 2, 3]);
+    mockMediaUrl();
+    mockDownload(jpeg, "image/jpeg");
+
+    const result = await downloadInboundMedia(
+      { ...makeConfig(), mediaDir: dir },
+      { id: "media_in", mimeType: "image/jpeg" },
+      mockLog
+    );
+
+    expect(result?.path).toBe(join(dir, "media_in.jpg"));
+    expect(result?.mimeType).toBe("image/jpeg");
+    expect(result?.size).toBe(jpeg.length);
+    expect(await readFile(result!.path)).toEqual(jpeg);
+    expect(mockFetch.mock.calls[1][1].headers.Authorization).toBe("Bearer test_token");
+  });
+
+  it("keeps a sanitised document filename", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "wa-inbound-"));
+    mockMediaUrl();
+    mockDownload(Buffer.from("%PDF-1.4"), "application/pdf");
+
+    const result = await downloadInboundMedia(
+      { ...makeConfig(), mediaDir: dir },
+      { id: "media_doc", mimeType: "application/pdf", filename: "Q3 report/final.pdf" },
+      mockLog
+    );
+
+    expect(result?.path).toBe(join(dir, "media_doc-Q3_report_final.pdf"));
+  });
+
+  it("skips media above mediaMaxMb", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "wa-inbound-"));
+    mockMediaUrl();
+    mockDownload(Buffer.alloc(2 * 1024 * 1024), "video/mp4");
+
+    const result = await downloadInboundMedia(
+      { ...makeConfig(), mediaDir: dir, mediaMaxMb: 1 },
+      { id: "media_big", mimeType: "video/mp4" },
+      mockLog
+    );
+
+    expect(result).toBeNull();
+    expect(mockLog.warn).toHaveBeenCalledWith(expect.stringContaining("exceeds limit"));
+  });
+
+  it("does nothing when disabled", async () => {
+    const result = await downloadInboundMedia(
+      { ...makeConfig(), downloadInboundMedia: false },
+      { id: "media_off", mimeType: "image/jpeg" },
+      mockLog
+    );
+
+    expect(result).toBeNull();
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
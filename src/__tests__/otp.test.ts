@@ -0,0 +1,307 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { WhatsAppCloudConfig } from "../types.js";
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+vi.stubGlobal("fetch", mockFetch);
+
+import {
+  generateOtp,
+  buildOtpComponents,
+  sendOtp,
+  requestOtp,
+  verifyOtp,
+  setOtpStore,
+  createMemoryOtpStore,
+} from "../otp.js";
+import { validateTemplateComponents, type MessageTemplate } from "../templates.js";
+import { WhatsAppValidationError } from "../errors.js";
+
+const mockLog = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+};
+
+function makeConfig(): WhatsAppCloudConfig {
+  return {
+    enabled: true,
+    phoneNumberId: "111222333",
+    businessAccountId: "444555666",
+    accessToken: "test_token",
+    appSecret: "test_secret",
+    verifyToken: "test-verify",
+    webhookPort: 3100,
+    webhookPath: "/webhook/whatsapp-cloud",
+    apiVersion: "v21.0",
+    dmPolicy: "open",
+    allowFrom: [],
+    sendReadReceipts: true,
+    otpTemplate: { name: "login_code", language: "en_US" },
+  };
+}
+
+function mockApiSuccess(messageId: string = "wamid.otp") {
+  mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ messages: [{ id: messageId }] }) });
+}
+
+/** The code in the body of the n-th template sent */
+function sentCode(call = 0): string {
+  return JSON.parse(mockFetch.mock.calls[call][1].body).template.components[0].parameters[0].text;
+}
+
+describe("generateOtp", () => {
+  it("generates numeric codes of the requested length", () => {
+    expect(generateOtp()).toMatch(/^\d{6}$/);
+    expect(generateOtp(8)).toMatch(/^\d{8}$/);
+    expect(() => generateOtp(0)).toThrow(WhatsAppValidationError);
+    expect(() => generateOtp(16)).toThrow(WhatsAppValidationError);
+  });
+});
+
+describe("buildOtpComponents", () => {
+  it("puts the code in the body and the button", () => {
+    expect(buildOtpComponents("123456")).toEqual([
+      { type: "body", parameters: [{ type: "text", text: "123456" }] },
+      { type: "button", sub_type: "url", index: "0", parameters: [{ type: "text", text: "123456" }] },
+    ]);
+    expect(buildOtpComponents("123456", false)).toHaveLength(1);
+  });
+
+  it("matches copy-code and one-tap authentication templates", () => {
+    const auth = {
+      id: "t1",
+      name: "login_code",
+      language: "en_US",
+      status: "APPROVED",
+      category: "AUTHENTICATION",
+      components: [
+        { type: "BODY", text: "*{{1}}* is your verification code." },
+        { type: "FOOTER", text: "This code expires in 10 minutes." },
+        { type: "BUTTONS", buttons: [{ type: "OTP", otp_type: "ONE_TAP", text: "Copy code" }] },
+      ],
+    } as MessageTemplate;
+
+    expect(() => validateTemplateComponents(auth, buildOtpComponents("123456"))).not.toThrow();
+    expect(() => validateTemplateComponents(auth, buildOtpComponents("123456", false))).toThrow(
+      "buttons[0]: OTP button needs a parameter"
+    );
+  });
+
+  it("rejects codes Meta won't accept", () => {
+    expect(() => buildOtpComponents("")).toThrow(WhatsAppValidationError);
+    expect(() => buildOtpComponents("1".repeat(16))).toThrow(WhatsAppValidationError);
+  });
+});
+
+describe("sendOtp", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("sends the configured authentication template", async () => {
+    mockApiSuccess();
+
+    const result = await sendOtp(makeConfig(), "393491234567", "482913", {}, mockLog);
+
+    expect(result.ok).toBe(true);
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+    expect(body.template.name).toBe("login_code");
+    expect(body.template.language.code).toBe("en_US");
+    expect(body.template.components[1].parameters[0].text).toBe("482913");
+  });
+
+  it("fails without a template", async () => {
+    const result = await sendOtp({ ...makeConfig(), otpTemplate: undefined }, "393491234567", "482913");
+
+    expect(result.ok).toBe(false);
+    expect(result.error?.kind).toBe("template");
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("doesn't send an expired code", async () => {
+    const result = await sendOtp(makeConfig(), "393491234567", "482913", { expiresAt: Date.now() - 1 }, mockLog);
+
+    expect(result.ok).toBe(false);
+    expect(result.error?.message).toContain("expired");
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
+
+describe("requestOtp / verifyOtp", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setOtpStore(createMemoryOtpStore());
+  });
+
+  afterEach(() => vi.useRealTimers());
+
+  it("verifies the code that was sent, once", async () => {
+    mockApiSuccess();
+    const config = makeConfig();
+
+    const result = await requestOtp(config, "+39 349 1234567", mockLog);
+    expect(result.ok).toBe(true);
+    expect(result.expiresAt).toBeGreaterThan(Date.now());
+
+    expect(await verifyOtp(config, "393491234567", sentCode())).toEqual({ valid: true });
+    expect(await verifyOtp(config, "393491234567", sentCode())).toEqual({ valid: false, reason: "not-found" });
+  });
+
+  it("counts wrong guesses and gives up after maxAttempts", async () => {
+    mockApiSuccess();
+    const config = makeConfig();
+    await requestOtp(config, "393491234567", mockLog, { maxAttempts: 2 });
+    const wrong = sentCode() === "000000" ? "111111" : "000000";
+
+    expect(await verifyOtp(config, "393491234567", wrong)).toEqual({ valid: false, reason: "mismatch", attemptsLeft: 1 });
+    expect(await verifyOtp(config, "393491234567", wrong)).toEqual({
+      valid: false,
+      reason: "too-many-attempts",
+      attemptsLeft: 0,
+    });
+    expect((await verifyOtp(config, "393491234567", sentCode())).valid).toBe(false);
+  });
+
+  it("rejects expired codes", async () => {
+    mockApiSuccess();
+    const config = makeConfig();
+    await requestOtp(config, "393491234567", mockLog, { ttlMs: 60_000 });
+
+    // Only fake the clock — the send queue paces with real timers
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + 60_001);
+
+    expect((await verifyOtp(config, "393491234567", sentCode())).valid).toBe(false);
+  });
+
+  it("replaces a pending code with a new request", async () => {
+    mockApiSuccess("wamid.1");
+    mockApiSuccess("wamid.2");
+    const config = makeConfig();
+    await requestOtp(config, "393491234567", mockLog, { length: 8, resendCooldownMs: 0 });
+    await requestOtp(config, "393491234567", mockLog, { length: 8, resendCooldownMs: 0 });
+
+    expect((await verifyOtp(config, "393491234567", sentCode(0))).valid).toBe(false);
+    expect((await verifyOtp(config, "393491234567", sentCode(1))).valid).toBe(true);
+  });
+
+  it("forgets the code when the send fails", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 400,
+      statusText: "Bad Request",
+      json: async () => ({ error: { message: "Template name does not exist", code: 132001 } }),
+    });
+    const config = makeConfig();
+
+    const result = await requestOtp(config, "393491234567", mockLog);
+
+    expect(result.ok).toBe(false);
+    expect(result.error?.kind).toBe("template");
+    expect(await verifyOtp(config, "393491234567", sentCode())).toEqual({ valid: false, reason: "not-found" });
+  });
+
+  it("refuses a new code during the resend cooldown", async () => {
+    mockApiSuccess("wamid.1");
+    const config = makeConfig();
+    await requestOtp(config, "393491234567", mockLog);
+
+    const again = await requestOtp(config, "393491234567", mockLog);
+    expect(again.ok).toBe(false);
+    expect(again.error?.kind).toBe("rate-limit");
+    expect(again.error?.message).toContain("wait 30s");
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    mockApiSuccess("wamid.2");
+    expect((await requestOtp(config, "393491234567", mockLog, { resendCooldownMs: 0 })).ok).toBe(true);
+    expect(await verifyOtp(config, "393491234567", sentCode(1))).toEqual({ valid: true });
+  });
+
+  it("sends only one code for concurrent requests within the cooldown", async () => {
+    mockApiSuccess("wamid.1");
+    const config = makeConfig();
+
+    const results = await Promise.all([
+      requestOtp(config, "393491234567", mockLog),
+      requestOtp(config, "393491234567", mockLog),
+    ]);
+
+    expect(results.filter((r) => r.ok)).toHaveLength(1);
+    expect(results.find((r) => !r.ok)?.error?.kind).toBe("rate-limit");
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps a newer code when an older request's send fails", async () => {
+    mockFetch.mockImplementationOnce(
+      () =>
+        new Promise((resolve) =>
+          setTimeout(
+            () =>
+              resolve({
+                ok: false,
+                status: 400,
+                statusText: "Bad Request",
+                json: async () => ({ error: { message: "Template name does not exist", code: 132001 } }),
+              }),
+            30
+          )
+        )
+    );
+    mockApiSuccess("wamid.2");
+    const config = makeConfig();
+
+    const first = requestOtp(config, "393491234567", mockLog, { resendCooldownMs: 0 });
+    await new Promise((r) => setTimeout(r, 5));
+    const second = requestOtp(config, "393491234567", mockLog, { resendCooldownMs: 0 });
+
+    expect((await first).ok).toBe(false);
+    expect((await second).ok).toBe(true);
+    expect(await verifyOtp(config, "393491234567", sentCode(1))).toEqual({ valid: true });
+  });
+
+  it("lets only one of two concurrent correct guesses through", async () => {
+    mockApiSuccess();
+    const config = makeConfig();
+    await requestOtp(config, "393491234567", mockLog);
+
+    const results = await Promise.all([
+      verifyOtp(config, "393491234567", sentCode()),
+      verifyOtp(config, "393491234567", sentCode()),
+    ]);
+    expect(results.filter((r) => r.valid)).toHaveLength(1);
+  });
+
+  it("counts concurrent wrong guesses against the limit", async () => {
+    mockApiSuccess();
+    const config = makeConfig();
+    await requestOtp(config, "393491234567", mockLog, { maxAttempts: 3 });
+    const wrong = sentCode() === "000000" ? "111111" : "000000";
+
+    const results = await Promise.all([1, 2, 3].map(() => verifyOtp(config, "393491234567", wrong)));
+    expect(results.map((r) => r.attemptsLeft).sort()).toEqual([0, 1, 2]);
+    expect(await verifyOtp(config, "393491234567", sentCode())).toEqual({ valid: false, reason: "not-found" });
+  });
+
+  it("uses a custom store", async () => {
+    const records = new Map();
+    const custom = {
+      get: vi.fn(async (key: string) => records.get(key)),
+      setIfCooledDown: vi.fn(async (key: string, value: unknown) => void records.set(key, value)),
+      delete: vi.fn(async (key: string) => records.delete(key)),
+      deleteIfSentAt: vi.fn(async (key: string) => records.delete(key)),
+      incrementAttempts: vi.fn(async () => undefined),
+    };
+    setOtpStore(custom);
+    mockApiSuccess();
+
+    await requestOtp(makeConfig(), "393491234567", mockLog);
+
+    expect(custom.setIfCooledDown).toHaveBeenCalledWith(
+      "111222333:393491234567",
+      expect.objectContaining({ attempts: 0 }),
+      30_000
+    );
+    const [, record] = custom.setIfCooledDown.mock.calls[0];
+    expect(JSON.stringify(record)).not.toContain(sentCode());
+  });
+});
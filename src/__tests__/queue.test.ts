@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import type { WhatsAppCloudConfig } from "../types.js";
+import { enqueueForRecipient, acquireSendSlot, getQueueDepth } from "../queue.js";
+
+function makeConfig(overrides: Partial<WhatsAppCloudConfig> = {}): WhatsAppCloudConfig {
+  return {
+    enabled: true,
+    phoneNumberId: "111222333",
+    businessAccountId: "444555666",
+    accessToken: "test_token",
+    appSecret: "test_secret",
+    verifyToken: "test-verify",
+    webhookPort: 3100,
+    webhookPath: "/webhook/whatsapp-cloud",
+    apiVersion: "v21.0",
+    dmPolicy: "open",
+    allowFrom: [],
+    sendReadReceipts: true,
+    ...overrides,
+  };
+}
+
+const delay = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe("enqueueForRecipient", () => {
+  it("runs sends to the same recipient in order", async () => {
+    const config = makeConfig({ phoneNumberId: "order" });
+    const events: string[] = [];
+
+    await Promise.all([
+      enqueueForRecipient(config, "a", async () => {
+        await delay(30);
+        events.push("a1");
+      }),
+      enqueueForRecipient(config, "a", async () => {
+        events.push("a2");
+      }),
+      enqueueForRecipient(config, "a", async () => {
+        events.push("a3");
+      }),
+    ]);
+
+    expect(events).toEqual(["a1", "a2", "a3"]);
+  });
+
+  it("does not block other recipients", async () => {
+    const config = makeConfig({ phoneNumberId: "parallel" });
+    const events: string[] = [];
+
+    await Promise.all([
+      enqueueForRecipient(config, "a", async () => {
+        await delay(30);
+        events.push("a");
+      }),
+      enqueueForRecipient(config, "b", async () => {
+        events.push("b");
+      }),
+    ]);
+
+    expect(events).toEqual(["b", "a"]);
+  });
+
+  it("keeps the lane going after a failed send", async () => {
+    const config = makeConfig({ phoneNumberId: "failure" });
+
+    const failed = enqueueForRecipient(config, "a", async () => {
+      throw new Error("boom");
+    });
+    const next = enqueueForRecipient(config, "a", async () => "ok");
+
+    await expect(failed).rejects.toThrow("boom");
+    await expect(next).resolves.toBe("ok");
+  });
+
+  it("reports queue depth", async () => {
+    const config = makeConfig({ phoneNumberId: "depth" });
+    let release!: () => void;
+    const gate = new Promise<void>((r) => (release = r));
+
+    const first = enqueueForRecipient(config, "a", () => gate);
+    const second = enqueueForRecipient(config, "a", async () => undefined);
+
+    expect(getQueueDepth("depth")).toBe(2);
+    release();
+    await Promise.all([first, second]);
+    expect(getQueueDepth("depth")).toBe(0);
+  });
+});
+
+describe("acquireSendSlot", () => {
+  it("spaces requests by messagesPerSecond", async () => {
+    const config = makeConfig({ phoneNumberId: "pacing", messagesPerSecond: 20 });
+    const start = Date.now();
+
+    for (let i = 0; i < 4; i++) await acquireSendSlot(config);
+
+    // 4 slots at 50ms spacing: the last one leaves ~150ms after the first
+    expect(Date.now() - start).toBeGreaterThanOrEqual(140);
+  });
+
+  it("does not pace when disabled", async () => {
+    const config = makeConfig({ phoneNumberId: "unpaced", messagesPerSecond: 0 });
+    const start = Date.now();
+
+    for (let i = 0; i < 10; i++) await acquireSendSlot(config);
+
+    expect(Date.now() - start).toBeLessThan(50);
+  });
+});
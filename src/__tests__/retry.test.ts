@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import {
+  resolveRetryPolicy,
+  isRetryable,
+  isSafeToResend,
+  isConnectError,
+  computeBackoffDelay,
+  parseRetryAfter,
+} from "../retry.js";
+import { RETRY_DEFAULTS } from "../types.js";
+
+describe("resolveRetryPolicy", () => {
+  it("falls back to defaults", () => {
+    expect(resolveRetryPolicy({})).toEqual(RETRY_DEFAULTS);
+  });
+
+  it("merges partial overrides", () => {
+    const policy = resolveRetryPolicy({ retry: { maxAttempts: 2 } });
+    expect(policy.maxAttempts).toBe(2);
+    expect(policy.baseDelayMs).toBe(RETRY_DEFAULTS.baseDelayMs);
+  });
+
+  it("always allows at least one attempt", () => {
+    expect(resolveRetryPolicy({ retry: { maxAttempts: 0 } }).maxAttempts).toBe(1);
+  });
+});
+
+describe("isRetryable", () => {
+  it("retries server errors and 429", () => {
+    expect(isRetryable(500)).toBe(true);
+    expect(isRetryable(503)).toBe(true);
+    expect(isRetryable(429)).toBe(true);
+  });
+
+  it("retries Meta throttling codes regardless of HTTP status", () => {
+    expect(isRetryable(400, 4)).toBe(true);
+    expect(isRetryable(400, 80007)).toBe(true);
+    expect(isRetryable(400, 130429)).toBe(true);
+    expect(isRetryable(400, 131056)).toBe(true);
+  });
+
+  it("treats other client errors as permanent", () => {
+    expect(isRetryable(401, 190)).toBe(false);
+    expect(isRetryable(400, 131047)).toBe(false);
+    expect(isRetryable(404)).toBe(false);
+  });
+});
+
+describe("isSafeToResend", () => {
+  it("only trusts throttling rejections", () => {
+    expect(isSafeToResend(429)).toBe(true);
+    expect(isSafeToResend(400, 130429)).toBe(true);
+    expect(isSafeToResend(400, 131056)).toBe(true);
+    expect(isSafeToResend(500)).toBe(false);
+    expect(isSafeToResend(500, 131000)).toBe(false);
+    expect(isSafeToResend(503, 133004)).toBe(false);
+  });
+});
+
+describe("isConnectError", () => {
+  it("recognises failures before the request was sent", () => {
+    const cause = (code: string) => new TypeError("fetch failed", { cause: { code } });
+    expect(isConnectError(cause("ECONNREFUSED"))).toBe(true);
+    expect(isConnectError(cause("ENOTFOUND"))).toBe(true);
+    expect(isConnectError(Object.assign(new Error("x"), { code: "UND_ERR_CONNECT_TIMEOUT" }))).toBe(true);
+    expect(isConnectError(cause("ECONNRESET"))).toBe(false);
+    expect(isConnectError(new Error("The operation was aborted due to timeout"))).toBe(false);
+    expect(isConnectError(undefined)).toBe(false);
+  });
+});
+
+describe("computeBackoffDelay", () => {
+  const policy = { maxAttempts: 5, baseDelayMs: 100, maxDelayMs: 1000 };
+
+  it("doubles the ceiling on each attempt", () => {
+    expect(computeBackoffDelay(1, policy, () => 1)).toBe(100);
+    expect(computeBackoffDelay(2, policy, () => 1)).toBe(200);
+    expect(computeBackoffDelay(3, policy, () => 1)).toBe(400);
+  });
+
+  it("caps at maxDelayMs", () => {
+    expect(computeBackoffDelay(10, policy, () => 1)).toBe(1000);
+  });
+
+  it("applies jitter", () => {
+    expect(computeBackoffDelay(3, policy, () => 0.5)).toBe(200);
+    expect(computeBackoffDelay(3, policy, () => 0)).toBe(0);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("parses delta-seconds", () => {
+    expect(parseRetryAfter("7")).toBe(7000);
+  });
+
+  it("parses an HTTP date", () => {
+    const now = Date.parse("Wed, 21 Oct 2026 07:28:00 GMT");
+    expect(parseRetryAfter("Wed, 21 Oct 2026 07:28:05 GMT", now)).toBe(5000);
+  });
+
+  it("returns null for missing or malformed headers", () => {
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter("soon")).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { appendFileSync, mkdtempSync, readFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { WhatsAppCloudConfig } from "../types.js";
+import { appendStatusLog, readStatusLog, compactStatusLog, statusLogPath, STATUS_LOG_RETENTION_MS } from "../status-log.js";
+import { WhatsAppApiError } from "../errors.js";
+import type { MessageStatusRecord, TrackedStatus } from "../status.js";
+
+function makeConfig(dir: string): WhatsAppCloudConfig {
+  return {
+    enabled: true,
+    phoneNumberId: "111222333",
+    accessToken: "test_token",
+    appSecret: "test_secret",
+    verifyToken: "test-verify",
+    webhookPort: 3100,
+    webhookPath: "/webhook/whatsapp-cloud",
+    apiVersion: "v21.0",
+    dmPolicy: "open",
+    allowFrom: [],
+    sendReadReceipts: true,
+    statusLog: true,
+    statusLogDir: dir,
+  };
+}
+
+function record(messageId: string, status: TrackedStatus, updatedAt: number, error?: WhatsAppApiError): MessageStatusRecord {
+  return { messageId, phoneNumberId: "111222333", recipientId: "393491234567", status, updatedAt, history: [], error };
+}
+
+describe("status log", () => {
+  let config: WhatsAppCloudConfig;
+
+  beforeEach(() => {
+    config = makeConfig(mkdtempSync(join(tmpdir(), "wa-status-log-")));
+  });
+
+  it("keeps the latest status per message, even when receipts arrive out of order", () => {
+    appendStatusLog(config, record("wamid.1", "sent", 1000));
+    appendStatusLog(config, record("wamid.1", "read", 3000));
+    appendStatusLog(config, record("wamid.1", "delivered", 2000));
+    appendStatusLog(config, record("wamid.2", "failed", 1500, new WhatsAppApiError("Message undeliverable", { code: 131026 })));
+
+    const statuses = readStatusLog(config);
+
+    expect(statuses.get("wamid.1")).toEqual({ id: "wamid.1", status: "read", at: 3000 });
+    expect(statuses.get("wamid.2")).toEqual({
+      id: "wamid.2",
+      status: "failed",
+      at: 1500,
+      error: "Message undeliverable — code 131026",
+    });
+  });
+
+  it("ignores a line cut short by a crash and a missing file", () => {
+    expect(readStatusLog(config).size).toBe(0);
+    appendStatusLog(config, record("wamid.1", "delivered", 1000));
+    appendFileSync(statusLogPath(config), '{"id":"wamid.2","sta');
+
+    expect(readStatusLog(config).get("wamid.1")?.status).toBe("delivered");
+  });
+
+  it("compacts to one line per message and drops old ones", () => {
+    const now = Date.now();
+    appendStatusLog(config, record("wamid.old", "delivered", now - STATUS_LOG_RETENTION_MS - 1));
+    appendStatusLog(config, record("wamid.new", "sent", now - 1000));
+    appendStatusLog(config, record("wamid.new", "delivered", now));
+
+    compactStatusLog(config, undefined, now);
+
+    const lines = readFileSync(statusLogPath(config), "utf8").trim().split("\n");
+    expect(lines.map((line) => JSON.parse(line))).toEqual([{ id: "wamid.new", status: "delivered", at: now }]);
+  });
+});
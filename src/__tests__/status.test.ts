@@ -0,0 +1,178 @@
+import { describe, it, expect, vi } from "vitest";
+import type { WhatsAppCloudConfig, MessageStatus } from "../types.js";
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+vi.stubGlobal("fetch", mockFetch);
+
+// Import after mocking
+import { sendText } from "../api.js";
+import {
+  trackOutboundMessage,
+  recordStatusUpdate,
+  getMessageStatus,
+  onStatusChange,
+  waitForStatus,
+} from "../status.js";
+
+const mockLog = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+};
+
+function makeConfig(): WhatsAppCloudConfig {
+  return {
+    enabled: true,
+    phoneNumberId: "111222333",
+    businessAccountId: "444555666",
+    accessToken: "test_token",
+    appSecret: "test_secret",
+    verifyToken: "test-verify",
+    webhookPort: 3100,
+    webhookPath: "/webhook/whatsapp-cloud",
+    apiVersion: "v21.0",
+    dmPolicy: "open",
+    allowFrom: [],
+    sendReadReceipts: true,
+    messagesPerSecond: 0,
+  };
+}
+
+function makeStatus(id: string, status: MessageStatus["status"], extra: Partial<MessageStatus> = {}): MessageStatus {
+  return { id, status, timestamp: "1700000000", recipient_id: "393491234567", ...extra };
+}
+
+describe("message status tracker", () => {
+  it("tracks messages accepted by sendRequest", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ messaging_product: "whatsapp", messages: [{ id: "wamid.tracked" }] }),
+    });
+
+    const result = await sendText(makeConfig(), "393491234567", "Hi", mockLog);
+
+    expect(result.ok).toBe(true);
+    expect(getMessageStatus("wamid.tracked")).toMatchObject({
+      status: "accepted",
+      phoneNumberId: "111222333",
+      recipientId: "393491234567",
+    });
+  });
+
+  it("follows the lifecycle and ignores out-of-order receipts", () => {
+    trackOutboundMessage("111222333", "wamid.life", "393491234567");
+    recordStatusUpdate("111222333", makeStatus("wamid.life", "sent"));
+    recordStatusUpdate("111222333", makeStatus("wamid.life", "read"));
+    expect(recordStatusUpdate("111222333", makeStatus("wamid.life", "delivered"))).toBeUndefined();
+
+    const record = getMessageStatus("wamid.life");
+    expect(record?.status).toBe("read");
+    expect(record?.history.map((h) => h.status)).toEqual(["accepted", "sent", "read"]);
+  });
+
+  it("records delivery failures as WhatsAppApiError", () => {
+    recordStatusUpdate(
+      "111222333",
+      makeStatus("wamid.fail", "failed", {
+        errors: [
+          {
+            code: 131026,
+            title: "Message undeliverable",
+            message: "Message undeliverable",
+            error_data: { details: "Recipient is not on WhatsApp" },
+          },
+        ],
+      })
+    );
+
+    const error = getMessageStatus("wamid.fail")?.error;
+    expect(error?.kind).toBe("recipient-invalid");
+    expect(error?.code).toBe(131026);
+    expect(error?.details).toBe("Recipient is not on WhatsApp");
+  });
+
+  it("keeps conversation and pricing details", () => {
+    recordStatusUpdate(
+      "111222333",
+      makeStatus("wamid.billed", "sent", {
+        conversation: { id: "conv_1", expiration_timestamp: "1700086400", origin: { type: "utility" } },
+        pricing: { billable: true, pricing_model: "PMP", category: "utility" },
+      })
+    );
+
+    expect(getMessageStatus("wamid.billed")).toMatchObject({
+      conversation: { id: "conv_1", category: "utility", expiresAt: 1700086400000 },
+      pricing: { billable: true, model: "PMP", category: "utility" },
+    });
+  });
+
+  it("merges billing data from a late receipt without moving the status back", () => {
+    trackOutboundMessage("111222333", "wamid.late", "393491234567");
+    recordStatusUpdate("111222333", makeStatus("wamid.late", "delivered"));
+
+    const result = recordStatusUpdate(
+      "111222333",
+      makeStatus("wamid.late", "sent", {
+        conversation: { id: "conv_2", origin: { type: "marketing" } },
+        pricing: { billable: true, pricing_model: "PMP", category: "marketing" },
+      })
+    );
+
+    expect(result).toBeUndefined();
+    expect(getMessageStatus("wamid.late")).toMatchObject({
+      status: "delivered",
+      conversation: { id: "conv_2", category: "marketing" },
+      pricing: { billable: true, model: "PMP", category: "marketing" },
+    });
+  });
+
+  it("ignores statuses outside the tracked lifecycle", () => {
+    trackOutboundMessage("111222333", "wamid.unranked", "393491234567");
+    recordStatusUpdate("111222333", makeStatus("wamid.unranked", "read"));
+
+    const unknown = makeStatus("wamid.unranked", "deleted" as MessageStatus["status"]);
+    expect(recordStatusUpdate("111222333", unknown)).toBeUndefined();
+
+    const record = getMessageStatus("wamid.unranked");
+    expect(record?.status).toBe("read");
+    expect(record?.history.map((h) => h.status)).toEqual(["accepted", "read"]);
+  });
+
+  it("notifies listeners until they unsubscribe", () => {
+    const seen: string[] = [];
+    const unsubscribe = onStatusChange((record) => seen.push(`${record.messageId}:${record.status}`));
+
+    recordStatusUpdate("111222333", makeStatus("wamid.listen", "sent"));
+    unsubscribe();
+    recordStatusUpdate("111222333", makeStatus("wamid.listen", "delivered"));
+
+    expect(seen).toEqual(["wamid.listen:sent"]);
+  });
+
+  it("waits for a status", async () => {
+    trackOutboundMessage("111222333", "wamid.wait", "393491234567");
+    const delivered = waitForStatus("wamid.wait", "delivered", 1000);
+
+    recordStatusUpdate("111222333", makeStatus("wamid.wait", "sent"));
+    recordStatusUpdate("111222333", makeStatus("wamid.wait", "delivered"));
+
+    await expect(delivered).resolves.toMatchObject({ status: "delivered" });
+    // Already reached — resolves immediately
+    await expect(waitForStatus("wamid.wait", "sent")).resolves.toMatchObject({ status: "delivered" });
+  });
+
+  it("rejects waiters when the message fails or times out", async () => {
+    const failed = waitForStatus("wamid.wait-fail", "delivered", 1000);
+    recordStatusUpdate(
+      "111222333",
+      makeStatus("wamid.wait-fail", "failed", {
+        errors: [{ code: 131047, title: "Re-engagement message", message: "Re-engagement message" }],
+      })
+    );
+    await expect(failed).rejects.toMatchObject({ kind: "re-engagement" });
+
+    await expect(waitForStatus("wamid.never", "read", 10)).rejects.toThrow(/Timed out/);
+  });
+});
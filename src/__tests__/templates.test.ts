@@ -0,0 +1,494 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { WhatsAppCloudConfig, TemplateComponent } from "../types.js";
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+vi.stubGlobal("fetch", mockFetch);
+
+import {
+  listTemplates,
+  listAllTemplates,
+  getTemplate,
+  createTemplate,
+  deleteTemplate,
+  buildTemplateComponents,
+  validateTemplateComponents,
+  sendValidatedTemplate,
+  currencyParameter,
+  dateTimeParameter,
+  type MessageTemplate,
+} from "../templates.js";
+import { WhatsAppValidationError } from "../errors.js";
+
+const mockLog = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+};
+
+function makeConfig(): WhatsAppCloudConfig {
+  return {
+    enabled: true,
+    phoneNumberId: "111222333",
+    businessAccountId: "444555666",
+    accessToken: "test_token",
+    appSecret: "test_secret",
+    verifyToken: "test-verify",
+    webhookPort: 3100,
+    webhookPath: "/webhook/whatsapp-cloud",
+    apiVersion: "v21.0",
+    dmPolicy: "open",
+    allowFrom: [],
+    sendReadReceipts: true,
+  };
+}
+
+function template(name: string, language = "en_US") {
+  return {
+    id: `id-${name}-${language}`,
+    name,
+    language,
+    status: "APPROVED",
+    category: "UTILITY",
+    components: [{ type: "BODY", text: "Your order {{1}} has shipped" }],
+    quality_score: { score: "GREEN" },
+  };
+}
+
+function mockJson(body: unknown) {
+  mockFetch.mockResolvedValueOnce({ ok: true, json: async () => body });
+}
+
+describe("listTemplates", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("requests one page from the business account with filters", async () => {
+    mockJson({ data: [template("order_shipped")], paging: { cursors: { after: "c1" }, next: "https://next" } });
+
+    const result = await listTemplates(makeConfig(), mockLog, { status: "APPROVED", limit: 50 });
+
+    expect(result.ok).toBe(true);
+    expect(result.templates?.map((t) => t.name)).toEqual(["order_shipped"]);
+    expect(result.after).toBe("c1");
+
+    const [url, options] = mockFetch.mock.calls[0];
+    const parsed = new URL(url);
+    expect(parsed.pathname).toBe("/v21.0/444555666/message_templates");
+    expect(parsed.searchParams.get("status")).toBe("APPROVED");
+    expect(parsed.searchParams.get("limit")).toBe("50");
+    expect(parsed.searchParams.get("fields")).toContain("quality_score");
+    expect(parsed.searchParams.has("after")).toBe(false);
+    expect(options.method).toBe("GET");
+  });
+
+  it("has no cursor on the last page", async () => {
+    mockJson({ data: [], paging: { cursors: { after: "c9" } } });
+
+    const result = await listTemplates(makeConfig(), mockLog);
+
+    expect(result.ok).toBe(true);
+    expect(result.after).toBeUndefined();
+  });
+
+  it("fails without a businessAccountId", async () => {
+    const result = await listTemplates({ ...makeConfig(), businessAccountId: "" }, mockLog);
+
+    expect(result.ok).toBe(false);
+    expect(result.error?.message).toContain("businessAccountId");
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("returns Graph errors", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 403,
+      statusText: "Forbidden",
+      json: async () => ({ error: { message: "Missing permission", code: 10, fbtrace_id: "t1" } }),
+    });
+
+    const result = await listTemplates(makeConfig(), mockLog);
+
+    expect(result.ok).toBe(false);
+    expect(result.error?.kind).toBe("auth");
+    expect(result.error?.fbtraceId).toBe("t1");
+  });
+});
+
+describe("listAllTemplates", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("follows the after cursor until the last page", async () => {
+    mockJson({ data: [template("a")], paging: { cursors: { after: "c1" }, next: "https://next" } });
+    mockJson({ data: [template("b")], paging: { cursors: { after: "c2" } } });
+
+    const result = await listAllTemplates(makeConfig(), mockLog);
+
+    expect(result.templates?.map((t) => t.name)).toEqual(["a", "b"]);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(new URL(mockFetch.mock.calls[1][0]).searchParams.get("after")).toBe("c1");
+  });
+});
+
+describe("getTemplate", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("picks the exact name and language", async () => {
+    mockJson({ data: [template("order_shipped_v2"), template("order_shipped", "it"), template("order_shipped")] });
+
+    const result = await getTemplate(makeConfig(), "order_shipped", mockLog, "en_US");
+
+    expect(result.ok).toBe(true);
+    expect(result.template?.id).toBe("id-order_shipped-en_US");
+    const params = new URL(mockFetch.mock.calls[0][0]).searchParams;
+    expect(params.get("name")).toBe("order_shipped");
+    expect(params.get("language")).toBe("en_US");
+  });
+
+  it("reports a missing template as a template error", async () => {
+    mockJson({ data: [template("order_shipped_v2")] });
+
+    const result = await getTemplate(makeConfig(), "order_shipped", mockLog);
+
+    expect(result.ok).toBe(false);
+    expect(result.error?.kind).toBe("template");
+    expect(result.error?.message).toContain("order_shipped");
+  });
+});
+
+describe("createTemplate", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("posts the definition and returns the review state", async () => {
+    mockJson({ id: "tmpl1", status: "PENDING", category: "UTILITY" });
+    const definition = {
+      name: "order_shipped",
+      language: "en_US",
+      category: "UTILITY" as const,
+      components: [{ type: "BODY", text: "Order {{1}} shipped", example: { body_text: [["#42"]] } }],
+    };
+
+    const result = await createTemplate(makeConfig(), definition, mockLog);
+
+    expect(result).toEqual({ ok: true, id: "tmpl1", status: "PENDING", category: "UTILITY" });
+    const [url, options] = mockFetch.mock.calls[0];
+    expect(url).toBe("https://graph.facebook.com/v21.0/444555666/message_templates");
+    expect(options.method).toBe("POST");
+    expect(JSON.parse(options.body)).toEqual(definition);
+  });
+
+  it("does not resend the create after an ambiguous server error", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 500,
+      statusText: "Internal Server Error",
+      headers: new Headers(),
+      json: async () => ({ error: { message: "Unknown error", type: "OAuthException", code: 1 } }),
+    });
+
+    const result = await createTemplate(
+      { ...makeConfig(), retry: { baseDelayMs: 1, maxDelayMs: 1 } },
+      { name: "order_shipped", language: "en_US", category: "UTILITY", components: [] },
+      mockLog
+    );
+
+    expect(result.ok).toBe(false);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("deleteTemplate", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("deletes by name", async () => {
+    mockJson({ success: true });
+
+    const result = await deleteTemplate(makeConfig(), "order_shipped", mockLog);
+
+    expect(result.ok).toBe(true);
+    const [url, options] = mockFetch.mock.calls[0];
+    expect(options.method).toBe("DELETE");
+    const params = new URL(url).searchParams;
+    expect(params.get("name")).toBe("order_shipped");
+    expect(params.has("hsm_id")).toBe(false);
+  });
+
+  it("deletes a single language by template ID", async () => {
+    mockJson({ success: true });
+
+    await deleteTemplate(makeConfig(), "order_shipped", mockLog, { templateId: "tmpl1" });
+
+    expect(new URL(mockFetch.mock.calls[0][0]).searchParams.get("hsm_id")).toBe("tmpl1");
+  });
+});
+
+describe("buildTemplateComponents", () => {
+  it("builds header, positional body and buttons in definition order", () => {
+    const components = buildTemplateComponents({
+      header: { type: "image", id: "media-1" },
+      body: ["Ada", 42, currencyParameter(12.5, "EUR", "€12.50")],
+      buttons: [
+        { type: "copy_code", index: 1, code: "SAVE10" },
+        { type: "url", index: 0, text: "order/42" },
+      ],
+    });
+
+    expect(components).toEqual([
+      { type: "header", parameters: [{ type: "image", image: { id: "media-1" } }] },
+      {
+        type: "body",
+        parameters: [
+          { type: "text", text: "Ada" },
+          { type: "text", text: "42" },
+          { type: "currency", currency: { fallback_value: "€12.50", code: "EUR", amount_1000: 12500 } },
+        ],
+      },
+      { type: "button", sub_type: "url", index: "0", parameters: [{ type: "text", text: "order/42" }] },
+      { type: "button", sub_type: "copy_code", index: "1", parameters: [{ type: "coupon_code", coupon_code: "SAVE10" }] },
+    ]);
+  });
+
+  it("names parameters for named placeholders", () => {
+    const [body] = buildTemplateComponents({ body: { first_name: "Ada", due: dateTimeParameter("May 1") } });
+
+    expect(body).toEqual({
+      type: "body",
+      parameters: [
+        { type: "text", text: "Ada", parameter_name: "first_name" },
+        { type: "date_time", date_time: { fallback_value: "May 1" }, parameter_name: "due" },
+      ],
+    });
+  });
+
+  it("builds carousel cards and a limited-time offer", () => {
+    const components = buildTemplateComponents({
+      body: ["Ada"],
+      limitedTimeOffer: { expiresAt: new Date(1_700_000_000_000) },
+      cards: [
+        { header: { type: "video", link: "https://example.com/a.mp4" }, buttons: [{ type: "quick_reply", index: 0, payload: "a" }] },
+        { header: { type: "video", link: "https://example.com/b.mp4" }, buttons: [{ type: "quick_reply", index: 0, payload: "b" }] },
+      ],
+    });
+
+    expect(components.map((c) => c.type)).toEqual(["body", "carousel", "limited_time_offer"]);
+    const carousel = components[1] as Extract<TemplateComponent, { type: "carousel" }>;
+    expect(carousel.cards[1]).toEqual({
+      card_index: 1,
+      components: [
+        { type: "header", parameters: [{ type: "video", video: { link: "https://example.com/b.mp4" } }] },
+        { type: "button", sub_type: "quick_reply", index: "0", parameters: [{ type: "payload", payload: "b" }] },
+      ],
+    });
+    expect(components[2]).toEqual({
+      type: "limited_time_offer",
+      parameters: [{ type: "limited_time_offer", limited_time_offer: { expiration_time_ms: 1_700_000_000_000 } }],
+    });
+  });
+
+  it("builds flow buttons with a token and data", () => {
+    const [button] = buildTemplateComponents({
+      buttons: [{ type: "flow", index: 0, flowToken: "tok", data: { order: 42 } }],
+    });
+
+    expect(button).toEqual({
+      type: "button",
+      sub_type: "flow",
+      index: "0",
+      parameters: [{ type: "action", action: { flow_token: "tok", flow_action_data: { order: 42 } } }],
+    });
+  });
+
+  it("rejects malformed parameters", () => {
+    expect(() => buildTemplateComponents({ header: { type: "document" } })).toThrow(WhatsAppValidationError);
+    expect(() =>
+      buildTemplateComponents({ header: { type: "image", id: "1", link: "https://example.com/a.png" } })
+    ).toThrow(/exactly one of id or link/);
+    expect(() =>
+      buildTemplateComponents({
+        buttons: [
+          { type: "quick_reply", index: 0, payload: "a" },
+          { type: "quick_reply", index: 0, payload: "b" },
+        ],
+      })
+    ).toThrow(/duplicate index 0/);
+  });
+});
+
+describe("validateTemplateComponents", () => {
+  const shipped = {
+    ...template("order_shipped"),
+    components: [
+      { type: "HEADER", format: "IMAGE" as const },
+      { type: "BODY", text: "Hi {{1}}, order {{2}} ships {{3}}. Thanks {{1}}!" },
+      {
+        type: "BUTTONS",
+        buttons: [
+          { type: "URL", text: "Track", url: "https://example.com/t/{{1}}" },
+          { type: "QUICK_REPLY", text: "Stop" },
+        ],
+      },
+    ],
+  } as MessageTemplate;
+
+  it("accepts components that match the definition", () => {
+    const components = buildTemplateComponents({
+      header: { type: "image", link: "https://example.com/p.png" },
+      body: ["Ada", "#42", "today"],
+      buttons: [{ type: "url", index: 0, text: "42" }],
+    });
+
+    expect(() => validateTemplateComponents(shipped, components)).not.toThrow();
+  });
+
+  it("counts distinct positional placeholders", () => {
+    const components = buildTemplateComponents({
+      header: { type: "image", id: "m" },
+      body: ["Ada", "#42"],
+      buttons: [{ type: "url", index: 0, text: "42" }],
+    });
+
+    expect(() => validateTemplateComponents(shipped, components)).toThrow("body: has 2 parameters, template expects 3");
+  });
+
+  it("requires the header media type", () => {
+    const components = buildTemplateComponents({
+      header: { type: "video", id: "m" },
+      body: ["Ada", "#42", "today"],
+      buttons: [{ type: "url", index: 0, text: "42" }],
+    });
+
+    expect(() => validateTemplateComponents(shipped, components)).toThrow(/image header/);
+  });
+
+  it("checks buttons against the definition", () => {
+    const base = { header: { type: "image" as const, id: "m" }, body: ["Ada", "#42", "today"] };
+
+    expect(() => validateTemplateComponents(shipped, buildTemplateComponents(base))).toThrow(
+      "buttons[0]: URL button needs a parameter"
+    );
+    expect(() =>
+      validateTemplateComponents(
+        shipped,
+        buildTemplateComponents({ ...base, buttons: [{ type: "copy_code", index: 0, code: "X" }] })
+      )
+    ).toThrow("buttons[0]: is a URL button, not copy_code");
+    expect(() =>
+      validateTemplateComponents(
+        shipped,
+        buildTemplateComponents({
+          ...base,
+          buttons: [
+            { type: "url", index: 0, text: "42" },
+            { type: "quick_reply", index: 2, payload: "x" },
+          ],
+        })
+      )
+    ).toThrow("buttons[2]: template has 2 buttons");
+  });
+
+  it("matches named placeholders by name", () => {
+    const named = {
+      ...template("welcome"),
+      parameter_format: "NAMED",
+      components: [{ type: "BODY", text: "Hi {{first_name}}, your code is {{code}}" }],
+    } as MessageTemplate;
+
+    expect(() =>
+      validateTemplateComponents(named, buildTemplateComponents({ body: { first_name: "Ada", code: "1" } }))
+    ).not.toThrow();
+    expect(() =>
+      validateTemplateComponents(named, buildTemplateComponents({ body: { first_name: "Ada" } }))
+    ).toThrow("body: missing parameter code");
+    expect(() =>
+      validateTemplateComponents(named, buildTemplateComponents({ body: { first_name: "Ada", code: "1", x: "2" } }))
+    ).toThrow("body: unknown parameter x");
+    expect(() => validateTemplateComponents(named, buildTemplateComponents({ body: ["Ada", "1"] }))).toThrow(
+      /named placeholders/
+    );
+  });
+
+  it("validates every carousel card", () => {
+    const card = {
+      components: [
+        { type: "HEADER", format: "IMAGE" as const },
+        { type: "BUTTONS", buttons: [{ type: "QUICK_REPLY", text: "Buy" }] },
+      ],
+    };
+    const carousel = {
+      ...template("spring_sale"),
+      components: [{ type: "BODY", text: "New for you" }, { type: "CAROUSEL", cards: [card, card] }],
+    } as MessageTemplate;
+
+    const oneCard = buildTemplateComponents({ cards: [{ header: { type: "image", id: "a" } }] });
+    expect(() => validateTemplateComponents(carousel, oneCard)).toThrow("cards: has 1 cards, template has 2");
+
+    const badCard = buildTemplateComponents({
+      cards: [{ header: { type: "image", id: "a" } }, { body: ["x"], header: { type: "image", id: "b" } }],
+    });
+    expect(() => validateTemplateComponents(carousel, badCard)).toThrow("cards[1].body: has 1 parameters, template expects 0");
+  });
+
+  it("requires the expiry of an expiring limited-time offer", () => {
+    const offer = {
+      ...template("flash_sale"),
+      components: [
+        { type: "LIMITED_TIME_OFFER", limited_time_offer: { text: "Ends soon", has_expiration: true } },
+        { type: "BODY", text: "Sale!" },
+        { type: "BUTTONS", buttons: [{ type: "COPY_CODE", example: "SALE" }] },
+      ],
+    } as MessageTemplate;
+    const buttons = [{ type: "copy_code" as const, index: 0, code: "SALE" }];
+
+    expect(() => validateTemplateComponents(offer, buildTemplateComponents({ buttons }))).toThrow(/expiresAt is required/);
+    expect(() =>
+      validateTemplateComponents(offer, buildTemplateComponents({ buttons, limitedTimeOffer: { expiresAt: Date.now() } }))
+    ).not.toThrow();
+  });
+});
+
+describe("sendValidatedTemplate", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  const definition = {
+    ...template("appointment_reminder"),
+    components: [{ type: "BODY", text: "See you at {{1}}" }],
+  };
+
+  it("looks the definition up once and sends valid components", async () => {
+    mockJson({ data: [definition] });
+    mockJson({ messages: [{ id: "wamid.t1" }] });
+    mockJson({ messages: [{ id: "wamid.t2" }] });
+    const components = buildTemplateComponents({ body: ["10:00"] });
+
+    const first = await sendValidatedTemplate(makeConfig(), "393491234567", "appointment_reminder", "en_US", components, mockLog);
+    const second = await sendValidatedTemplate(makeConfig(), "393491234567", "appointment_reminder", "en_US", components, mockLog);
+
+    expect(first).toEqual({ ok: true, messageId: "wamid.t1" });
+    expect(second.messageId).toBe("wamid.t2");
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    const body = JSON.parse(mockFetch.mock.calls[1][1].body);
+    expect(body.template).toEqual({ name: "appointment_reminder", language: { code: "en_US" }, components });
+  });
+
+  it("fails with the validation error on a mismatch without sending", async () => {
+    mockJson({ data: [{ ...definition, name: "appointment_moved" }] });
+
+    const result = await sendValidatedTemplate(makeConfig(), "393491234567", "appointment_moved", "en_US", [], mockLog);
+
+    expect(result.ok).toBe(false);
+    expect(result.error?.kind).toBe("template");
+    expect(result.error?.cause).toBeInstanceOf(WhatsAppValidationError);
+    expect(result.error?.message).toContain("appointment_moved (en_US)");
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("fails the send when the template doesn't exist", async () => {
+    mockJson({ data: [] });
+
+    const result = await sendValidatedTemplate(makeConfig(), "393491234567", "missing", "en_US", undefined, mockLog);
+
+    expect(result.ok).toBe(false);
+    expect(result.error?.kind).toBe("template");
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,11 +1,26 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { createServer } from "node:http";
 import { createHmac } from "node:crypto";
-import type { WhatsAppCloudConfig, WebhookPayload } from "../types.js";
+import type { WhatsAppCloudConfig, WebhookPayload, IncomingMessage as WebhookMessage } from "../types.js";
 import { CONFIG_DEFAULTS } from "../types.js";
 
 // We test the webhook server via HTTP to exercise the full stack
-import { startWebhookServer, type ParsedInboundMessage } from "../webhook.js";
+import {
+  startWebhookServer,
+  attachWebhookRoute,
+  detachWebhookRoute,
+  isWebhookRouteActive,
+  createMemoryDedupStore,
+  setWebhookDedupStore,
+  type ParsedInboundMessage,
+} from "../webhook.js";
+import { getWindowState } from "../conversation-window.js";
+import { appendInboxEntry, listPendingEntries } from "../inbox.js";
+import { getMessageStatus } from "../status.js";
+import { getBusinessIssues, type WhatsAppBusinessEvent } from "../business-events.js";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 
 const TEST_PORT = 13100;
 const APP_SECRET = "test_secret_for_webhook";
@@ -144,6 +159,14 @@ function makeImagePayload(from: string, caption?: string): WebhookPayload {
   };
 }
 
+function makeMessagePayload(from: string, message: Partial<WebhookMessage> & { type: WebhookMessage["type"] }): WebhookPayload {
+  const payload = makeTextPayload(from, "");
+  payload.entry[0].changes[0].value.messages = [
+    { from, id: `wamid.${message.type}`, timestamp: "1700000003", ...message },
+  ];
+  return payload;
+}
+
 const mockLog = {
   info: vi.fn(),
   warn: vi.fn(),
@@ -151,6 +174,11 @@ const mockLog = {
   debug: vi.fn(),
 };
 
+// Test payloads reuse message IDs — start every test with an empty dedup store
+beforeEach(() => {
+  setWebhookDedupStore(createMemoryDedupStore());
+});
+
 async function postWebhook(
   payload: WebhookPayload,
   port: number = TEST_PORT,
@@ -316,6 +344,302 @@ describe("Webhook Server", () => {
     }
   });
 
+  it("opens the customer service window on inbound messages", async () => {
+    await startServer({ webhookPort: 13113 });
+    try {
+      const payload = makeTextPayload("393497654321", "Hi");
+      payload.entry[0].changes[0].value.messages![0].timestamp = String(Math.floor(Date.now() / 1000));
+      await postWebhook(payload, 13113);
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(await getWindowState("111222333", "393497654321")).toBe("open");
+    } finally {
+      await stopServer();
+    }
+  });
+
+  // --- Other inbound types ---
+
+  async function receiveOne(port: number, message: Parameters<typeof makeMessagePayload>[1]) {
+    await startServer({ webhookPort: port });
+    try {
+      await postWebhook(makeMessagePayload("393491234567", message), port);
+      await new Promise((r) => setTimeout(r, 50));
+      expect(receivedMessages).toHaveLength(1);
+      return receivedMessages[0];
+    } finally {
+      await stopServer();
+    }
+  }
+
+  it("parses reactions and reaction removals", async () => {
+    const added = await receiveOne(13122, {
+      type: "reaction",
+      reaction: { message_id: "wamid.out1", emoji: "❤️" },
+    });
+    expect(added.reaction).toEqual({ messageId: "wamid.out1", emoji: "❤️" });
+    expect(added.text).toBe("[Reacted ❤️ to a message]");
+
+    receivedMessages = [];
+    const removed = await receiveOne(13123, {
+      id: "wamid.unreact",
+      type: "reaction",
+      reaction: { message_id: "wamid.out1", emoji: "" },
+    });
+    expect(removed.reaction).toEqual({ messageId: "wamid.out1", emoji: undefined });
+    expect(removed.text).toBe("[Removed a reaction]");
+  });
+
+  it("parses catalog orders", async () => {
+    const msg = await receiveOne(13124, {
+      type: "order",
+      order: {
+        catalog_id: "cat_1",
+        text: "Deliver after 6pm",
+        product_items: [{ product_retailer_id: "SKU-1", quantity: 2, item_price: 9.5, currency: "EUR" }],
+      },
+    });
+    expect(msg.order).toEqual({
+      catalogId: "cat_1",
+      text: "Deliver after 6pm",
+      items: [{ productRetailerId: "SKU-1", quantity: 2, itemPrice: 9.5, currency: "EUR" }],
+    });
+    expect(msg.text).toBe("[🛒 Order: 2 × SKU-1 (9.5 EUR)]\nDeliver after 6pm");
+  });
+
+  it("attaches click-to-WhatsApp referrals", async () => {
+    const msg = await receiveOne(13125, {
+      type: "text",
+      text: { body: "Is this still available?" },
+      referral: {
+        source_url: "https://fb.me/ad",
+        source_id: "ad_123",
+        source_type: "ad",
+        headline: "Summer sale",
+        media_type: "image",
+        image_url: "https://cdn.example/ad.jpg",
+        ctwa_clid: "clid_1",
+      },
+    });
+    expect(msg.referral).toMatchObject({
+      sourceType: "ad",
+      sourceId: "ad_123",
+      headline: "Summer sale",
+      mediaUrl: "https://cdn.example/ad.jpg",
+      ctwaClid: "clid_1",
+    });
+    expect(msg.text).toBe("Is this still available?\n[Via ad: Summer sale]");
+  });
+
+  it("parses number-change system messages", async () => {
+    const msg = await receiveOne(13126, {
+      type: "system",
+      system: {
+        body: "User A changed from 393491234567 to 393499999999",
+        type: "user_changed_number",
+        new_wa_id: "393499999999",
+      },
+    });
+    expect(msg.system).toEqual({
+      type: "user_changed_number",
+      body: "User A changed from 393491234567 to 393499999999",
+      newWaId: "393499999999",
+    });
+  });
+
+  it("describes request_welcome and unsupported messages", async () => {
+    expect((await receiveOne(13127, { type: "request_welcome" })).text).toBe("[Opened the chat]");
+
+    receivedMessages = [];
+    const unsupported = await receiveOne(13128, {
+      type: "unsupported",
+      errors: [{ code: 131051, title: "Message type unknown", message: "", error_data: { details: "Message type is currently not supported." } }],
+    });
+    expect(unsupported.text).toBe("[Unsupported message: Message type is currently not supported.]");
+  });
+
+  it("parses WhatsApp Flow submissions into structured data", async () => {
+    const msg = await receiveOne(13129, {
+      type: "interactive",
+      interactive: {
+        type: "nfm_reply",
+        nfm_reply: {
+          name: "flow",
+          body: "Sent",
+          response_json: JSON.stringify({
+            flow_token: "booking-42",
+            date: "2026-10-20",
+            guests: 4,
+            extras: ["terrace", "high chair"],
+          }),
+        },
+      },
+    });
+    expect(msg.flowResponse).toEqual({
+      name: "flow",
+      flowToken: "booking-42",
+      data: { date: "2026-10-20", guests: 4, extras: ["terrace", "high chair"] },
+    });
+    expect(msg.text).toBe("[Flow response]\ndate: 2026-10-20\nguests: 4\nextras: terrace, high chair");
+
+    receivedMessages = [];
+    const broken = await receiveOne(13130, {
+      id: "wamid.flow-broken",
+      type: "interactive",
+      interactive: { type: "nfm_reply", nfm_reply: { body: "Sent", response_json: "not json" } },
+    });
+    expect(broken.flowResponse).toBeUndefined();
+    expect(broken.text).toBe("Sent");
+  });
+
+  // --- Deduplication ---
+
+  it("drops redelivered messages", async () => {
+    await startServer({ webhookPort: 13117 });
+    try {
+      const payload = makeTextPayload("393491234567", "Only once");
+      await postWebhook(payload, 13117);
+      await postWebhook(payload, 13117);
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(receivedMessages).toHaveLength(1);
+      expect(mockLog.info).toHaveBeenCalledWith(expect.stringContaining("Dropping duplicate delivery"));
+    } finally {
+      await stopServer();
+    }
+  });
+
+  it("drops redelivered status events but keeps status transitions", async () => {
+    await startServer({ webhookPort: 13118 });
+    try {
+      const statusPayload = (status: "sent" | "delivered"): WebhookPayload => ({
+        object: "whatsapp_business_account",
+        entry: [
+          {
+            id: "BUSINESS_ACCOUNT_ID",
+            changes: [
+              {
+                value: {
+                  messaging_product: "whatsapp",
+                  metadata: { display_phone_number: "15550001234", phone_number_id: "111222333" },
+                  statuses: [
+                    { id: "wamid.out1", status, timestamp: "1700000000", recipient_id: "393491234567" },
+                  ],
+                },
+                field: "messages",
+              },
+            ],
+          },
+        ],
+      });
+
+      await postWebhook(statusPayload("sent"), 13118);
+      await postWebhook(statusPayload("sent"), 13118);
+      await postWebhook(statusPayload("delivered"), 13118);
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(receivedStatuses.map((s) => s.status)).toEqual(["sent", "delivered"]);
+      expect(getMessageStatus("wamid.out1")?.status).toBe("delivered");
+    } finally {
+      await stopServer();
+    }
+  });
+
+  it("uses a custom dedup store", async () => {
+    const seen = new Set<string>(["message:111222333:wamid.test123"]);
+    setWebhookDedupStore({ checkAndAdd: async (key) => !seen.has(key) && !!seen.add(key) });
+    await startServer({ webhookPort: 13119 });
+    try {
+      await postWebhook(makeTextPayload("393491234567", "Seen before restart"), 13119);
+      await new Promise((r) => setTimeout(r, 50));
+      expect(receivedMessages).toHaveLength(0);
+    } finally {
+      await stopServer();
+    }
+  });
+
+  it("processes the change when the dedup store fails", async () => {
+    setWebhookDedupStore({ checkAndAdd: async () => Promise.reject(new Error("redis down")) });
+    await startServer({ webhookPort: 13145 });
+    try {
+      await postWebhook(makeTextPayload("393491234567", "Store down"), 13145);
+      await new Promise((r) => setTimeout(r, 50));
+      expect(receivedMessages.map((m) => m.text)).toEqual(["Store down"]);
+      expect(mockLog.warn).toHaveBeenCalledWith(expect.stringContaining("redis down"));
+    } finally {
+      await stopServer();
+    }
+  });
+
+  // --- Durable inbox ---
+
+  it("records events in the durable inbox until the handler finishes", async () => {
+    const inboxDir = await mkdtemp(join(tmpdir(), "wa-webhook-inbox-"));
+    const config = makeConfig({ webhookPort: 13120, durableInbox: true, inboxDir });
+    let pendingDuringDispatch = -1;
+    server = startWebhookServer(
+      config,
+      async (msg) => {
+        pendingDuringDispatch = listPendingEntries(config).length;
+        receivedMessages.push(msg);
+      },
+      undefined,
+      mockLog
+    );
+    await new Promise<void>((resolve) => (server.listening ? resolve() : server.on("listening", resolve)));
+    try {
+      await postWebhook(makeTextPayload("393491234567", "Persist me"), 13120);
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(receivedMessages).toHaveLength(1);
+      expect(pendingDuringDispatch).toBe(1);
+      expect(listPendingEntries(config)).toHaveLength(0);
+    } finally {
+      await stopServer();
+    }
+  });
+
+  it("keeps the raw payload pending when the handler fails", async () => {
+    const inboxDir = await mkdtemp(join(tmpdir(), "wa-webhook-inbox-"));
+    const config = makeConfig({ webhookPort: 13141, durableInbox: true, inboxDir });
+    server = startWebhookServer(
+      config,
+      async () => {
+        throw new Error("agent unavailable");
+      },
+      undefined,
+      mockLog
+    );
+    await new Promise<void>((resolve) => (server.listening ? resolve() : server.on("listening", resolve)));
+    try {
+      const payload = makeTextPayload("393491234567", "Keep me");
+      await postWebhook(payload, 13141);
+      await new Promise((r) => setTimeout(r, 50));
+
+      const pending = listPendingEntries(config);
+      expect(pending).toHaveLength(1);
+      expect(pending[0].payload).toBe(JSON.stringify(payload));
+      expect(mockLog.error).toHaveBeenCalledWith(expect.stringContaining("kept in the durable inbox for replay"));
+    } finally {
+      await stopServer();
+    }
+  });
+
+  it("replays unfinished inbox entries on start", async () => {
+    const inboxDir = await mkdtemp(join(tmpdir(), "wa-webhook-inbox-"));
+    const config = makeConfig({ webhookPort: 13121, durableInbox: true, inboxDir });
+    appendInboxEntry(config, JSON.stringify(makeTextPayload("393491234567", "Left over")), [0, 0]);
+
+    await startServer({ webhookPort: 13121, durableInbox: true, inboxDir });
+    try {
+      await new Promise((r) => setTimeout(r, 50));
+      expect(receivedMessages.map((m) => m.text)).toEqual(["Left over"]);
+      expect(listPendingEntries(config)).toHaveLength(0);
+    } finally {
+      await stopServer();
+    }
+  });
+
   // --- Access control ---
 
   it("allows all messages with dmPolicy=open", async () => {
@@ -406,3 +730,255 @@ describe("Webhook Server", () => {
     }
   });
 });
+
+describe("Shared webhook server (multi-account)", () => {
+  const PORT = 13114;
+
+  async function waitListening(server: ReturnType<typeof attachWebhookRoute>) {
+    await new Promise<void>((resolve) => {
+      if (server.listening) return resolve();
+      server.on("listening", resolve);
+    });
+  }
+
+  function payloadFor(phoneNumberId: string, from: string, text: string): WebhookPayload {
+    const payload = makeTextPayload(from, text);
+    payload.entry[0].changes[0].value.metadata.phone_number_id = phoneNumberId;
+    return payload;
+  }
+
+  it("routes payloads to the account matching phone_number_id", async () => {
+    const acme: ParsedInboundMessage[] = [];
+    const globex: ParsedInboundMessage[] = [];
+    const acmeConfig = makeConfig({ webhookPort: PORT, phoneNumberId: "111222333" });
+    const globexConfig = makeConfig({ webhookPort: PORT, phoneNumberId: "999888777" });
+
+    const server = attachWebhookRoute({ config: acmeConfig, onMessage: (m) => acme.push(m), log: mockLog });
+    expect(attachWebhookRoute({ config: globexConfig, onMessage: (m) => globex.push(m), log: mockLog })).toBe(server);
+    await waitListening(server);
+
+    try {
+      await postWebhook(payloadFor("999888777", "393491234567", "For Globex"), PORT);
+      await postWebhook(payloadFor("111222333", "393491234567", "For Acme"), PORT);
+      await postWebhook(payloadFor("000000000", "393491234567", "For nobody"), PORT);
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(acme.map((m) => m.text)).toEqual(["For Acme"]);
+      expect(globex.map((m) => m.text)).toEqual(["For Globex"]);
+      expect(isWebhookRouteActive(acmeConfig)).toBe(true);
+    } finally {
+      await detachWebhookRoute(acmeConfig);
+      expect(server.listening).toBe(true);
+      await detachWebhookRoute(globexConfig);
+    }
+    expect(server.listening).toBe(false);
+    expect(isWebhookRouteActive(globexConfig)).toBe(false);
+  });
+
+  it("rejects a second account with the same phone number ID", async () => {
+    const config = makeConfig({ webhookPort: PORT + 1 });
+    const server = attachWebhookRoute({ config, onMessage: () => {}, log: mockLog });
+    await waitListening(server);
+    try {
+      expect(() =>
+        attachWebhookRoute({ config: makeConfig({ webhookPort: PORT + 1 }), onMessage: () => {}, log: mockLog })
+      ).toThrow(/already registered/);
+    } finally {
+      await detachWebhookRoute(config);
+    }
+  });
+
+  it("verifies signatures with each account's app secret", async () => {
+    const received: ParsedInboundMessage[] = [];
+    const ownSecret = makeConfig({ webhookPort: PORT + 2, phoneNumberId: "555", appSecret: "other_secret" });
+    const sharedSecret = makeConfig({ webhookPort: PORT + 2 });
+    const server = attachWebhookRoute({ config: ownSecret, onMessage: (m) => received.push(m), log: mockLog });
+    attachWebhookRoute({ config: sharedSecret, onMessage: (m) => received.push(m), log: mockLog });
+    await waitListening(server);
+
+    try {
+      // Signed with APP_SECRET — only valid for the second account
+      await postWebhook(payloadFor("555", "393491234567", "Forged"), PORT + 2);
+      await postWebhook(payloadFor("111222333", "393491234567", "Genuine"), PORT + 2);
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(received.map((m) => m.text)).toEqual(["Genuine"]);
+    } finally {
+      await detachWebhookRoute(ownSecret);
+      await detachWebhookRoute(sharedSecret);
+    }
+  });
+});
+
+describe("Business account events", () => {
+  async function waitListening(server: ReturnType<typeof attachWebhookRoute>) {
+    await new Promise<void>((resolve) => {
+      if (server.listening) return resolve();
+      server.on("listening", resolve);
+    });
+  }
+
+  function eventPayload(businessAccountId: string, field: string, value: Record<string, unknown>): WebhookPayload {
+    return {
+      object: "whatsapp_business_account",
+      entry: [{ id: businessAccountId, changes: [{ field, value: value as any }] }],
+    };
+  }
+
+  const rejected = {
+    event: "REJECTED",
+    message_template_id: 1234,
+    message_template_name: "order_shipped",
+    message_template_language: "en_US",
+    reason: "INVALID_FORMAT",
+  };
+
+  it("hands template events to onEvent and tracks the issue", async () => {
+    const events: WhatsAppBusinessEvent[] = [];
+    const config = makeConfig({ webhookPort: 13137, phoneNumberId: "events-1" });
+    const server = attachWebhookRoute({ config, onMessage: () => {}, onEvent: (e) => void events.push(e), log: mockLog });
+    await waitListening(server);
+
+    try {
+      await postWebhook(eventPayload("444555666", "message_template_status_update", rejected), 13137);
+      await postWebhook(eventPayload("444555666", "security", { event: "PIN_CHANGED" }), 13137);
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ field: "message_template_status_update", businessAccountId: "444555666" });
+      expect(mockLog.warn).toHaveBeenCalledWith(
+        "[whatsapp-cloud] Template order_shipped (en_US) was rejected: INVALID_FORMAT"
+      );
+      expect(getBusinessIssues("events-1").map((i) => i.message)).toEqual([
+        "Template order_shipped (en_US) was rejected: INVALID_FORMAT",
+      ]);
+    } finally {
+      await detachWebhookRoute(config);
+    }
+  });
+
+  it("routes events to the accounts of the business account", async () => {
+    const acme: WhatsAppBusinessEvent[] = [];
+    const globex: WhatsAppBusinessEvent[] = [];
+    const acmeConfig = makeConfig({ webhookPort: 13138, phoneNumberId: "events-2", businessAccountId: "waba-acme" });
+    const globexConfig = makeConfig({ webhookPort: 13138, phoneNumberId: "events-3", businessAccountId: "waba-globex" });
+    const server = attachWebhookRoute({ config: acmeConfig, onMessage: () => {}, onEvent: (e) => void acme.push(e), log: mockLog });
+    attachWebhookRoute({ config: globexConfig, onMessage: () => {}, onEvent: (e) => void globex.push(e), log: mockLog });
+    await waitListening(server);
+
+    try {
+      await postWebhook(
+        eventPayload("waba-globex", "phone_number_quality_update", {
+          display_phone_number: "15550001234",
+          event: "FLAGGED",
+          current_limit: "TIER_1K",
+        }),
+        13138
+      );
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(acme).toEqual([]);
+      expect(globex.map((e) => e.field)).toEqual(["phone_number_quality_update"]);
+      expect(getBusinessIssues("events-3").map((i) => i.message)).toEqual(["Number 15550001234 quality dropped to RED"]);
+    } finally {
+      await detachWebhookRoute(acmeConfig);
+      await detachWebhookRoute(globexConfig);
+    }
+  });
+
+  it("routes number events to the account with that display number", async () => {
+    const first: WhatsAppBusinessEvent[] = [];
+    const second: WhatsAppBusinessEvent[] = [];
+    const firstConfig = makeConfig({ webhookPort: 13139, phoneNumberId: "events-4", businessAccountId: "waba-shared" });
+    const secondConfig = makeConfig({ webhookPort: 13139, phoneNumberId: "events-5", businessAccountId: "waba-shared" });
+    const server = attachWebhookRoute({ config: firstConfig, onMessage: () => {}, onEvent: (e) => void first.push(e), log: mockLog });
+    attachWebhookRoute({ config: secondConfig, onMessage: () => {}, onEvent: (e) => void second.push(e), log: mockLog });
+    await waitListening(server);
+
+    const statusFrom = (phoneNumberId: string, displayNumber: string): WebhookPayload => ({
+      object: "whatsapp_business_account",
+      entry: [
+        {
+          id: "waba-shared",
+          changes: [
+            {
+              field: "messages",
+              value: {
+                messaging_product: "whatsapp",
+                metadata: { display_phone_number: displayNumber, phone_number_id: phoneNumberId },
+                statuses: [{ id: `wamid.${phoneNumberId}`, status: "sent", timestamp: "1700000000", recipient_id: "393491234567" }],
+              },
+            },
+          ],
+        },
+      ],
+    });
+
+    try {
+      await postWebhook(statusFrom("events-4", "+1 555 000 4444"), 13139);
+      await postWebhook(statusFrom("events-5", "15550005555"), 13139);
+      await postWebhook(
+        eventPayload("waba-shared", "phone_number_quality_update", {
+          display_phone_number: "15550005555",
+          event: "FLAGGED",
+          current_limit: "TIER_1K",
+        }),
+        13139
+      );
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(first).toEqual([]);
+      expect(second.map((e) => e.field)).toEqual(["phone_number_quality_update"]);
+      expect(getBusinessIssues("events-4")).toEqual([]);
+      expect(getBusinessIssues("events-5").map((i) => i.message)).toEqual(["Number 15550005555 quality dropped to RED"]);
+    } finally {
+      await detachWebhookRoute(firstConfig);
+      await detachWebhookRoute(secondConfig);
+    }
+  });
+
+  it("ignores events of another business account even with a single account", async () => {
+    const events: WhatsAppBusinessEvent[] = [];
+    const config = makeConfig({ webhookPort: 13140, phoneNumberId: "events-6", businessAccountId: "waba-mine" });
+    const server = attachWebhookRoute({ config, onMessage: () => {}, onEvent: (e) => void events.push(e), log: mockLog });
+    await waitListening(server);
+
+    try {
+      await postWebhook(eventPayload("waba-other", "message_template_status_update", rejected), 13140);
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(events).toEqual([]);
+      expect(getBusinessIssues("events-6")).toEqual([]);
+      expect(mockLog.warn).toHaveBeenCalledWith(
+        "[whatsapp-cloud] No account configured for business account ID waba-other — ignoring message_template_status_update"
+      );
+    } finally {
+      await detachWebhookRoute(config);
+    }
+  });
+});
+
+describe("createMemoryDedupStore", () => {
+  it("forgets keys after the TTL", async () => {
+    vi.useFakeTimers();
+    try {
+      const store = createMemoryDedupStore({ ttlMs: 1000 });
+      expect(await store.checkAndAdd("a")).toBe(true);
+      expect(await store.checkAndAdd("a")).toBe(false);
+      vi.advanceTimersByTime(1001);
+      expect(await store.checkAndAdd("a")).toBe(true);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("evicts the least recently used key beyond maxEntries", async () => {
+    const store = createMemoryDedupStore({ maxEntries: 2 });
+    await store.checkAndAdd("a");
+    await store.checkAndAdd("b");
+    await store.checkAndAdd("a"); // touch "a" so "b" is the oldest
+    await store.checkAndAdd("c");
+    expect(await store.checkAndAdd("a")).toBe(false);
+    expect(await store.checkAndAdd("b")).toBe(true);
+  });
+});
@@ -0,0 +1,208 @@
+// ---------------------------------------------------------------------------
+// Accounts — resolves per-account config from channels.whatsapp-cloud
+//
+// The top-level block is the "default" account and holds shared settings.
+// Additional numbers live under channels.whatsapp-cloud.accounts.<id> and
+// inherit every top-level setting except their identity (phoneNumberId,
+// name, enabled).
+// ---------------------------------------------------------------------------
+
+import type { WhatsAppCloudConfig } from "./types.js";
+import { CONFIG_DEFAULTS } from "./types.js";
+
+// Default account ID constant (matches OpenClaw convention)
+export const DEFAULT_ACCOUNT_ID = "default";
+
+const CHANNEL_KEY = "whatsapp-cloud";
+
+/** Keys a named account never inherits from the top-level block */
+const ACCOUNT_IDENTITY_KEYS = ["phoneNumberId", "name", "enabled"] as const;
+
+/** Secrets removed from the top-level block along with the default account */
+const ACCOUNT_CREDENTIAL_KEYS = ["accessToken", "appSecret", "verifyToken"] as const;
+
+export interface ResolvedWhatsAppCloudAccount {
+  accountId: string;
+  name?: string;
+  enabled: boolean;
+  config: WhatsAppCloudConfig;
+  /** Where the token came from: "config" or "none" */
+  tokenSource: string;
+}
+
+function channelConfig(cfg: any): Record<string, any> {
+  return cfg?.channels?.[CHANNEL_KEY] ?? {};
+}
+
+/** Merge the top-level block with an account block into raw config values */
+function rawAccountConfig(cfg: any, accountId?: string | null): Record<string, any> {
+  // Accept either the full openclaw.json or the channel block itself
+  const channelCfg = cfg?.channels?.[CHANNEL_KEY] ?? cfg ?? {};
+  const { accounts, ...base } = channelCfg;
+  const id = accountId ?? DEFAULT_ACCOUNT_ID;
+  const override = accounts?.[id];
+
+  if (id === DEFAULT_ACCOUNT_ID) {
+    return override ? { ...base, ...override } : base;
+  }
+
+  const inherited = { ...base };
+  for (const key of ACCOUNT_IDENTITY_KEYS) delete inherited[key];
+  return {
+    ...inherited,
+    ...override,
+    // A disabled channel disables every account
+    enabled: base.enabled === false ? false : (override?.enabled ?? true),
+  };
+}
+
+export function resolveConfig(cfg: any, accountId?: string | null): WhatsAppCloudConfig {
+  const raw = rawAccountConfig(cfg, accountId);
+  return {
+    enabled: raw.enabled ?? CONFIG_DEFAULTS.enabled ?? true,
+    phoneNumberId: String(raw.phoneNumberId ?? ""),
+    businessAccountId: String(raw.businessAccountId ?? ""),
+    accessToken: String(raw.accessToken ?? ""),
+    appSecret: String(raw.appSecret ?? ""),
+    verifyToken: String(raw.verifyToken ?? CONFIG_DEFAULTS.verifyToken!),
+    webhookPort: Number(raw.webhookPort ?? CONFIG_DEFAULTS.webhookPort!),
+    webhookPath: String(raw.webhookPath ?? CONFIG_DEFAULTS.webhookPath!),
+    apiVersion: String(raw.apiVersion ?? CONFIG_DEFAULTS.apiVersion!),
+    dmPolicy: raw.dmPolicy ?? CONFIG_DEFAULTS.dmPolicy!,
+    allowFrom: raw.allowFrom ?? CONFIG_DEFAULTS.allowFrom!,
+    sendReadReceipts: raw.sendReadReceipts ?? CONFIG_DEFAULTS.sendReadReceipts!,
+    retry: { ...CONFIG_DEFAULTS.retry, ...raw.retry },
+    messagesPerSecond: Number(raw.messagesPerSecond ?? CONFIG_DEFAULTS.messagesPerSecond!),
+    downloadInboundMedia: raw.downloadInboundMedia ?? CONFIG_DEFAULTS.downloadInboundMedia!,
+    mediaDir: raw.mediaDir ? String(raw.mediaDir) : undefined,
+    mediaMaxMb: Number(raw.mediaMaxMb ?? CONFIG_DEFAULTS.mediaMaxMb!),
+    outboundMediaDir: raw.outboundMediaDir ? String(raw.outboundMediaDir) : undefined,
+    reengagementTemplate: raw.reengagementTemplate?.name ? raw.reengagementTemplate : undefined,
+    otpTemplate: raw.otpTemplate?.name ? raw.otpTemplate : undefined,
+    durableInbox: raw.durableInbox ?? CONFIG_DEFAULTS.durableInbox!,
+    inboxDir: raw.inboxDir ? String(raw.inboxDir) : undefined,
+    statusLog: raw.statusLog ?? CONFIG_DEFAULTS.statusLog!,
+    statusLogDir: raw.statusLogDir ? String(raw.statusLogDir) : undefined,
+    inboundDebounceMs: Number(raw.inboundDebounceMs ?? CONFIG_DEFAULTS.inboundDebounceMs!),
+    inboundDebounceMaxMs: Number(raw.inboundDebounceMaxMs ?? CONFIG_DEFAULTS.inboundDebounceMaxMs!),
+    maxConcurrentDispatches: Number(raw.maxConcurrentDispatches ?? CONFIG_DEFAULTS.maxConcurrentDispatches!),
+    replyThreading: raw.replyThreading ?? CONFIG_DEFAULTS.replyThreading!,
+    formatMarkdown: raw.formatMarkdown ?? CONFIG_DEFAULTS.formatMarkdown!,
+    chunkMarkers: raw.chunkMarkers ?? CONFIG_DEFAULTS.chunkMarkers!,
+    autoInteractive: raw.autoInteractive ?? CONFIG_DEFAULTS.autoInteractive!,
+    flowsEndpointPath: raw.flowsEndpointPath ? String(raw.flowsEndpointPath) : undefined,
+    flowsPrivateKey: raw.flowsPrivateKey ? String(raw.flowsPrivateKey) : undefined,
+    flowsPrivateKeyPassphrase: raw.flowsPrivateKeyPassphrase ? String(raw.flowsPrivateKeyPassphrase) : undefined,
+  };
+}
+
+export function resolveAccount(cfg: any, accountId?: string | null): ResolvedWhatsAppCloudAccount {
+  const id = accountId ?? DEFAULT_ACCOUNT_ID;
+  const config = resolveConfig(cfg, id);
+  return {
+    accountId: id,
+    name: rawAccountConfig(cfg, id).name,
+    enabled: config.enabled,
+    config,
+    tokenSource: config.accessToken ? "config" : "none",
+  };
+}
+
+/**
+ * Account IDs configured under channels.whatsapp-cloud. The top-level block
+ * counts as "default" when it has its own phone number, or when there are no
+ * named accounts at all.
+ */
+export function listAccountIds(cfg: any): string[] {
+  const channelCfg = channelConfig(cfg);
+  if (channelCfg.enabled === false) return [];
+
+  const named = Object.keys(channelCfg.accounts ?? {}).filter((id) => id !== DEFAULT_ACCOUNT_ID);
+  const hasDefault =
+    named.length === 0 || Boolean(channelCfg.phoneNumberId) || Boolean(channelCfg.accounts?.[DEFAULT_ACCOUNT_ID]);
+  return hasDefault ? [DEFAULT_ACCOUNT_ID, ...named] : named;
+}
+
+/** Config path prefix of an account, e.g. "channels.whatsapp-cloud.accounts.acme." */
+export function accountConfigPath(accountId?: string | null): string {
+  const id = accountId ?? DEFAULT_ACCOUNT_ID;
+  return id === DEFAULT_ACCOUNT_ID ? `channels.${CHANNEL_KEY}.` : `channels.${CHANNEL_KEY}.accounts.${id}.`;
+}
+
+/**
+ * Return a new openclaw.json with `update` applied to one account's block.
+ * The default account lives at the top level; named accounts under accounts.<id>.
+ */
+export function updateAccountConfig(
+  cfg: any,
+  accountId: string | null | undefined,
+  update: (current: Record<string, any>) => Record<string, any>
+): any {
+  const id = accountId ?? DEFAULT_ACCOUNT_ID;
+  const channelCfg = channelConfig(cfg);
+
+  const nextChannel =
+    id === DEFAULT_ACCOUNT_ID
+      ? update(channelCfg)
+      : {
+          ...channelCfg,
+          accounts: {
+            ...channelCfg.accounts,
+            [id]: update(channelCfg.accounts?.[id] ?? {}),
+          },
+        };
+
+  return {
+    ...cfg,
+    channels: {
+      ...cfg?.channels,
+      [CHANNEL_KEY]: nextChannel,
+    },
+  };
+}
+
+/**
+ * Remove one account. Deleting the default account strips its phone number
+ * and credentials from the top-level block but keeps the other shared
+ * settings; named accounts that inherited the credentials get their own copy.
+ */
+export function removeAccountConfig(cfg: any, accountId: string): any {
+  const channelCfg = channelConfig(cfg);
+  const { [accountId]: _removed, ...remainingAccounts } = channelCfg.accounts ?? {};
+  const hasNamedAccounts = Object.keys(remainingAccounts).some((id) => id !== DEFAULT_ACCOUNT_ID);
+
+  let nextChannel: Record<string, any> | null;
+  if (accountId !== DEFAULT_ACCOUNT_ID) {
+    nextChannel = { ...channelCfg, accounts: remainingAccounts };
+    if (Object.keys(remainingAccounts).length === 0) delete nextChannel.accounts;
+  } else if (hasNamedAccounts) {
+    const { phoneNumberId, name, ...shared } = channelCfg;
+    const credentials: Record<string, unknown> = {};
+    for (const key of ACCOUNT_CREDENTIAL_KEYS) {
+      if (shared[key] !== undefined) credentials[key] = shared[key];
+      delete shared[key];
+    }
+    const accounts: Record<string, any> = {};
+    for (const [id, account] of Object.entries(remainingAccounts)) {
+      accounts[id] = { ...credentials, ...(account as Record<string, any>) };
+    }
+    nextChannel = { ...shared, accounts };
+  } else {
+    nextChannel = null;
+  }
+
+  const nextChannels = { ...cfg?.channels };
+  if (nextChannel) {
+    nextChannels[CHANNEL_KEY] = nextChannel;
+  } else {
+    delete nextChannels[CHANNEL_KEY];
+  }
+
+  const next = { ...cfg };
+  if (Object.keys(nextChannels).length > 0) {
+    next.channels = nextChannels;
+  } else {
+    delete next.channels;
+  }
+  return next;
+}
@@ -12,11 +12,53 @@ import type {
   SendInteractiveRequest,
   SendMediaRequest,
   InteractiveMessage,
+  InteractiveHeader,
+  InteractiveMediaRef,
+  InteractiveTextHeader,
+  InteractiveButtonMessage,
+  InteractiveListMessage,
+  InteractiveListSection,
+  InteractiveCtaUrlMessage,
+  InteractiveLocationRequestMessage,
+  InteractiveAddressMessage,
+  AddressMessageParameters,
+  InteractiveProductMessage,
+  InteractiveProductListMessage,
+  InteractiveCatalogMessage,
+  InteractiveFlowMessage,
+  FlowActionParameters,
+  FlowMessageOptions,
   TemplateComponent,
   MediaUrlResponse,
+  MediaUploadResponse,
   ApiErrorResponse,
+  UploadMediaResult,
+  GraphResult,
+  OutboundMediaType,
+  SendOptions,
+  SendTextOptions,
+  SendMediaOptions,
   Logger,
 } from "./types.js";
+import { CONFIG_DEFAULTS } from "./types.js";
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { basename } from "node:path";
+import { fileURLToPath } from "node:url";
+import { WhatsAppApiError, WhatsAppValidationError } from "./errors.js";
+import { enqueueForRecipient, acquireSendSlot } from "./queue.js";
+import {
+  resolveRetryPolicy,
+  isRetryable,
+  isSafeToResend,
+  isConnectError,
+  computeBackoffDelay,
+  parseRetryAfter,
+  sleep,
+} from "./retry.js";
+import { trackOutboundMessage } from "./status.js";
+import { containsUrl } from "./format.js";
+import { chunkMessage, graphemeLength, TEXT_MAX_LENGTH } from "./chunk.js";
 
 const API_BASE = "https://graph.facebook.com";
 
@@ -31,6 +73,94 @@ function headers(config: WhatsAppCloudConfig): Record<string, string> {
   };
 }
 
+// ---------------------------------------------------------------------------
+// Retrying fetch
+// ---------------------------------------------------------------------------
+
+interface RetryingResponse {
+  response: Response;
+  /** Parsed Graph error body, present when the final response is not ok */
+  error?: ApiErrorResponse;
+}
+
+/**
+ * fetch() with the configured retry policy.
+ *
+ * Network errors, 5xx/408/429 responses and Meta throttling codes are retried
+ * with exponential backoff and jitter; a Retry-After header replaces the
+ * computed delay. Permanent errors return immediately. Throws the last
+ * network error once all attempts are used up.
+ *
+ * Requests that aren't `idempotent` (message sends) are only repeated when
+ * Meta provably didn't act on them — a refused connection or throttling —
+ * unless `retry.retryAmbiguousSends` is on. `beforeAttempt` runs before
+ * every attempt, retries included (message sends wait for a pacing slot).
+ */
+async function fetchWithRetry(
+  config: WhatsAppCloudConfig,
+  url: string,
+  init: RequestInit,
+  log: Logger,
+  options: { idempotent?: boolean; beforeAttempt?: () => Promise<void> } = {}
+): Promise<RetryingResponse> {
+  const policy = resolveRetryPolicy(config);
+  const label = `${init.method ?? "GET"} ${url.replace(API_BASE, "")}`;
+  const retryAmbiguous = options.idempotent !== false || policy.retryAmbiguousSends;
+
+  for (let attempt = 1; ; attempt++) {
+    await options.beforeAttempt?.();
+    log.debug(`[whatsapp-cloud] ${label} (attempt ${attempt}/${policy.maxAttempts})`);
+
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (err) {
+      if (attempt >= policy.maxAttempts || (!retryAmbiguous && !isConnectError(err))) throw err;
+      const delay = computeBackoffDelay(attempt, policy);
+      log.warn(
+        `[whatsapp-cloud] ${label} attempt ${attempt}/${policy.maxAttempts} failed: ${
+          err instanceof Error ? err.message : String(err)
+        } — retrying in ${delay}ms`
+      );
+      await sleep(delay);
+      continue;
+    }
+
+    if (response.ok) return { response };
+
+    const error = (await response.json().catch(() => ({}))) as ApiErrorResponse;
+    const code = error?.error?.code;
+
+    if (!isRetryable(response.status, code) || attempt >= policy.maxAttempts) {
+      return { response, error };
+    }
+    if (!retryAmbiguous && !isSafeToResend(response.status, code)) {
+      log.warn(
+        `[whatsapp-cloud] ${label} failed with HTTP ${response.status}${
+          code !== undefined ? ` (code ${code})` : ""
+        } — not retrying, the message may already have been sent`
+      );
+      return { response, error };
+    }
+
+    const retryAfter = parseRetryAfter(response.headers?.get?.("retry-after"));
+    if (retryAfter !== null && retryAfter > policy.maxDelayMs) {
+      log.warn(
+        `[whatsapp-cloud] ${label} asked to retry after ${retryAfter}ms (limit ${policy.maxDelayMs}ms) — giving up`
+      );
+      return { response, error };
+    }
+
+    const delay = retryAfter ?? computeBackoffDelay(attempt, policy);
+    log.warn(
+      `[whatsapp-cloud] ${label} attempt ${attempt}/${policy.maxAttempts} failed: HTTP ${response.status}${
+        code !== undefined ? ` (code ${code})` : ""
+      } — retrying in ${delay}ms`
+    );
+    await sleep(delay);
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Core send function
 // ---------------------------------------------------------------------------
@@ -43,26 +173,89 @@ async function sendRequest(
   const url = apiUrl(config, `${config.phoneNumberId}/messages`);
 
   try {
-    const response = await fetch(url, {
-      method: "POST",
-      headers: headers(config),
-      body: JSON.stringify(body),
-    });
+    const { response, error: err } = await fetchWithRetry(
+      config,
+      url,
+      {
+        method: "POST",
+        headers: headers(config),
+        body: JSON.stringify(body),
+      },
+      log,
+      // Throttled retries are paced too — that's when pacing matters most
+      { idempotent: false, beforeAttempt: () => acquireSendSlot(config) }
+    );
 
     if (!response.ok) {
-      const err = (await response.json().catch(() => ({}))) as ApiErrorResponse;
-      const errorMsg =
-        err?.error?.message ?? `HTTP ${response.status} ${response.statusText}`;
-      log.error(`[whatsapp-cloud] API error: ${errorMsg}`);
-      return { ok: false, error: errorMsg };
+      const error = WhatsAppApiError.fromResponse(response.status, response.statusText, err);
+      log.error(`[whatsapp-cloud] API error (${error.kind}): ${error.describe()}`);
+      return { ok: false, error };
     }
 
     const data = (await response.json()) as SendMessageResponse;
-    return { ok: true, messageId: data.messages?.[0]?.id };
+    const messageId = data.messages?.[0]?.id;
+    if (messageId) trackOutboundMessage(config.phoneNumberId, messageId, String(body.to ?? ""));
+    return { ok: true, messageId };
+  } catch (err) {
+    const error = WhatsAppApiError.fromNetworkError(err);
+    log.error(`[whatsapp-cloud] Network error: ${error.message}`);
+    return { ok: false, error };
+  }
+}
+
+/** `context` block that makes a message quote `options.replyTo` */
+function replyContext(options: SendOptions): { context?: { message_id: string } } {
+  return options.replyTo ? { context: { message_id: options.replyTo } } : {};
+}
+
+// ---------------------------------------------------------------------------
+// Other Graph requests (management endpoints: templates, …)
+// ---------------------------------------------------------------------------
+
+/**
+ * Call a Graph API endpoint outside the messages pipeline — no send queue or
+ * throughput pacing, but the same retry policy and error taxonomy.
+ * Undefined query values are dropped. Pass `idempotent: false` for requests
+ * that create something, so an ambiguous failure isn't resent.
+ */
+export async function graphRequest<T>(
+  config: WhatsAppCloudConfig,
+  method: "GET" | "POST" | "DELETE",
+  path: string,
+  log: Logger,
+  options: { query?: Record<string, string | number | undefined>; body?: unknown; idempotent?: boolean } = {}
+): Promise<GraphResult<T>> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(options.query ?? {})) {
+    if (value !== undefined) params.set(key, String(value));
+  }
+  const query = params.toString();
+  const url = apiUrl(config, path) + (query ? `?${query}` : "");
+
+  try {
+    const { response, error: err } = await fetchWithRetry(
+      config,
+      url,
+      {
+        method,
+        headers: headers(config),
+        ...(options.body !== undefined ? { body: JSON.stringify(options.body) } : {}),
+      },
+      log,
+      { idempotent: options.idempotent }
+    );
+
+    if (!response.ok) {
+      const error = WhatsAppApiError.fromResponse(response.status, response.statusText, err);
+      log.error(`[whatsapp-cloud] ${method} ${path} failed (${error.kind}): ${error.describe()}`);
+      return { ok: false, error };
+    }
+
+    return { ok: true, data: (await response.json()) as T };
   } catch (err) {
-    const errorMsg = err instanceof Error ? err.message : String(err);
-    log.error(`[whatsapp-cloud] Network error: ${errorMsg}`);
-    return { ok: false, error: errorMsg };
+    const error = WhatsAppApiError.fromNetworkError(err);
+    log.error(`[whatsapp-cloud] Network error: ${error.message}`);
+    return { ok: false, error };
   }
 }
 
@@ -74,20 +267,37 @@ export async function sendText(
   config: WhatsAppCloudConfig,
   to: string,
   text: string,
-  log: Logger
+  log: Logger,
+  options: SendTextOptions = {}
+): Promise<SendResult> {
+  // All chunks share one queue slot so concurrent sends can't interleave
+  return enqueueForRecipient(config, to, () => sendTextChunks(config, to, text, log, options));
+}
+
+/** Send every chunk of `text` in order; callers hold the recipient's queue slot */
+async function sendTextChunks(
+  config: WhatsAppCloudConfig,
+  to: string,
+  text: string,
+  log: Logger,
+  options: SendTextOptions
 ): Promise<SendResult> {
   // WhatsApp has a 4096 character limit per text message
-  // Split long messages into chunks
-  const chunks = splitMessage(text, 4096);
-  let lastResult: SendResult = { ok: false, error: "No chunks" };
+  const chunks = chunkMessage(text, {
+    maxLength: TEXT_MAX_LENGTH,
+    markers: config.chunkMarkers ?? CONFIG_DEFAULTS.chunkMarkers,
+  });
+  let lastResult: SendResult = { ok: false, error: new WhatsAppApiError("No chunks") };
 
-  for (const chunk of chunks) {
+  for (const [index, chunk] of chunks.entries()) {
     const body: SendTextRequest = {
       messaging_product: "whatsapp",
       recipient_type: "individual",
       to,
       type: "text",
-      text: { preview_url: false, body: chunk },
+      text: { preview_url: options.previewUrl ?? containsUrl(chunk), body: chunk },
+      // Only the first chunk quotes — the rest read as its continuation
+      ...(index === 0 ? replyContext(options) : {}),
     };
     lastResult = await sendRequest(config, body as unknown as Record<string, unknown>, log);
     if (!lastResult.ok) return lastResult;
@@ -106,7 +316,8 @@ export async function sendTemplate(
   templateName: string,
   languageCode: string = "en",
   components?: TemplateComponent[],
-  log?: Logger
+  log?: Logger,
+  options: SendOptions = {}
 ): Promise<SendResult> {
   const body: SendTemplateRequest = {
     messaging_product: "whatsapp",
@@ -117,23 +328,27 @@ export async function sendTemplate(
       language: { code: languageCode },
       ...(components ? { components } : {}),
     },
+    ...replyContext(options),
   };
-  return sendRequest(
-    config,
-    body as unknown as Record<string, unknown>,
-    log ?? console as unknown as Logger
+  return enqueueForRecipient(config, to, () =>
+    sendRequest(
+      config,
+      body as unknown as Record<string, unknown>,
+      log ?? console as unknown as Logger
+    )
   );
 }
 
 // ---------------------------------------------------------------------------
-// Interactive messages (buttons and lists)
+// Interactive messages
 // ---------------------------------------------------------------------------
 
 export async function sendInteractive(
   config: WhatsAppCloudConfig,
   to: string,
   interactive: InteractiveMessage,
-  log: Logger
+  log: Logger,
+  options: SendOptions = {}
 ): Promise<SendResult> {
   const body: SendInteractiveRequest = {
     messaging_product: "whatsapp",
@@ -141,36 +356,347 @@ export async function sendInteractive(
     to,
     type: "interactive",
     interactive,
+    ...replyContext(options),
   };
-  return sendRequest(config, body as unknown as Record<string, unknown>, log);
+  return enqueueForRecipient(config, to, () =>
+    sendRequest(config, body as unknown as Record<string, unknown>, log)
+  );
 }
 
 /**
  * Send a message with up to 3 quick reply buttons.
- * Convenience wrapper around sendInteractive.
+ * Convenience wrapper around sendInteractive; throws a WhatsAppValidationError
+ * when the buttons break Meta's limits.
  */
 export async function sendButtons(
   config: WhatsAppCloudConfig,
   to: string,
   bodyText: string,
   buttons: Array<{ id: string; title: string }>,
-  log: Logger
+  log: Logger,
+  options: SendOptions = {}
 ): Promise<SendResult> {
-  return sendInteractive(
-    config,
-    to,
+  return sendInteractive(config, to, buildButtonMessage(bodyText, buttons), log, options);
+}
+
+/**
+ * Send a WhatsApp Flow. The submission comes back as an inbound message with
+ * `flowResponse` set.
+ */
+export async function sendFlow(
+  config: WhatsAppCloudConfig,
+  to: string,
+  bodyText: string,
+  flow: FlowMessageOptions,
+  log: Logger,
+  options: SendOptions = {}
+): Promise<SendResult> {
+  const action = flow.action ?? "navigate";
+  const message = buildFlowMessage(
+    bodyText,
     {
-      type: "button",
-      body: { text: bodyText },
-      action: {
-        buttons: buttons.slice(0, 3).map((b) => ({
-          type: "reply" as const,
-          reply: { id: b.id, title: b.title.slice(0, 20) },
-        })),
-      },
+      ...(flow.flowId ? { flow_id: flow.flowId } : {}),
+      ...(flow.flowName ? { flow_name: flow.flowName } : {}),
+      flow_cta: flow.cta,
+      ...(flow.token ? { flow_token: flow.token } : {}),
+      ...(flow.mode ? { mode: flow.mode } : {}),
+      flow_action: action,
+      ...(action === "navigate"
+        ? { flow_action_payload: { screen: flow.screen!, ...(flow.data ? { data: flow.data } : {}) } }
+        : {}),
     },
-    log
+    { header: flow.header, footer: flow.footer }
   );
+  return sendInteractive(config, to, message, log, options);
+}
+
+// ---------------------------------------------------------------------------
+// Interactive message builders — validate against Meta's limits and throw
+// WhatsAppValidationError instead of letting the Graph API reject the send
+// ---------------------------------------------------------------------------
+
+/** Limits for interactive messages, in characters unless noted */
+export const INTERACTIVE_LIMITS = {
+  body: 1024,
+  header: 60,
+  footer: 60,
+  buttons: 3,
+  buttonId: 256,
+  buttonTitle: 20,
+  listButton: 20,
+  sections: 10,
+  sectionTitle: 24,
+  rows: 10,
+  rowId: 200,
+  rowTitle: 24,
+  rowDescription: 72,
+  products: 30,
+  flowCta: 30,
+} as const;
+
+/** Optional header and footer shared by most interactive types; a string header is a text header */
+export interface InteractiveExtras {
+  header?: InteractiveHeader | string;
+  footer?: string;
+}
+
+export function buildButtonMessage(
+  bodyText: string,
+  buttons: Array<{ id: string; title: string }>,
+  extras: InteractiveExtras = {}
+): InteractiveButtonMessage {
+  checkCount("action.buttons", buttons, 1, INTERACTIVE_LIMITS.buttons);
+  buttons.forEach((b, i) => {
+    checkText(`action.buttons[${i}].reply.id`, b.id, INTERACTIVE_LIMITS.buttonId);
+    checkText(`action.buttons[${i}].reply.title`, b.title, INTERACTIVE_LIMITS.buttonTitle);
+  });
+  checkUnique("action.buttons", buttons.map((b) => b.id), "ID");
+  checkUnique("action.buttons", buttons.map((b) => b.title), "title");
+
+  return {
+    type: "button",
+    ...headerPart(extras.header),
+    body: bodyPart(bodyText),
+    ...footerPart(extras.footer),
+    action: {
+      buttons: buttons.map((b) => ({ type: "reply" as const, reply: { id: b.id, title: b.title } })),
+    },
+  };
+}
+
+export function buildListMessage(
+  bodyText: string,
+  buttonText: string,
+  sections: InteractiveListSection[],
+  extras: { header?: string; footer?: string } = {}
+): InteractiveListMessage {
+  checkText("action.button", buttonText, INTERACTIVE_LIMITS.listButton);
+  checkCount("action.sections", sections, 1, INTERACTIVE_LIMITS.sections);
+  const rows = sections.flatMap((section) => section.rows);
+  checkCount("action.sections[].rows", rows, 1, INTERACTIVE_LIMITS.rows);
+  sections.forEach((section, i) => {
+    if (sections.length > 1 || section.title) {
+      checkText(`action.sections[${i}].title`, section.title, INTERACTIVE_LIMITS.sectionTitle);
+    }
+    section.rows.forEach((row, j) => {
+      const path = `action.sections[${i}].rows[${j}]`;
+      checkText(`${path}.id`, row.id, INTERACTIVE_LIMITS.rowId);
+      checkText(`${path}.title`, row.title, INTERACTIVE_LIMITS.rowTitle);
+      if (row.description !== undefined) {
+        checkText(`${path}.description`, row.description, INTERACTIVE_LIMITS.rowDescription);
+      }
+    });
+  });
+  checkUnique("action.sections[].rows", rows.map((row) => row.id), "ID");
+
+  return {
+    type: "list",
+    ...(extras.header !== undefined ? { header: textHeader(extras.header) } : {}),
+    body: bodyPart(bodyText),
+    ...footerPart(extras.footer),
+    action: { button: buttonText, sections },
+  };
+}
+
+export function buildCtaUrlMessage(
+  bodyText: string,
+  displayText: string,
+  url: string,
+  extras: InteractiveExtras = {}
+): InteractiveCtaUrlMessage {
+  checkText("action.parameters.display_text", displayText, INTERACTIVE_LIMITS.buttonTitle);
+  checkUrl("action.parameters.url", url);
+
+  return {
+    type: "cta_url",
+    ...headerPart(extras.header),
+    body: bodyPart(bodyText),
+    ...footerPart(extras.footer),
+    action: { name: "cta_url", parameters: { display_text: displayText, url } },
+  };
+}
+
+/** Ask the user to share their location (arrives as an inbound "location" message) */
+export function buildLocationRequestMessage(bodyText: string): InteractiveLocationRequestMessage {
+  return {
+    type: "location_request_message",
+    body: bodyPart(bodyText),
+    action: { name: "send_location" },
+  };
+}
+
+export function buildAddressMessage(
+  bodyText: string,
+  parameters: AddressMessageParameters,
+  extras: { header?: string; footer?: string } = {}
+): InteractiveAddressMessage {
+  if (!/^[A-Z]{2}$/.test(parameters.country ?? "")) {
+    throw new WhatsAppValidationError("action.parameters.country", "must be an ISO 3166-1 alpha-2 code such as \"IN\"");
+  }
+
+  return {
+    type: "address_message",
+    ...(extras.header !== undefined ? { header: textHeader(extras.header) } : {}),
+    body: bodyPart(bodyText),
+    ...footerPart(extras.footer),
+    action: { name: "address_message", parameters },
+  };
+}
+
+/** A single product from a catalog connected to the WhatsApp Business Account */
+export function buildProductMessage(
+  catalogId: string,
+  productRetailerId: string,
+  extras: { body?: string; footer?: string } = {}
+): InteractiveProductMessage {
+  checkText("action.catalog_id", catalogId);
+  checkText("action.product_retailer_id", productRetailerId);
+
+  return {
+    type: "product",
+    ...(extras.body !== undefined ? { body: bodyPart(extras.body) } : {}),
+    ...footerPart(extras.footer),
+    action: { catalog_id: catalogId, product_retailer_id: productRetailerId },
+  };
+}
+
+/** Up to 30 products in up to 10 titled sections */
+export function buildProductListMessage(
+  headerText: string,
+  bodyText: string,
+  catalogId: string,
+  sections: Array<{ title: string; productRetailerIds: string[] }>,
+  extras: { footer?: string } = {}
+): InteractiveProductListMessage {
+  checkText("action.catalog_id", catalogId);
+  checkCount("action.sections", sections, 1, INTERACTIVE_LIMITS.sections);
+  checkCount(
+    "action.sections[].product_items",
+    sections.flatMap((section) => section.productRetailerIds),
+    1,
+    INTERACTIVE_LIMITS.products
+  );
+  sections.forEach((section, i) => {
+    checkText(`action.sections[${i}].title`, section.title, INTERACTIVE_LIMITS.sectionTitle);
+    checkCount(`action.sections[${i}].product_items`, section.productRetailerIds, 1, INTERACTIVE_LIMITS.products);
+  });
+
+  return {
+    type: "product_list",
+    header: textHeader(headerText),
+    body: bodyPart(bodyText),
+    ...footerPart(extras.footer),
+    action: {
+      catalog_id: catalogId,
+      sections: sections.map((section) => ({
+        title: section.title,
+        product_items: section.productRetailerIds.map((id) => ({ product_retailer_id: id })),
+      })),
+    },
+  };
+}
+
+/** Button that opens the business's full catalog */
+export function buildCatalogMessage(
+  bodyText: string,
+  extras: { thumbnailProductRetailerId?: string; footer?: string } = {}
+): InteractiveCatalogMessage {
+  return {
+    type: "catalog_message",
+    body: bodyPart(bodyText),
+    ...footerPart(extras.footer),
+    action: {
+      name: "catalog_message",
+      ...(extras.thumbnailProductRetailerId
+        ? { parameters: { thumbnail_product_retailer_id: extras.thumbnailProductRetailerId } }
+        : {}),
+    },
+  };
+}
+
+export function buildFlowMessage(
+  bodyText: string,
+  parameters: Omit<FlowActionParameters, "flow_message_version">,
+  extras: InteractiveExtras = {}
+): InteractiveFlowMessage {
+  if (!parameters.flow_id === !parameters.flow_name) {
+    throw new WhatsAppValidationError("action.parameters", "exactly one of flow_id and flow_name is required");
+  }
+  checkText("action.parameters.flow_cta", parameters.flow_cta, INTERACTIVE_LIMITS.flowCta);
+  if (parameters.flow_action === "navigate" && !parameters.flow_action_payload?.screen) {
+    throw new WhatsAppValidationError("action.parameters.flow_action_payload.screen", "required when flow_action is \"navigate\"");
+  }
+
+  return {
+    type: "flow",
+    ...headerPart(extras.header),
+    body: bodyPart(bodyText),
+    ...footerPart(extras.footer),
+    action: { name: "flow", parameters: { flow_message_version: "3", ...parameters } },
+  };
+}
+
+function bodyPart(text: string): { text: string } {
+  checkText("body.text", text, INTERACTIVE_LIMITS.body);
+  return { text };
+}
+
+function footerPart(text: string | undefined): { footer?: { text: string } } {
+  if (text === undefined) return {};
+  checkText("footer.text", text, INTERACTIVE_LIMITS.footer);
+  return { footer: { text } };
+}
+
+function textHeader(text: string): InteractiveTextHeader {
+  checkText("header.text", text, INTERACTIVE_LIMITS.header);
+  return { type: "text", text };
+}
+
+function headerPart(header: InteractiveHeader | string | undefined): { header?: InteractiveHeader } {
+  if (header === undefined) return {};
+  if (typeof header === "string") return { header: textHeader(header) };
+  if (header.type === "text") return { header: textHeader(header.text) };
+
+  const media: InteractiveMediaRef =
+    header.type === "image" ? header.image : header.type === "video" ? header.video : header.document;
+  if (!media?.id && !media?.link) {
+    throw new WhatsAppValidationError(`header.${header.type}`, "needs a media id or link");
+  }
+  if (media.link) checkUrl(`header.${header.type}.link`, media.link);
+  return { header };
+}
+
+function checkText(field: string, value: string | undefined, max?: number): void {
+  if (!value?.trim()) throw new WhatsAppValidationError(field, "must not be empty");
+  if (max !== undefined) {
+    const length = graphemeLength(value);
+    if (length > max) {
+      throw new WhatsAppValidationError(field, `is ${length} characters, the limit is ${max} ("${value}")`);
+    }
+  }
+}
+
+function checkCount(field: string, items: unknown[], min: number, max: number): void {
+  if (items.length < min || items.length > max) {
+    throw new WhatsAppValidationError(
+      field,
+      `has ${items.length} item${items.length === 1 ? "" : "s"}, expected ${min === max ? min : `${min}–${max}`}`
+    );
+  }
+}
+
+function checkUnique(field: string, values: string[], what: string): void {
+  const seen = new Set<string>();
+  for (const value of values) {
+    if (seen.has(value)) throw new WhatsAppValidationError(field, `duplicate ${what} "${value}"`);
+    seen.add(value);
+  }
+}
+
+function checkUrl(field: string, url: string): void {
+  if (!/^https?:\/\/\S+$/i.test(url)) {
+    throw new WhatsAppValidationError(field, `must be an http(s) URL, got "${url}"`);
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -180,9 +706,10 @@ export async function sendButtons(
 export async function sendMedia(
   config: WhatsAppCloudConfig,
   to: string,
-  mediaType: "image" | "audio" | "video" | "document",
+  mediaType: OutboundMediaType,
   media: { link?: string; id?: string; caption?: string; filename?: string },
-  log: Logger
+  log: Logger,
+  options: SendMediaOptions = {}
 ): Promise<SendResult> {
   const body: SendMediaRequest = {
     messaging_product: "whatsapp",
@@ -190,14 +717,119 @@ export async function sendMedia(
     to,
     type: mediaType,
     [mediaType]: media,
+    ...replyContext(options),
   };
-  return sendRequest(config, body as unknown as Record<string, unknown>, log);
+  // The follow-up text shares the media's queue slot so nothing lands between them
+  return enqueueForRecipient(config, to, async () => {
+    const result = await sendRequest(config, body as unknown as Record<string, unknown>, log);
+    if (!result.ok || !options.followUpText) return result;
+
+    const textResult = await sendTextChunks(config, to, options.followUpText, log, {});
+    if (textResult.ok) return result;
+    log.warn(`[whatsapp-cloud] ${mediaType} sent to ${to} but its caption failed: ${textResult.error?.message}`);
+    return { ...result, captionError: textResult.error };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Media upload (for sending local files and buffers)
+// ---------------------------------------------------------------------------
+
+// Meta keeps uploaded media for 30 days; reuse IDs for a bit less than that
+const UPLOAD_CACHE_TTL_MS = 29 * 24 * 60 * 60 * 1000;
+const UPLOAD_CACHE_MAX_ENTRIES = 500;
+
+// Keyed by `${phoneNumberId}:${sha256}` — media IDs are scoped to the number
+const uploadCache = new Map<string, { mediaId: string; expiresAt: number }>();
+
+/**
+ * Upload a buffer or local file via POST /{phone-number-id}/media and return
+ * its media ID. Identical content is uploaded once per phone number; later
+ * calls return the cached ID.
+ *
+ * @param source Buffer, filesystem path or file:// URL
+ */
+export async function uploadMedia(
+  config: WhatsAppCloudConfig,
+  source: Buffer | string,
+  mimeType: string,
+  log: Logger,
+  options: { filename?: string } = {}
+): Promise<UploadMediaResult> {
+  let buffer: Buffer;
+  let filename = options.filename;
+  try {
+    if (Buffer.isBuffer(source)) {
+      buffer = source;
+    } else {
+      const path = source.startsWith("file://") ? fileURLToPath(source) : source;
+      buffer = await readFile(path);
+      filename ??= basename(path);
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    log.error(`[whatsapp-cloud] Cannot read media for upload: ${message}`);
+    return { ok: false, error: new WhatsAppApiError(message, { kind: "media", cause: err }) };
+  }
+
+  const hash = createHash("sha256").update(buffer).digest("hex");
+  const cacheKey = `${config.phoneNumberId}:${hash}`;
+  const cached = uploadCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    log.debug(`[whatsapp-cloud] Reusing uploaded media ${cached.mediaId} (sha256 ${hash.slice(0, 12)})`);
+    return { ok: true, mediaId: cached.mediaId };
+  }
+
+  const form = new FormData();
+  form.append("messaging_product", "whatsapp");
+  form.append("type", mimeType);
+  form.append("file", new Blob([new Uint8Array(buffer)], { type: mimeType }), filename ?? "file");
+
+  try {
+    const { response, error: err } = await fetchWithRetry(
+      config,
+      apiUrl(config, `${config.phoneNumberId}/media`),
+      {
+        method: "POST",
+        // No Content-Type: fetch sets the multipart boundary itself
+        headers: { Authorization: `Bearer ${config.accessToken}` },
+        body: form,
+      },
+      log,
+      // A resent upload would orphan a second copy of the file
+      { idempotent: false }
+    );
+
+    if (!response.ok) {
+      const error = WhatsAppApiError.fromResponse(response.status, response.statusText, err);
+      log.error(`[whatsapp-cloud] Media upload failed (${error.kind}): ${error.describe()}`);
+      return { ok: false, error };
+    }
+
+    const data = (await response.json()) as MediaUploadResponse;
+
+    if (uploadCache.size >= UPLOAD_CACHE_MAX_ENTRIES) {
+      // Map iterates in insertion order — drop the oldest entry
+      uploadCache.delete(uploadCache.keys().next().value!);
+    }
+    uploadCache.set(cacheKey, { mediaId: data.id, expiresAt: Date.now() + UPLOAD_CACHE_TTL_MS });
+
+    log.debug(`[whatsapp-cloud] Uploaded ${buffer.length} bytes as media ${data.id}`);
+    return { ok: true, mediaId: data.id };
+  } catch (err) {
+    const error = WhatsAppApiError.fromNetworkError(err);
+    log.error(`[whatsapp-cloud] Media upload network error: ${error.message}`);
+    return { ok: false, error };
+  }
 }
 
 // ---------------------------------------------------------------------------
 // Read receipts
 // ---------------------------------------------------------------------------
 
+// Read receipts and typing indicators are best-effort and go stale within
+// seconds, so they are sent once without the retry policy.
+
 export async function markAsRead(
   config: WhatsAppCloudConfig,
   messageId: string,
@@ -270,7 +902,7 @@ export async function getMediaUrl(
   const url = apiUrl(config, mediaId);
 
   try {
-    const response = await fetch(url, { headers: headers(config) });
+    const { response } = await fetchWithRetry(config, url, { headers: headers(config) }, log);
     if (!response.ok) {
       log.error(`[whatsapp-cloud] Failed to get media URL: ${response.status}`);
       return null;
@@ -285,57 +917,58 @@ export async function getMediaUrl(
 
 /**
  * Download media binary content from Meta's CDN.
+ * With `maxBytes`, downloads larger than the cap are aborted and return null.
  */
 export async function downloadMedia(
   config: WhatsAppCloudConfig,
   mediaUrl: string,
-  log: Logger
+  log: Logger,
+  options: { maxBytes?: number } = {}
 ): Promise<{ buffer: Buffer; mimeType: string } | null> {
+  const { maxBytes } = options;
   try {
-    const response = await fetch(mediaUrl, {
-      headers: { Authorization: `Bearer ${config.accessToken}` },
-    });
+    const { response } = await fetchWithRetry(
+      config,
+      mediaUrl,
+      { headers: { Authorization: `Bearer ${config.accessToken}` } },
+      log
+    );
     if (!response.ok) {
       log.error(`[whatsapp-cloud] Media download failed: ${response.status}`);
       return null;
     }
-    const buffer = Buffer.from(await response.arrayBuffer());
-    const mimeType = response.headers.get("content-type") ?? "application/octet-stream";
-    return { buffer, mimeType };
-  } catch (err) {
-    log.error(`[whatsapp-cloud] Media download error: ${err}`);
-    return null;
-  }
-}
 
-// ---------------------------------------------------------------------------
-// Helpers
-// ---------------------------------------------------------------------------
-
-/** Split a long message into chunks, respecting word boundaries */
-function splitMessage(text: string, maxLength: number): string[] {
-  if (text.length <= maxLength) return [text];
+    const declared = Number(response.headers.get("content-length") ?? NaN);
+    if (maxBytes !== undefined && declared > maxBytes) {
+      log.warn(`[whatsapp-cloud] Media download skipped: ${declared} bytes exceeds limit of ${maxBytes}`);
+      await response.body?.cancel();
+      return null;
+    }
 
-  const chunks: string[] = [];
-  let remaining = text;
+    const mimeType = response.headers.get("content-type") ?? "application/octet-stream";
 
-  while (remaining.length > maxLength) {
-    // Find last newline or space before the limit
-    let splitIndex = remaining.lastIndexOf("\n", maxLength);
-    if (splitIndex < maxLength * 0.5) {
-      splitIndex = remaining.lastIndexOf(" ", maxLength);
-    }
-    if (splitIndex < maxLength * 0.3) {
-      splitIndex = maxLength; // hard split
+    if (maxBytes === undefined || !response.body) {
+      return { buffer: Buffer.from(await response.arrayBuffer()), mimeType };
     }
 
-    chunks.push(remaining.slice(0, splitIndex).trimEnd());
-    remaining = remaining.slice(splitIndex).trimStart();
-  }
-
-  if (remaining.length > 0) {
-    chunks.push(remaining);
+    // Content-Length may be missing or wrong — enforce the cap while streaming
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+    const reader = response.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      received += value.byteLength;
+      if (received > maxBytes) {
+        await reader.cancel();
+        log.warn(`[whatsapp-cloud] Media download aborted: exceeds limit of ${maxBytes} bytes`);
+        return null;
+      }
+      chunks.push(value);
+    }
+    return { buffer: Buffer.concat(chunks), mimeType };
+  } catch (err) {
+    log.error(`[whatsapp-cloud] Media download error: ${err}`);
+    return null;
   }
-
-  return chunks;
 }
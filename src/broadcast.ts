@@ -0,0 +1,509 @@
+// ---------------------------------------------------------------------------
+// Broadcasts — send an approved template to an opted-in audience
+//
+// The audience is a CSV or JSONL file with one recipient per row and the
+// row's template variables. Every outcome is appended to a JSONL results
+// file as it happens, so an interrupted run picks up where it stopped when
+// started again with the same file. A "sending" line is written before each
+// send: a recipient whose send was cut off mid-request is reported as
+// "unknown" rather than messaged twice.
+// ---------------------------------------------------------------------------
+
+import { appendFileSync, existsSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { extname } from "node:path";
+import { sendTemplate } from "./api.js";
+import { sleep } from "./retry.js";
+import { WhatsAppValidationError } from "./errors.js";
+import { getMessageStatus, STATUS_RANK, type TrackedStatus } from "./status.js";
+import { readStatusLog } from "./status-log.js";
+import {
+  buildTemplateComponents,
+  getCachedTemplate,
+  validateTemplateComponents,
+  type MessageTemplate,
+  type TemplateParams,
+  type TemplateHeaderParams,
+  type TemplateButtonParams,
+} from "./templates.js";
+import type { WhatsAppCloudConfig, Logger, TemplateComponent } from "./types.js";
+
+export const BROADCAST_DEFAULTS = {
+  messagesPerSecond: 10,
+  /** Sends awaiting a response at once */
+  maxInFlight: 20,
+};
+
+/** One recipient of a broadcast */
+export interface AudienceRow {
+  /** Normalized number: country code + national number, digits only */
+  to: string;
+  params: TemplateParams;
+  /** 1-based line of the audience file */
+  line: number;
+}
+
+export interface AudienceParseResult {
+  rows: AudienceRow[];
+  invalid: Array<{ line: number; reason: string }>;
+  /** Rows dropped because their number was already in the audience */
+  duplicates: number;
+}
+
+export type BroadcastStatus =
+  | "accepted"
+  | "sent"
+  | "delivered"
+  | "read"
+  | "failed"
+  | "invalid"
+  | "unknown"
+  | "dry-run";
+
+/** A line of the results file */
+export interface BroadcastResult {
+  to: string;
+  status: BroadcastStatus | "sending";
+  messageId?: string;
+  error?: string;
+  at: number;
+}
+
+export interface BroadcastProgress {
+  total: number;
+  done: number;
+  failed: number;
+}
+
+export interface BroadcastOptions {
+  template: string;
+  language: string;
+  audience: AudienceRow[];
+  /** JSONL results file; also the resume state */
+  resultsPath?: string;
+  /** Pace of the broadcast (default 10/s), on top of the number's messagesPerSecond */
+  messagesPerSecond?: number;
+  /** Check every row against the template, send nothing and write no results */
+  dryRun?: boolean;
+  /** Send again to recipients whose earlier attempt failed */
+  retryFailed?: boolean;
+  /** Wait this long after the last send for delivery statuses to come in */
+  waitForStatusMs?: number;
+  onProgress?: (progress: BroadcastProgress) => void;
+  /** Stop launching sends; in-flight ones finish and are recorded */
+  signal?: AbortSignal;
+}
+
+export interface BroadcastReport {
+  total: number;
+  /** Recipients already handled by an earlier run */
+  skipped: number;
+  counts: Partial<Record<BroadcastStatus, number>>;
+  results: BroadcastResult[];
+  /** Set when the run was stopped before reaching the end of the audience */
+  interrupted?: boolean;
+}
+
+// Statuses a resumed run doesn't send to again
+const FINISHED = new Set(["accepted", "sent", "delivered", "read", "unknown", "sending"]);
+
+// ---------------------------------------------------------------------------
+// Audience
+// ---------------------------------------------------------------------------
+
+/**
+ * Normalize a phone number to digits with the country code. A leading "+"
+ * or "00" marks an international number; with `defaultCountryCode`, every
+ * other number is national and gets that code (dropping a 0 trunk prefix).
+ * Returns undefined for anything that can't be a valid E.164 number.
+ */
+export function normalizePhoneNumber(raw: string, defaultCountryCode?: string): string | undefined {
+  const trimmed = String(raw).trim();
+  let digits = trimmed.replace(/[\s().\-/]/g, "");
+  if (digits.startsWith("+")) {
+    digits = digits.slice(1);
+  } else if (digits.startsWith("00")) {
+    digits = digits.slice(2);
+  } else if (defaultCountryCode) {
+    digits = defaultCountryCode.replace(/\D/g, "") + digits.replace(/^0(?=[1-9])/, "");
+  }
+  return /^[1-9]\d{7,14}$/.test(digits) ? digits : undefined;
+}
+
+/** Read an audience file; the format follows the extension (.csv, or .jsonl / .ndjson) */
+export async function loadAudience(path: string, defaultCountryCode?: string): Promise<AudienceParseResult> {
+  const format = [".jsonl", ".ndjson"].includes(extname(path).toLowerCase()) ? "jsonl" : "csv";
+  return parseAudience(await readFile(path, "utf8"), format, defaultCountryCode);
+}
+
+/**
+ * Parse an audience. Each row needs a `phone` (or `to` / `wa_id`) column.
+ * Other columns are template variables:
+ *
+ * - `1`, `2`, … fill positional body placeholders; any other name fills
+ *   the named placeholder of that name
+ * - `header:text`, `header:image`, `header:video`, `header:document` set the
+ *   header (media by link, or by media ID when the value isn't a URL)
+ * - `button:N` is the URL suffix of button N, `payload:N` the payload of
+ *   quick reply N, `code:N` the code of copy-code button N
+ *
+ * A JSONL row may instead carry a complete `params` object (TemplateParams).
+ */
+export function parseAudience(
+  content: string,
+  format: "csv" | "jsonl",
+  defaultCountryCode?: string
+): AudienceParseResult {
+  const records = format === "csv" ? csvRecords(content) : jsonlRecords(content);
+  const result: AudienceParseResult = { rows: [], invalid: [], duplicates: 0 };
+  const seen = new Set<string>();
+
+  for (const { line, record, error } of records) {
+    if (error || !record) {
+      result.invalid.push({ line, reason: error ?? "unreadable row" });
+      continue;
+    }
+    const phone = record.phone ?? record.to ?? record.wa_id;
+    const to = phone === undefined ? undefined : normalizePhoneNumber(String(phone), defaultCountryCode);
+    if (!to) {
+      result.invalid.push({ line, reason: phone === undefined ? "no phone column" : `invalid phone number "${phone}"` });
+      continue;
+    }
+    if (seen.has(to)) {
+      result.duplicates++;
+      continue;
+    }
+    seen.add(to);
+
+    try {
+      result.rows.push({ to, params: rowParams(record), line });
+    } catch (err) {
+      result.invalid.push({ line, reason: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  return result;
+}
+
+type AudienceRecord = Record<string, unknown>;
+
+function rowParams(record: AudienceRecord): TemplateParams {
+  if (record.params && typeof record.params === "object") return record.params as TemplateParams;
+
+  const positional: Array<[number, string]> = [];
+  const named: Record<string, string> = {};
+  const buttons: TemplateButtonParams[] = [];
+  let header: TemplateHeaderParams | undefined;
+
+  for (const [key, raw] of Object.entries(record)) {
+    if (["phone", "to", "wa_id"].includes(key) || raw === undefined || raw === null || raw === "") continue;
+    const value = String(raw);
+    const [kind, arg] = key.split(":");
+
+    if (/^\d+$/.test(key)) {
+      positional.push([Number(key), value]);
+    } else if (kind === "header" && arg === "text") {
+      header = { type: "text", text: value };
+    } else if (kind === "header" && (arg === "image" || arg === "video" || arg === "document")) {
+      header = /^https?:\/\//.test(value) ? { type: arg, link: value } : { type: arg, id: value };
+    } else if ((kind === "button" || kind === "payload" || kind === "code") && /^\d+$/.test(arg ?? "")) {
+      const index = Number(arg);
+      buttons.push(
+        kind === "button"
+          ? { type: "url", index, text: value }
+          : kind === "payload"
+            ? { type: "quick_reply", index, payload: value }
+            : { type: "copy_code", index, code: value }
+      );
+    } else if (arg === undefined) {
+      named[key] = value;
+    } else {
+      throw new Error(`unknown column "${key}"`);
+    }
+  }
+
+  if (positional.length && Object.keys(named).length) {
+    throw new Error("mixes numbered and named variables");
+  }
+  const body = positional.length
+    ? positional.sort(([a], [b]) => a - b).map(([, value]) => value)
+    : Object.keys(named).length
+      ? named
+      : undefined;
+
+  return {
+    ...(header ? { header } : {}),
+    ...(body ? { body } : {}),
+    ...(buttons.length ? { buttons } : {}),
+  };
+}
+
+function jsonlRecords(content: string): Array<{ line: number; record?: AudienceRecord; error?: string }> {
+  const records: Array<{ line: number; record?: AudienceRecord; error?: string }> = [];
+  content.split(/\r?\n/).forEach((text, index) => {
+    if (!text.trim()) return;
+    try {
+      const record = JSON.parse(text);
+      records.push(
+        record && typeof record === "object" && !Array.isArray(record)
+          ? { line: index + 1, record }
+          : { line: index + 1, error: "not a JSON object" }
+      );
+    } catch {
+      records.push({ line: index + 1, error: "invalid JSON" });
+    }
+  });
+  return records;
+}
+
+/** RFC 4180 CSV with a header row; quoted fields may contain commas, quotes and newlines */
+function csvRecords(content: string): Array<{ line: number; record?: AudienceRecord; error?: string }> {
+  const rows: Array<{ line: number; fields: string[] }> = [];
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const text = content.replace(/^﻿/, "");
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        if (c === "\n") line++;
+        field += c;
+      }
+    } else if (c === '"' && field === "") {
+      quoted = true;
+    } else if (c === ",") {
+      fields.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      fields.push(field);
+      rows.push({ line: rowLine, fields });
+      fields = [];
+      field = "";
+      rowLine = ++line;
+    } else {
+      field += c;
+    }
+  }
+  if (field || fields.length) {
+    fields.push(field);
+    rows.push({ line: rowLine, fields });
+  }
+
+  const nonEmpty = rows.filter((r) => r.fields.some((f) => f.trim()));
+  const [header, ...data] = nonEmpty;
+  if (!header) return [];
+  const columns = header.fields.map((name) => name.trim());
+
+  return data.map(({ line, fields }) => {
+    if (fields.length !== columns.length) {
+      return { line, error: `has ${fields.length} fields, the header has ${columns.length}` };
+    }
+    return { line, record: Object.fromEntries(columns.map((name, i) => [name, fields[i].trim()])) };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Sending
+// ---------------------------------------------------------------------------
+
+/**
+ * Send the template to every row of the audience, paced to
+ * `messagesPerSecond`. Rows that don't fit the template definition are
+ * recorded as "invalid" and not sent. When it's done, the results file is
+ * rewritten with one line per recipient and the latest known delivery status.
+ */
+export async function runBroadcast(
+  config: WhatsAppCloudConfig,
+  options: BroadcastOptions,
+  log: Logger
+): Promise<BroadcastReport> {
+  const { template, language, audience } = options;
+  const rate = options.messagesPerSecond ?? BROADCAST_DEFAULTS.messagesPerSecond;
+  if (!Number.isFinite(rate) || rate <= 0) {
+    throw new WhatsAppValidationError("messagesPerSecond", "must be a positive number");
+  }
+  const definition = await getCachedTemplate(config, template, language, log);
+  if (!definition.ok || !definition.template) {
+    throw definition.error ?? new Error(`Template ${template} (${language}) not found`);
+  }
+
+  const previous = options.resultsPath && !options.dryRun ? readResults(options.resultsPath) : new Map();
+  const results = new Map<string, BroadcastResult>(previous);
+  const record = (result: BroadcastResult) => {
+    results.set(result.to, result);
+    if (options.resultsPath && !options.dryRun) appendFileSync(options.resultsPath, JSON.stringify(result) + "\n");
+  };
+
+  const pending = audience.filter((row) => {
+    const status = previous.get(row.to)?.status;
+    if (!status) return true;
+    return status === "failed" ? options.retryFailed === true : !FINISHED.has(status);
+  });
+  const skipped = audience.length - pending.length;
+  if (skipped > 0) log.info(`[whatsapp-cloud] Broadcast resuming: ${skipped} recipients already handled`);
+
+  const progress: BroadcastProgress = { total: audience.length, done: skipped, failed: 0 };
+  const interval = 1000 / rate;
+  const inFlight = new Set<Promise<void>>();
+  let nextSendAt = Date.now();
+  let interrupted = false;
+
+  const finish = (result: BroadcastResult) => {
+    record(result);
+    progress.done++;
+    if (result.status === "failed" || result.status === "invalid") progress.failed++;
+    options.onProgress?.({ ...progress });
+  };
+
+  for (const row of pending) {
+    if (options.signal?.aborted) {
+      interrupted = true;
+      break;
+    }
+
+    const components = checkRow(definition.template, row);
+    if (typeof components === "string") {
+      finish({ to: row.to, status: "invalid", error: components, at: Date.now() });
+      continue;
+    }
+    if (options.dryRun) {
+      finish({ to: row.to, status: "dry-run", at: Date.now() });
+      continue;
+    }
+
+    if (inFlight.size >= BROADCAST_DEFAULTS.maxInFlight) await Promise.race(inFlight);
+    const wait = nextSendAt - Date.now();
+    if (wait > 0) await sleep(wait);
+    nextSendAt = Math.max(nextSendAt, Date.now()) + interval;
+
+    record({ to: row.to, status: "sending", at: Date.now() });
+    const send = sendTemplate(config, row.to, template, language, components, log)
+      .then((result) => {
+        finish({
+          to: row.to,
+          status: result.ok ? "accepted" : "failed",
+          ...(result.messageId ? { messageId: result.messageId } : {}),
+          ...(result.error ? { error: result.error.describe() } : {}),
+          at: Date.now(),
+        });
+      })
+      .finally(() => inFlight.delete(send));
+    inFlight.add(send);
+  }
+  await Promise.all(inFlight);
+
+  let lookup = deliveryStatusLookup(config);
+  if (options.waitForStatusMs && !options.dryRun) {
+    lookup = await waitForFinalStatuses(config, results, options.waitForStatusMs);
+  }
+
+  const final = audience.map((row) => withDeliveryStatus(results.get(row.to), lookup)).filter((r) => r !== undefined);
+  if (options.resultsPath && !options.dryRun) writeResults(options.resultsPath, final);
+
+  const counts: BroadcastReport["counts"] = {};
+  for (const result of final) {
+    const status = result.status === "sending" ? "unknown" : result.status;
+    counts[status] = (counts[status] ?? 0) + 1;
+  }
+  log.info(
+    `[whatsapp-cloud] Broadcast of ${template}: ${Object.entries(counts)
+      .map(([status, n]) => `${n} ${status}`)
+      .join(", ")}${interrupted ? " (interrupted)" : ""}`
+  );
+
+  return { total: audience.length, skipped, counts, results: final, ...(interrupted ? { interrupted } : {}) };
+}
+
+/** The components for a row, or why the row doesn't fit the template */
+function checkRow(template: MessageTemplate, row: AudienceRow): TemplateComponent[] | string {
+  try {
+    const components = buildTemplateComponents(row.params);
+    validateTemplateComponents(template, components);
+    return components;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+type DeliveryStatusLookup = (messageId: string) => { status: TrackedStatus; error?: string } | undefined;
+
+/**
+ * Delivery statuses known to this process: the in-memory tracker when the
+ * webhook server runs here, and the status log the gateway writes when
+ * `statusLog` is on. The later of the two wins.
+ */
+function deliveryStatusLookup(config: WhatsAppCloudConfig): DeliveryStatusLookup {
+  const logged = config.statusLog ? readStatusLog(config) : undefined;
+  return (messageId) => {
+    const tracked = getMessageStatus(messageId);
+    const fromLog = logged?.get(messageId);
+    if (tracked && (!fromLog || STATUS_RANK[tracked.status] >= STATUS_RANK[fromLog.status])) {
+      return { status: tracked.status, ...(tracked.error ? { error: tracked.error.describe() } : {}) };
+    }
+    return fromLog;
+  };
+}
+
+/** Fill in the delivery status the webhooks reported for an accepted message */
+function withDeliveryStatus(
+  result: BroadcastResult | undefined,
+  lookup: DeliveryStatusLookup
+): BroadcastResult | undefined {
+  if (!result) return undefined;
+  if (result.status === "sending") return { ...result, status: "unknown", error: "interrupted while sending" };
+  if (!result.messageId || !(result.status in STATUS_RANK)) return result;
+
+  const delivery = lookup(result.messageId);
+  if (!delivery || STATUS_RANK[delivery.status] <= STATUS_RANK[result.status as TrackedStatus]) return result;
+  return { ...result, status: delivery.status, ...(delivery.error ? { error: delivery.error } : {}) };
+}
+
+async function waitForFinalStatuses(
+  config: WhatsAppCloudConfig,
+  results: Map<string, BroadcastResult>,
+  timeoutMs: number
+): Promise<DeliveryStatusLookup> {
+  const deadline = Date.now() + timeoutMs;
+  let lookup = deliveryStatusLookup(config);
+  const open = () =>
+    [...results.values()].some((r) => {
+      const status = r.messageId ? lookup(r.messageId)?.status : undefined;
+      return r.messageId && status !== "delivered" && status !== "read" && status !== "failed";
+    });
+  while (open() && Date.now() < deadline) {
+    await sleep(Math.min(1000, deadline - Date.now()));
+    lookup = deliveryStatusLookup(config);
+  }
+  return lookup;
+}
+
+/** Latest result per recipient from a results file */
+function readResults(path: string): Map<string, BroadcastResult> {
+  const results = new Map<string, BroadcastResult>();
+  if (!existsSync(path)) return results;
+  for (const line of readFileSync(path, "utf8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const result = JSON.parse(line) as BroadcastResult;
+      if (result.to && result.status !== "dry-run") results.set(result.to, result);
+    } catch {
+      // A line cut short by a crash
+    }
+  }
+  return results;
+}
+
+function writeResults(path: string, results: BroadcastResult[]): void {
+  const tmp = `${path}.tmp`;
+  writeFileSync(tmp, results.map((r) => JSON.stringify(r) + "\n").join(""));
+  renameSync(tmp, path);
+}
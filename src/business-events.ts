@@ -0,0 +1,213 @@
+// ---------------------------------------------------------------------------
+// Business account events — template reviews, quality ratings, messaging
+// limits and account restrictions, delivered on webhook fields other than
+// "messages". Problems are kept per phone number until a later event clears
+// them, and reported as channel status issues.
+// ---------------------------------------------------------------------------
+
+import type {
+  TemplateStatusUpdateValue,
+  TemplateQualityUpdateValue,
+  TemplateCategoryUpdateValue,
+  PhoneNumberQualityUpdateValue,
+  AccountUpdateValue,
+  BusinessCapabilityUpdateValue,
+} from "./types.js";
+
+/** A parsed business account event; `businessAccountId` is the WABA it concerns */
+export type WhatsAppBusinessEvent =
+  | { field: "message_template_status_update"; businessAccountId: string; value: TemplateStatusUpdateValue }
+  | { field: "message_template_quality_update"; businessAccountId: string; value: TemplateQualityUpdateValue }
+  | { field: "template_category_update"; businessAccountId: string; value: TemplateCategoryUpdateValue }
+  | { field: "phone_number_quality_update"; businessAccountId: string; value: PhoneNumberQualityUpdateValue }
+  | { field: "account_update"; businessAccountId: string; value: AccountUpdateValue }
+  | { field: "business_capability_update"; businessAccountId: string; value: BusinessCapabilityUpdateValue };
+
+export type BusinessEventField = WhatsAppBusinessEvent["field"];
+
+/** Something wrong with the account that an operator should look at */
+export interface BusinessIssue {
+  /** What the issue is about, e.g. "template:order_shipped:en_US" */
+  subject: string;
+  message: string;
+  /** When the event was received (ms) */
+  at: number;
+}
+
+/** Fields that carry the name of a template */
+const TEMPLATE_FIELDS = new Set<string>([
+  "message_template_status_update",
+  "message_template_quality_update",
+  "template_category_update",
+]);
+
+const TEMPLATE_PROBLEMS = new Set(["REJECTED", "PAUSED", "DISABLED", "FLAGGED", "PENDING_DELETION"]);
+const QUALITY_PROBLEMS = new Set(["YELLOW", "RED"]);
+
+/** Open issues per phone number ID, keyed by subject */
+const issues = new Map<string, Map<string, BusinessIssue>>();
+
+/**
+ * Parse the value of a webhook change. Returns undefined for fields this
+ * module doesn't know and for values missing the fields it relies on.
+ */
+export function parseBusinessEvent(
+  field: string,
+  businessAccountId: string,
+  value: unknown
+): WhatsAppBusinessEvent | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const v = value as Record<string, unknown>;
+
+  if (TEMPLATE_FIELDS.has(field) && typeof v.message_template_name !== "string") return undefined;
+  if ((field === "phone_number_quality_update" || field === "account_update") && typeof v.event !== "string") {
+    return undefined;
+  }
+
+  switch (field) {
+    case "message_template_status_update":
+    case "message_template_quality_update":
+    case "template_category_update":
+    case "phone_number_quality_update":
+    case "account_update":
+    case "business_capability_update":
+      return { field, businessAccountId, value } as WhatsAppBusinessEvent;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * One-line description of an event, and whether it signals a problem
+ * (a rejected template, a red quality rating, a restricted account, …).
+ */
+export function describeBusinessEvent(event: WhatsAppBusinessEvent): {
+  message: string;
+  problem: boolean;
+  /** The event resolves an earlier problem (unflagged, approved, reinstated) */
+  resolved: boolean;
+} {
+  const { problem, message } = assess(event);
+  return { message, problem: problem === true, resolved: problem === false };
+}
+
+/** Update the open issues of a phone number with an event */
+export function recordBusinessEvent(phoneNumberId: string, event: WhatsAppBusinessEvent, at: number = Date.now()): void {
+  const { subject, problem, message } = assess(event);
+  if (!subject || problem === undefined) return;
+
+  let open = issues.get(phoneNumberId);
+  if (problem) {
+    if (!open) issues.set(phoneNumberId, (open = new Map()));
+    open.set(subject, { subject, message, at });
+  } else {
+    open?.delete(subject);
+  }
+}
+
+/** Open issues of a phone number, oldest first */
+export function getBusinessIssues(phoneNumberId: string): BusinessIssue[] {
+  return [...(issues.get(phoneNumberId)?.values() ?? [])].sort((a, b) => a.at - b.at);
+}
+
+/**
+ * `subject` identifies what the event is about. `problem` is true when it
+ * opens an issue, false when it resolves one and undefined when it's
+ * informational only.
+ */
+function assess(event: WhatsAppBusinessEvent): { subject?: string; problem?: boolean; message: string } {
+  switch (event.field) {
+    case "message_template_status_update": {
+      const v = event.value;
+      const name = `${v.message_template_name} (${v.message_template_language})`;
+      const state = v.event.toLowerCase().replace(/_/g, " ");
+      const reason = v.reason && v.reason !== "NONE" ? `: ${v.reason}` : "";
+      return {
+        subject: `template:${v.message_template_name}:${v.message_template_language}`,
+        problem: TEMPLATE_PROBLEMS.has(v.event),
+        message: `Template ${name} ${state.startsWith("pending") ? "is" : "was"} ${state}${reason}`,
+      };
+    }
+
+    case "message_template_quality_update": {
+      const v = event.value;
+      const name = `${v.message_template_name} (${v.message_template_language})`;
+      return {
+        subject: `template-quality:${v.message_template_name}:${v.message_template_language}`,
+        problem: QUALITY_PROBLEMS.has(v.new_quality_score),
+        message: `Template ${name} quality changed from ${v.previous_quality_score} to ${v.new_quality_score}`,
+      };
+    }
+
+    case "template_category_update": {
+      const v = event.value;
+      return {
+        message: `Template ${v.message_template_name} (${v.message_template_language}) was recategorized from ${v.previous_category} to ${v.new_category}`,
+      };
+    }
+
+    case "phone_number_quality_update": {
+      const v = event.value;
+      const number = v.display_phone_number;
+      switch (v.event) {
+        case "FLAGGED":
+          return { subject: "phone-quality", problem: true, message: `Number ${number} quality dropped to RED` };
+        case "UNFLAGGED":
+          return { subject: "phone-quality", problem: false, message: `Number ${number} is no longer flagged for quality` };
+        case "DOWNGRADE":
+          return {
+            subject: "phone-limit",
+            problem: true,
+            message: `Number ${number} messaging limit lowered to ${v.current_limit}`,
+          };
+        case "UPGRADE":
+          return { subject: "phone-limit", problem: false, message: `Number ${number} messaging limit raised to ${v.current_limit}` };
+        default:
+          return { message: `Number ${number} quality update: ${v.event} (limit ${v.current_limit})` };
+      }
+    }
+
+    case "account_update": {
+      const v = event.value;
+      switch (v.event) {
+        case "ACCOUNT_VIOLATION":
+          return {
+            subject: "account-violation",
+            problem: true,
+            message: `Business account violation: ${v.violation_info?.violation_type ?? "unknown"}`,
+          };
+        case "ACCOUNT_RESTRICTION": {
+          const restrictions = v.restriction_info ?? [];
+          return {
+            subject: "account-restriction",
+            problem: restrictions.length > 0,
+            message: restrictions.length
+              ? `Business account restricted: ${restrictions.map((r) => r.restriction_type).join(", ")}`
+              : "Business account restrictions lifted",
+          };
+        }
+        case "DISABLED_UPDATE": {
+          const state = v.ban_info?.waba_ban_state ?? "unknown";
+          return {
+            subject: "account-disabled",
+            problem: state !== "REINSTATE",
+            message:
+              state === "REINSTATE"
+                ? "Business account reinstated"
+                : `Business account ban state: ${state}${v.ban_info?.waba_ban_date ? ` (${v.ban_info.waba_ban_date})` : ""}`,
+          };
+        }
+        default:
+          return { message: `Business account update: ${v.event}` };
+      }
+    }
+
+    case "business_capability_update": {
+      const v = event.value;
+      const limits = Object.entries(v)
+        .map(([key, limit]) => `${key}=${limit}`)
+        .join(", ");
+      return { message: `Business capabilities updated: ${limits || "(none)"}` };
+    }
+  }
+}
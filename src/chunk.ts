@@ -0,0 +1,160 @@
+// ---------------------------------------------------------------------------
+// Chunking — splits long text into messages without breaking its structure
+//
+// Lengths are counted in grapheme clusters, so an emoji or a flag is never
+// cut in half. Breaks prefer paragraphs, then lines, sentences and words.
+// A code fence or *bold* / _italic_ / ~strike~ span that straddles a break
+// is closed at the end of one chunk and reopened at the start of the next.
+// ---------------------------------------------------------------------------
+
+/** WhatsApp's limit for a text message body */
+export const TEXT_MAX_LENGTH = 4096;
+
+export interface ChunkOptions {
+  /** Maximum grapheme clusters per chunk (default TEXT_MAX_LENGTH) */
+  maxLength?: number;
+  /** Append "(1/3)"-style markers when the text needs more than one chunk */
+  markers?: boolean;
+}
+
+const FENCE = "```";
+const INLINE_MARKERS = ["*", "_", "~"];
+
+/** Formatting still open at a chunk boundary */
+interface SpanState {
+  fence: boolean;
+  inline: string[];
+}
+
+const segmenter = new Intl.Segmenter(undefined, { granularity: "grapheme" });
+
+/** Split text into grapheme clusters */
+export function graphemes(text: string): string[] {
+  return Array.from(segmenter.segment(text), (s) => s.segment);
+}
+
+/** Length of text in grapheme clusters */
+export function graphemeLength(text: string): number {
+  let count = 0;
+  for (const _ of segmenter.segment(text)) count++;
+  return count;
+}
+
+/** Split text into chunks of at most `maxLength` grapheme clusters */
+export function chunkMessage(text: string, options: ChunkOptions = {}): string[] {
+  const maxLength = options.maxLength ?? TEXT_MAX_LENGTH;
+  const chars = graphemes(text.replace(/\r\n?/g, "\n"));
+  if (chars.length <= maxLength) return [text];
+  if (!options.markers) return splitChunks(chars, maxLength);
+
+  // Reserve room for the marker; retry with wider numbers if the count outgrows it
+  for (let digits = 1; ; digits++) {
+    const reserve = `\n(${"9".repeat(digits)}/${"9".repeat(digits)})`.length;
+    const chunks = splitChunks(chars, maxLength - reserve);
+    if (String(chunks.length).length <= digits) {
+      return chunks.map((chunk, index) => `${chunk}\n(${index + 1}/${chunks.length})`);
+    }
+  }
+}
+
+function splitChunks(chars: string[], limit: number): string[] {
+  const chunks: string[] = [];
+  let state: SpanState = { fence: false, inline: [] };
+  let pos = 0;
+
+  while (pos < chars.length) {
+    const prefix = (state.fence ? `${FENCE}\n` : "") + state.inline.join("");
+
+    if (chars.length - pos <= limit - prefix.length) {
+      chunks.push(prefix + chars.slice(pos).join(""));
+      break;
+    }
+
+    // Break as late as possible, then pull back if the closing markers don't fit
+    let room = limit - prefix.length;
+    let end: number;
+    let piece: string;
+    let next: SpanState;
+    let close: string;
+    for (;;) {
+      end = findBreak(chars, pos, Math.max(1, room));
+      piece = chars.slice(pos, end).join("").trimEnd();
+      next = scanSpans(piece, state, chars.slice(end).join(""));
+      close = [...next.inline].reverse().join("") + (next.fence ? `\n${FENCE}` : "");
+      const overflow = prefix.length + graphemeLength(piece) + close.length - limit;
+      if (overflow <= 0 || room <= 1) break;
+      room -= overflow;
+    }
+    chunks.push(prefix + piece + close);
+
+    state = next;
+    pos = end;
+    while (pos < chars.length && /^\s+$/.test(chars[pos])) pos++;
+  }
+
+  return chunks;
+}
+
+/** Index to break at: the last paragraph, line, sentence or word boundary that fits */
+function findBreak(chars: string[], start: number, room: number): number {
+  const limit = Math.min(chars.length, start + room);
+  const boundaries: Array<[test: (i: number) => boolean, minFill: number]> = [
+    [(i) => chars[i] === "\n" && chars[i - 1] === "\n", 0.5],
+    [(i) => chars[i] === "\n", 0.5],
+    [(i) => chars[i] === " " && /[.!?]/.test(chars[i - 1]), 0.3],
+    [(i) => /^\s+$/.test(chars[i]), 0.3],
+  ];
+
+  for (const [isBoundary, minFill] of boundaries) {
+    for (let i = limit; i - start >= room * minFill && i > start; i--) {
+      if (i < chars.length && isBoundary(i)) return i;
+    }
+  }
+  return limit;
+}
+
+/** Formatting left open after `piece`, given what was open before it */
+function scanSpans(piece: string, before: SpanState, rest: string): SpanState {
+  let fence = before.fence;
+  let inline = [...before.inline];
+
+  for (const line of piece.split("\n")) {
+    if (line.trimStart().startsWith(FENCE)) {
+      fence = !fence;
+      inline = [];
+      continue;
+    }
+    if (fence) continue;
+    // Spans don't carry across paragraphs
+    if (!line.trim()) {
+      inline = [];
+      continue;
+    }
+
+    let inCode = false;
+    for (let i = 0; i < line.length; i++) {
+      const c = line[i];
+      if (c === "`") inCode = !inCode;
+      if (inCode || !INLINE_MARKERS.includes(c)) continue;
+
+      const prev = line[i - 1] ?? " ";
+      const next = line[i + 1] ?? " ";
+      if (inline.includes(c) && /\S/.test(prev) && !/\w/.test(next)) {
+        inline = inline.filter((m) => m !== c);
+      } else if (!inline.includes(c) && !/\w/.test(prev) && /\S/.test(next)) {
+        inline.push(c);
+      }
+    }
+  }
+
+  // A marker only opened a span if it gets closed later in the same paragraph
+  const paragraph = fence ? "" : rest.split(/\n\s*\n/)[0];
+  inline = inline.filter((m) => closesIn(m, paragraph));
+
+  return { fence, inline };
+}
+
+function closesIn(marker: string, text: string): boolean {
+  const escaped = marker.replace(/[*~]/g, "\\$&");
+  return new RegExp(`\\S${escaped}(?!\\w)`).test(text);
+}
@@ -0,0 +1,166 @@
+// ---------------------------------------------------------------------------
+// Customer service window — tracks the 24h free-form window per contact
+// ---------------------------------------------------------------------------
+
+import { sendTemplate } from "./api.js";
+import { WhatsAppApiError } from "./errors.js";
+import type { WhatsAppCloudConfig, SendResult, Logger } from "./types.js";
+
+/** Free-form messages are allowed for 24h after the user's last message */
+export const SERVICE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/** A closed window gets at most one re-engagement template per this period */
+export const REENGAGEMENT_COOLDOWN_MS = SERVICE_WINDOW_MS;
+
+/** "unknown" means no inbound message was seen since the store was created */
+export type WindowState = "open" | "closed" | "unknown";
+
+/**
+ * Storage for the last inbound timestamp per business number + contact.
+ * The default keeps it in memory; plug in a persistent or shared store
+ * (Redis, a database) to survive restarts.
+ */
+export interface ConversationWindowStore {
+  get(key: string): Promise<number | undefined>;
+  set(key: string, lastInboundAt: number): Promise<void>;
+}
+
+function createMemoryStore(): ConversationWindowStore {
+  const map = new Map<string, number>();
+  return {
+    get: async (key) => map.get(key),
+    set: async (key, value) => {
+      map.set(key, value);
+    },
+  };
+}
+
+let store: ConversationWindowStore = createMemoryStore();
+
+// Re-engagement templates sent per window key: the closed window they were for and when
+const reengagements = new Map<string, { lastInboundAt: number | undefined; sentAt: number }>();
+
+export function setConversationWindowStore(next: ConversationWindowStore): void {
+  store = next;
+}
+
+function windowKey(phoneNumberId: string, contact: string): string {
+  return `${phoneNumberId}:${contact.replace(/[^0-9]/g, "")}`;
+}
+
+/** Record an inbound message; called by the webhook for every message */
+export async function recordInboundMessage(
+  phoneNumberId: string,
+  contact: string,
+  at: number = Date.now()
+): Promise<void> {
+  // A missing or malformed webhook timestamp means "just now"
+  if (!Number.isFinite(at)) at = Date.now();
+  const key = windowKey(phoneNumberId, contact);
+  const previous = await store.get(key);
+  // Webhooks can arrive out of order — never move the window backwards
+  if (previous === undefined || at > previous) {
+    await store.set(key, at);
+    reengagements.delete(key);
+  }
+}
+
+/** Mark the window closed, e.g. after Meta rejected a send with 131047 */
+async function markWindowClosed(phoneNumberId: string, contact: string, now: number): Promise<void> {
+  if ((await getWindowState(phoneNumberId, contact, now)) === "closed") return;
+  await store.set(windowKey(phoneNumberId, contact), now - SERVICE_WINDOW_MS - 1);
+}
+
+export async function getWindowState(
+  phoneNumberId: string,
+  contact: string,
+  now: number = Date.now()
+): Promise<WindowState> {
+  const lastInboundAt = await store.get(windowKey(phoneNumberId, contact));
+  if (lastInboundAt === undefined) return "unknown";
+  return now - lastInboundAt < SERVICE_WINDOW_MS ? "open" : "closed";
+}
+
+/**
+ * Send a free-form message, respecting the customer service window.
+ *
+ * When the window is known to be closed — or Meta rejects the send with a
+ * re-engagement error — the message is not delivered and the result carries
+ * a "re-engagement" WhatsAppApiError. The configured `reengagementTemplate`
+ * is sent in its place, at most once per closed window (again after
+ * REENGAGEMENT_COOLDOWN_MS without a reply); its message ID is returned as
+ * `reengagementMessageId`.
+ */
+export async function sendWithinWindow(
+  config: WhatsAppCloudConfig,
+  to: string,
+  send: () => Promise<SendResult>,
+  log: Logger
+): Promise<SendResult> {
+  const now = Date.now();
+
+  if ((await getWindowState(config.phoneNumberId, to, now)) === "closed") {
+    return sendReengagement(config, to, log, now);
+  }
+
+  const result = await send();
+  if (result.error?.kind === "re-engagement") {
+    await markWindowClosed(config.phoneNumberId, to, now);
+    return sendReengagement(config, to, log, now, result.error);
+  }
+  return result;
+}
+
+async function sendReengagement(
+  config: WhatsAppCloudConfig,
+  to: string,
+  log: Logger,
+  now: number,
+  cause?: WhatsAppApiError
+): Promise<SendResult> {
+  const template = config.reengagementTemplate;
+  const reason = `The 24-hour customer service window with ${to} is closed; free-form messages can't be delivered`;
+  const closedWindowError = (detail: string, templateError?: WhatsAppApiError) =>
+    new WhatsAppApiError(`${reason}. ${detail}`, {
+      kind: "re-engagement",
+      code: cause?.code ?? 131047,
+      fbtraceId: cause?.fbtraceId,
+      cause: templateError ?? cause,
+    });
+
+  if (!template?.name) {
+    log.warn(`[whatsapp-cloud] ${reason} and no reengagementTemplate is configured`);
+    return {
+      ok: false,
+      error: closedWindowError("Configure channels.whatsapp-cloud.reengagementTemplate or send an approved template."),
+    };
+  }
+
+  const key = windowKey(config.phoneNumberId, to);
+  const lastInboundAt = await store.get(key);
+  const previous = reengagements.get(key);
+  if (previous && previous.lastInboundAt === lastInboundAt && now - previous.sentAt < REENGAGEMENT_COOLDOWN_MS) {
+    log.debug?.(`[whatsapp-cloud] ${reason}; template "${template.name}" was already sent, waiting for a reply`);
+    return {
+      ok: false,
+      error: closedWindowError(`Template "${template.name}" was already sent; waiting for the contact to reply.`),
+    };
+  }
+
+  // Reserved before sending so concurrent parts of one reply don't each send the template
+  reengagements.set(key, { lastInboundAt, sentAt: now });
+  log.warn(`[whatsapp-cloud] ${reason} — sending template "${template.name}" instead`);
+  const result = await sendTemplate(config, to, template.name, template.language ?? "en", template.components, log);
+  if (!result.ok) {
+    reengagements.delete(key);
+    return {
+      ok: false,
+      error: closedWindowError(`Sending template "${template.name}" failed too.`, result.error),
+    };
+  }
+  return {
+    ok: false,
+    error: closedWindowError(`Template "${template.name}" was sent to invite a reply.`),
+    reengagementMessageId: result.messageId,
+  };
+}
@@ -1,4 +1,12 @@
-import { createHmac, timingSafeEqual } from "node:crypto";
+import {
+  createHmac,
+  timingSafeEqual,
+  createPrivateKey,
+  privateDecrypt,
+  createDecipheriv,
+  createCipheriv,
+  constants,
+} from "node:crypto";
 
 /**
  * Verify the X-Hub-Signature-256 header from Meta webhook requests.
@@ -30,3 +38,67 @@ export function verifyWebhookSignature(
     return false;
   }
 }
+
+// ---------------------------------------------------------------------------
+// WhatsApp Flows data endpoint encryption
+// ---------------------------------------------------------------------------
+
+/** Body of a data endpoint request, as posted by WhatsApp (all base64) */
+export interface EncryptedFlowRequest {
+  encrypted_flow_data: string;
+  encrypted_aes_key: string;
+  initial_vector: string;
+}
+
+/** A decrypted request plus the key material needed to encrypt the reply */
+export interface DecryptedFlowRequest {
+  body: unknown;
+  aesKey: Buffer;
+  iv: Buffer;
+}
+
+const GCM_TAG_LENGTH = 16;
+
+/**
+ * Decrypt a Flows data endpoint request. The AES key is encrypted with the
+ * business's RSA public key (OAEP, SHA-256); the payload is AES-GCM with the
+ * auth tag appended. Throws if the key or payload can't be decrypted.
+ *
+ * @see https://developers.facebook.com/docs/whatsapp/flows/guides/implementingyourflowendpoint
+ */
+export function decryptFlowRequest(
+  request: EncryptedFlowRequest,
+  privateKeyPem: string,
+  passphrase?: string
+): DecryptedFlowRequest {
+  const aesKey = privateDecrypt(
+    {
+      key: createPrivateKey({ key: privateKeyPem, ...(passphrase ? { passphrase } : {}) }),
+      padding: constants.RSA_PKCS1_OAEP_PADDING,
+      oaepHash: "sha256",
+    },
+    Buffer.from(request.encrypted_aes_key, "base64")
+  );
+  const iv = Buffer.from(request.initial_vector, "base64");
+  const data = Buffer.from(request.encrypted_flow_data, "base64");
+
+  const decipher = createDecipheriv(`aes-${aesKey.length * 8}-gcm` as "aes-128-gcm", aesKey, iv);
+  decipher.setAuthTag(data.subarray(-GCM_TAG_LENGTH));
+  const plain = Buffer.concat([decipher.update(data.subarray(0, -GCM_TAG_LENGTH)), decipher.final()]);
+
+  return { body: JSON.parse(plain.toString("utf8")), aesKey, iv };
+}
+
+/**
+ * Encrypt a data endpoint response with the request's AES key and the
+ * bitwise-inverted IV, as WhatsApp expects. Returns the base64 response body.
+ */
+export function encryptFlowResponse(response: unknown, aesKey: Buffer, iv: Buffer): string {
+  const flippedIv = Buffer.from(iv.map((byte) => ~byte & 0xff));
+  const cipher = createCipheriv(`aes-${aesKey.length * 8}-gcm` as "aes-128-gcm", aesKey, flippedIv);
+  return Buffer.concat([
+    cipher.update(JSON.stringify(response), "utf8"),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]).toString("base64");
+}
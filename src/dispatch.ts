@@ -0,0 +1,152 @@
+// ---------------------------------------------------------------------------
+// Inbound dispatch — per-sender ordering, burst coalescing, concurrency cap
+// ---------------------------------------------------------------------------
+
+import type { WhatsAppCloudConfig, Logger } from "./types.js";
+import { CONFIG_DEFAULTS } from "./types.js";
+import type { ParsedInboundMessage, InboundMessageHandler } from "./webhook.js";
+
+interface SenderState {
+  /** Messages waiting for the debounce window to close */
+  pending: ParsedInboundMessage[];
+  /** Callers to settle once the pending messages have been handled */
+  waiters: Array<{ resolve: () => void; reject: (err: unknown) => void }>;
+  timer?: ReturnType<typeof setTimeout>;
+  /** When the oldest pending message arrived, for the debounce cap */
+  firstPendingAt?: number;
+  /** Tail of the sender's dispatches; the next batch chains onto it */
+  lane: Promise<void>;
+}
+
+// Keyed by phoneNumberId + sender
+const senders = new Map<string, SenderState>();
+
+// Shared by every account, so one busy number can't starve the process
+let activeDispatches = 0;
+const slotWaiters: Array<() => void> = [];
+
+async function withDispatchSlot(limit: number, task: () => Promise<void>): Promise<void> {
+  if (limit > 0 && activeDispatches >= limit) {
+    // Woken with the slot of the dispatch that finished, so a newcomer can't take it first
+    await new Promise<void>((resolve) => slotWaiters.push(resolve));
+  } else {
+    activeDispatches++;
+  }
+  try {
+    await task();
+  } finally {
+    const next = slotWaiters.shift();
+    if (next) {
+      next();
+    } else {
+      activeDispatches--;
+    }
+  }
+}
+
+/** Fields that only some messages carry; the newest one in a batch wins */
+const CARRIED_FIELDS: ReadonlyArray<keyof ParsedInboundMessage> = [
+  "media",
+  "interactiveReply",
+  "quotedMessageId",
+  "reaction",
+  "order",
+  "referral",
+  "flowResponse",
+  "system",
+];
+
+/**
+ * Merge a burst of messages into one. Texts are joined with newlines; the
+ * newest message supplies the ID and timestamp, and structured fields
+ * (reaction, order, Flow response, …) are kept from whichever message had
+ * them last.
+ */
+export function coalesceMessages(batch: ParsedInboundMessage[]): ParsedInboundMessage {
+  if (batch.length === 1) return batch[0];
+  const merged: ParsedInboundMessage = {
+    ...batch[batch.length - 1],
+    text: batch.map((m) => m.text).join("\n"),
+    batch,
+  };
+  for (const message of batch) {
+    for (const field of CARRIED_FIELDS) {
+      if (message[field] !== undefined) Object.assign(merged, { [field]: message[field] });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Hand an inbound message to `handler`.
+ *
+ * Messages from the same sender are handled one batch at a time, in arrival
+ * order. With `inboundDebounceMs` set, messages arriving within the window
+ * are merged into a single call, held back for at most
+ * `inboundDebounceMaxMs`. The returned promise settles when the batch
+ * containing this message has been handled.
+ */
+export function dispatchInbound(
+  config: WhatsAppCloudConfig,
+  message: ParsedInboundMessage,
+  handler: InboundMessageHandler,
+  log: Logger
+): Promise<void> {
+  const key = `${config.phoneNumberId}:${message.from}`;
+  let state = senders.get(key);
+  if (!state) {
+    state = { pending: [], waiters: [], lane: Promise.resolve() };
+    senders.set(key, state);
+  }
+
+  if (state.pending.length === 0) state.firstPendingAt = Date.now();
+  state.pending.push(message);
+  const done = new Promise<void>((resolve, reject) => state!.waiters.push({ resolve, reject }));
+
+  // Each message restarts the window, but a burst that keeps going is
+  // dispatched once its oldest message has waited inboundDebounceMaxMs
+  const debounceMs = Number(config.inboundDebounceMs ?? CONFIG_DEFAULTS.inboundDebounceMs);
+  const maxWaitMs = Number(config.inboundDebounceMaxMs ?? CONFIG_DEFAULTS.inboundDebounceMaxMs);
+  if (state.timer) clearTimeout(state.timer);
+  if (debounceMs > 0) {
+    const deadline = state.firstPendingAt! + Math.max(maxWaitMs, debounceMs);
+    const delay = Math.max(0, Math.min(debounceMs, deadline - Date.now()));
+    state.timer = setTimeout(() => flush(key, state!, config, handler, log), delay);
+  } else {
+    flush(key, state, config, handler, log);
+  }
+
+  return done;
+}
+
+function flush(
+  key: string,
+  state: SenderState,
+  config: WhatsAppCloudConfig,
+  handler: InboundMessageHandler,
+  log: Logger
+): void {
+  state.timer = undefined;
+  const batch = state.pending.splice(0);
+  const waiters = state.waiters.splice(0);
+  if (batch.length === 0) return;
+
+  const message = coalesceMessages(batch);
+  if (batch.length > 1) {
+    log.info(`[whatsapp-cloud] Coalesced ${batch.length} messages from ${message.from} into one turn`);
+  }
+
+  const limit = Number(config.maxConcurrentDispatches ?? CONFIG_DEFAULTS.maxConcurrentDispatches);
+  const run = state.lane.then(() => withDispatchSlot(limit, async () => handler(message)));
+
+  const tail = run.catch(() => undefined);
+  state.lane = tail;
+  tail.then(() => {
+    if (state.lane === tail && state.pending.length === 0 && !state.timer) senders.delete(key);
+  });
+
+  run.then(
+    () => waiters.forEach((w) => w.resolve()),
+    (err) => waiters.forEach((w) => w.reject(err))
+  );
+}
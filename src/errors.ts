@@ -0,0 +1,159 @@
+// ---------------------------------------------------------------------------
+// Graph API error taxonomy
+// ---------------------------------------------------------------------------
+
+import type { ApiErrorResponse, WebhookError } from "./types.js";
+import { isRetryable } from "./retry.js";
+
+/**
+ * Coarse error categories callers can branch on.
+ *
+ * - auth: invalid/expired token or missing permission
+ * - rate-limit: throughput, pair or spam rate limits
+ * - re-engagement: the 24-hour customer service window is closed
+ * - recipient-invalid: the number can't receive the message
+ * - template: template missing, paused, or parameters don't match
+ * - media: media could not be uploaded or downloaded by Meta
+ * - network: the request never got an HTTP response
+ * - unknown: anything else
+ */
+export type WhatsAppApiErrorKind =
+  | "auth"
+  | "rate-limit"
+  | "re-engagement"
+  | "recipient-invalid"
+  | "template"
+  | "media"
+  | "network"
+  | "unknown";
+
+const AUTH_CODES = new Set([0, 3, 10, 190]);
+const RATE_LIMIT_CODES = new Set([4, 17, 613, 80007, 130429, 131048, 131056]);
+const RE_ENGAGEMENT_CODES = new Set([131047]);
+const RECIPIENT_CODES = new Set([131021, 131026, 131030]);
+const MEDIA_CODES = new Set([131052, 131053]);
+
+/**
+ * Map a Meta error code (and HTTP status, as a fallback) to an error kind.
+ *
+ * @see https://developers.facebook.com/docs/whatsapp/cloud-api/support/error-codes
+ */
+export function classifyErrorCode(code: number | undefined, httpStatus?: number): WhatsAppApiErrorKind {
+  if (code !== undefined) {
+    if (AUTH_CODES.has(code) || (code >= 200 && code <= 299)) return "auth";
+    if (RATE_LIMIT_CODES.has(code)) return "rate-limit";
+    if (RE_ENGAGEMENT_CODES.has(code)) return "re-engagement";
+    if (RECIPIENT_CODES.has(code)) return "recipient-invalid";
+    if (code >= 132000 && code <= 132999) return "template";
+    if (MEDIA_CODES.has(code)) return "media";
+  }
+  if (httpStatus === 401 || httpStatus === 403) return "auth";
+  if (httpStatus === 429) return "rate-limit";
+  return "unknown";
+}
+
+/**
+ * Structured error returned in SendResult.error and thrown by the outbound
+ * adapter. Keeps everything Meta sends back, including fbtrace_id for
+ * support tickets.
+ */
+export class WhatsAppApiError extends Error {
+  readonly kind: WhatsAppApiErrorKind;
+  /** HTTP status of the final response (undefined for network errors) */
+  readonly httpStatus?: number;
+  /** Meta error code, e.g. 131047 */
+  readonly code?: number;
+  /** Meta error subcode, when present */
+  readonly subcode?: number;
+  /** Human-readable detail from error_data.details */
+  readonly details?: string;
+  /** Trace ID to quote when contacting Meta support */
+  readonly fbtraceId?: string;
+
+  constructor(
+    message: string,
+    init: {
+      kind?: WhatsAppApiErrorKind;
+      httpStatus?: number;
+      code?: number;
+      subcode?: number;
+      details?: string;
+      fbtraceId?: string;
+      cause?: unknown;
+    } = {}
+  ) {
+    super(message, init.cause !== undefined ? { cause: init.cause } : undefined);
+    this.name = "WhatsAppApiError";
+    this.kind = init.kind ?? classifyErrorCode(init.code, init.httpStatus);
+    this.httpStatus = init.httpStatus;
+    this.code = init.code;
+    this.subcode = init.subcode;
+    this.details = init.details;
+    this.fbtraceId = init.fbtraceId;
+  }
+
+  /** Whether repeating the same request later may succeed */
+  get retryable(): boolean {
+    if (this.kind === "network") return true;
+    return isRetryable(this.httpStatus ?? 0, this.code);
+  }
+
+  /** Build from a non-2xx Graph response and its (possibly empty) error body */
+  static fromResponse(
+    httpStatus: number,
+    statusText: string,
+    body: Partial<ApiErrorResponse> | undefined
+  ): WhatsAppApiError {
+    const err = body?.error;
+    return new WhatsAppApiError(err?.message ?? `HTTP ${httpStatus} ${statusText}`, {
+      httpStatus,
+      code: err?.code,
+      subcode: err?.error_subcode,
+      details: err?.error_data?.details,
+      fbtraceId: err?.fbtrace_id,
+    });
+  }
+
+  /** Build from an error reported in a webhook (e.g. a "failed" status) */
+  static fromWebhookError(err: WebhookError): WhatsAppApiError {
+    return new WhatsAppApiError(err.message || err.title, {
+      code: err.code,
+      details: err.error_data?.details,
+    });
+  }
+
+  /** Build from a fetch() rejection */
+  static fromNetworkError(err: unknown): WhatsAppApiError {
+    return new WhatsAppApiError(err instanceof Error ? err.message : String(err), {
+      kind: "network",
+      cause: err,
+    });
+  }
+
+  /** One-line summary for logs: message, code, details and trace ID */
+  describe(): string {
+    const parts = [this.message];
+    if (this.code !== undefined) {
+      parts.push(`code ${this.code}${this.subcode !== undefined ? `/${this.subcode}` : ""}`);
+    }
+    if (this.details) parts.push(this.details);
+    if (this.fbtraceId) parts.push(`fbtrace_id ${this.fbtraceId}`);
+    return parts.join(" — ");
+  }
+}
+
+/**
+ * Thrown before sending when a message breaks one of Meta's limits (too many
+ * buttons, a title that's too long, …), so the problem surfaces at the call
+ * site instead of as an opaque Graph API error.
+ */
+export class WhatsAppValidationError extends Error {
+  /** Path of the offending field, e.g. "action.buttons[1].reply.title" */
+  readonly field: string;
+
+  constructor(field: string, message: string) {
+    super(`${field}: ${message}`);
+    this.name = "WhatsAppValidationError";
+    this.field = field;
+  }
+}
@@ -0,0 +1,205 @@
+// ---------------------------------------------------------------------------
+// WhatsApp Flows data endpoint — serves dynamic screens for Flows that use
+// flow_action "data_exchange"
+//
+// Requests arrive encrypted (see crypto.ts). Health checks (`ping`) and
+// error notifications are answered here; INIT, data_exchange and BACK go to
+// the account's handler (setFlowDataHandler() or the route's onFlowData).
+// Without one, a data_exchange submission closes the Flow and reaches the
+// agent as a Flow response message.
+// ---------------------------------------------------------------------------
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import {
+  verifyWebhookSignature,
+  decryptFlowRequest,
+  encryptFlowResponse,
+  type EncryptedFlowRequest,
+  type DecryptedFlowRequest,
+} from "./crypto.js";
+import { DEFAULT_ACCOUNT_ID } from "./accounts.js";
+import type { WhatsAppCloudConfig, Logger } from "./types.js";
+
+/** Decrypted data endpoint request */
+export interface FlowDataRequest {
+  version: string;
+  action: "ping" | "INIT" | "data_exchange" | "BACK";
+  /** Screen the user is on (absent for INIT and ping) */
+  screen?: string;
+  /** Fields submitted from the screen, or an error notification */
+  data?: Record<string, unknown>;
+  /** The flow_token the Flow was sent with */
+  flow_token?: string;
+}
+
+/**
+ * Next screen to show, or — to close the Flow — screen "SUCCESS" with
+ * data.extension_message_response.params.
+ */
+export interface FlowDataResponse {
+  screen?: string;
+  data: Record<string, unknown>;
+}
+
+export interface FlowDataContext {
+  /** Account whose private key decrypted the request */
+  accountId: string;
+  config: WhatsAppCloudConfig;
+  log: Logger;
+}
+
+export type FlowDataHandler = (
+  request: FlowDataRequest,
+  context: FlowDataContext
+) => FlowDataResponse | Promise<FlowDataResponse>;
+
+/**
+ * Throw from a FlowDataHandler to answer with a specific HTTP status, e.g.
+ * 427 when the flow_token is no longer valid (WhatsApp then shows an error
+ * and closes the Flow).
+ */
+export class FlowEndpointError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "FlowEndpointError";
+    this.status = status;
+  }
+}
+
+/** Status codes WhatsApp gives a meaning to */
+const STATUS_DECRYPT_FAILED = 421;
+const STATUS_SIGNATURE_FAILED = 432;
+
+/** An account that serves the data endpoint on a path */
+export interface FlowEndpointRoute {
+  accountId?: string;
+  config: WhatsAppCloudConfig;
+  /** Takes precedence over handlers registered with setFlowDataHandler() */
+  onFlowData?: FlowDataHandler;
+  log: Logger;
+}
+
+// Keyed by account ID; undefined serves every account without its own handler
+const flowDataHandlers = new Map<string | undefined, FlowDataHandler>();
+
+/**
+ * Register the code that computes the next screen of data_exchange Flows,
+ * for one account or (without accountId) for all of them. Pass undefined to
+ * remove it.
+ */
+export function setFlowDataHandler(handler: FlowDataHandler | undefined, accountId?: string): void {
+  if (handler) {
+    flowDataHandlers.set(accountId, handler);
+  } else {
+    flowDataHandlers.delete(accountId);
+  }
+}
+
+/**
+ * Answer a POST to a data endpoint path. Several accounts may share the
+ * path; the request belongs to the one whose private key decrypts it.
+ */
+export async function handleFlowDataRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  routes: FlowEndpointRoute[],
+  log: Logger
+): Promise<void> {
+  let rawBody = "";
+  for await (const chunk of req) rawBody += chunk;
+
+  const signature = req.headers["x-hub-signature-256"] as string | undefined;
+  const signed = routes.filter(
+    (r) => !r.config.appSecret || verifyWebhookSignature(rawBody, signature, r.config.appSecret)
+  );
+  if (signed.length === 0) {
+    log.warn("[whatsapp-cloud] Flows data endpoint signature verification FAILED");
+    res.writeHead(STATUS_SIGNATURE_FAILED);
+    res.end();
+    return;
+  }
+
+  let encrypted: EncryptedFlowRequest;
+  try {
+    encrypted = JSON.parse(rawBody) as EncryptedFlowRequest;
+  } catch {
+    res.writeHead(400);
+    res.end();
+    return;
+  }
+
+  // 421 tells WhatsApp to re-fetch the public key and retry
+  const match = decryptForRoute(encrypted, signed);
+  if (!match) {
+    log.warn("[whatsapp-cloud] Could not decrypt Flows data endpoint request — check flowsPrivateKey");
+    res.writeHead(STATUS_DECRYPT_FAILED);
+    res.end();
+    return;
+  }
+
+  const { route, decrypted } = match;
+  const request = decrypted.body as FlowDataRequest;
+
+  let response: FlowDataResponse;
+  try {
+    response = await respond(request, route);
+  } catch (err) {
+    const status = err instanceof FlowEndpointError ? err.status : 500;
+    route.log.error(`[whatsapp-cloud] Flows data endpoint ${request.action} failed: ${err}`);
+    res.writeHead(status);
+    res.end();
+    return;
+  }
+
+  res.writeHead(200, { "Content-Type": "text/plain" });
+  res.end(encryptFlowResponse(response, decrypted.aesKey, decrypted.iv));
+}
+
+function decryptForRoute(
+  encrypted: EncryptedFlowRequest,
+  routes: FlowEndpointRoute[]
+): { route: FlowEndpointRoute; decrypted: DecryptedFlowRequest } | undefined {
+  for (const route of routes) {
+    const key = route.config.flowsPrivateKey;
+    if (!key) continue;
+    try {
+      return { route, decrypted: decryptFlowRequest(encrypted, key, route.config.flowsPrivateKeyPassphrase) };
+    } catch {
+      // Not this account's key (or a corrupted request) — try the next one
+    }
+  }
+  return undefined;
+}
+
+async function respond(request: FlowDataRequest, route: FlowEndpointRoute): Promise<FlowDataResponse> {
+  // Health check from WhatsApp Manager and Meta's monitoring
+  if (request.action === "ping") {
+    return { data: { status: "active" } };
+  }
+
+  // The client reports an error in a screen we returned
+  if (request.data?.error !== undefined) {
+    route.log.warn(
+      `[whatsapp-cloud] Flow ${request.flow_token ?? "(no token)"} reported an error on screen ${request.screen ?? "?"}: ${
+        request.data.error_message ?? request.data.error
+      }`
+    );
+    return { data: { acknowledged: true } };
+  }
+
+  const accountId = route.accountId ?? DEFAULT_ACCOUNT_ID;
+  const handler = route.onFlowData ?? flowDataHandlers.get(accountId) ?? flowDataHandlers.get(undefined);
+  if (handler) return handler(request, { accountId, config: route.config, log: route.log });
+
+  // No code computes screens for this account: close the Flow on submit so
+  // the fields reach the agent as a Flow response (nfm_reply) message
+  if (request.action === "data_exchange") {
+    return {
+      screen: "SUCCESS",
+      data: { extension_message_response: { params: { flow_token: request.flow_token, ...request.data } } },
+    };
+  }
+  throw new Error(`no handler for account ${accountId} can serve ${request.action} — call setFlowDataHandler()`);
+}
@@ -0,0 +1,149 @@
+// ---------------------------------------------------------------------------
+// Formatting — converts the agent's Markdown into WhatsApp's own syntax
+//
+// WhatsApp supports *bold*, _italic_, ~strike~, `inline code`, ```blocks```,
+// "> " quotes and "- " / "1. " lists. Everything else (headings, tables,
+// links) is flattened to plain text that reads well on a phone.
+// ---------------------------------------------------------------------------
+
+import type { WhatsAppCloudConfig } from "./types.js";
+import { CONFIG_DEFAULTS } from "./types.js";
+
+const URL_PATTERN = /\bhttps?:\/\/[^\s<>()]+/i;
+
+// Private-use placeholders survive the inline passes untouched
+const BOLD = "\uE000";
+const ESCAPED = "\uE001";
+
+/** Whether text contains an http(s) URL (Meta only previews those) */
+export function containsUrl(text: string): boolean {
+  return URL_PATTERN.test(text);
+}
+
+/** Convert CommonMark-style Markdown to WhatsApp formatting */
+export function markdownToWhatsApp(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const out: string[] = [];
+  let fence: string | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // ----- Fenced code: keep contents verbatim, drop the language tag -----
+    const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      if (fence === null) {
+        fence = fenceMatch[1][0];
+        out.push("```");
+        continue;
+      }
+      if (fenceMatch[1][0] === fence) {
+        fence = null;
+        out.push("```");
+        continue;
+      }
+    }
+    if (fence !== null) {
+      out.push(line);
+      continue;
+    }
+
+    // ----- Tables: header row followed by a |---|---| separator -----
+    if (isTableRow(line) && i + 1 < lines.length && isTableSeparator(lines[i + 1])) {
+      const header = splitTableRow(line).map(formatInline);
+      out.push(header.map((cell) => (cell ? `*${cell}*` : cell)).join(" — "));
+      i += 2;
+      while (i < lines.length && isTableRow(lines[i])) {
+        out.push(splitTableRow(lines[i]).map(formatInline).join(" — "));
+        i++;
+      }
+      i--;
+      continue;
+    }
+
+    out.push(formatLine(line));
+  }
+
+  // An unterminated fence would swallow the rest of the chat bubble
+  if (fence !== null) out.push("```");
+
+  return out.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+/** Apply `markdownToWhatsApp` unless formatMarkdown is disabled */
+export function formatOutboundText(config: WhatsAppCloudConfig, text: string): string {
+  return (config.formatMarkdown ?? CONFIG_DEFAULTS.formatMarkdown) ? markdownToWhatsApp(text) : text;
+}
+
+function formatLine(line: string): string {
+  // Headings become a bold line
+  const heading = line.match(/^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/);
+  if (heading) {
+    const text = formatInline(heading[1]).replace(/^\*(.*)\*$/, "$1");
+    return text ? `*${text}*` : "";
+  }
+
+  // Horizontal rules
+  if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) return "───";
+
+  // Blockquotes keep WhatsApp's "> " prefix
+  const quote = line.match(/^\s{0,3}>\s?(.*)$/);
+  if (quote) return `> ${formatLine(quote[1])}`.trimEnd();
+
+  // "*" and "+" bullets would read as bold markers — normalise to "-"
+  const bullet = line.match(/^(\s*)[-*+]\s+(.*)$/);
+  if (bullet) return `${bullet[1]}- ${formatInline(bullet[2])}`;
+
+  return formatInline(line);
+}
+
+/** Inline spans, leaving `code` untouched */
+function formatInline(text: string): string {
+  return text
+    .split(/(`[^`\n]+`)/)
+    .map((part, index) => (index % 2 === 1 ? part : formatInlineText(part)))
+    .join("");
+}
+
+function formatInlineText(text: string): string {
+  return (
+    text
+      // Backslash escapes — restored as literal characters at the end
+      .replace(/\\([\\`*_~[\]()#>+\-.!|])/g, (_, ch: string) => `${ESCAPED}${ch.charCodeAt(0)}${ESCAPED}`)
+      .replace(/<br\s*\/?>/gi, "\n")
+      // Images and links: keep the URL visible
+      .replace(/!\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g, (_, alt: string, url: string) => labelledUrl(alt, url))
+      .replace(/\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g, (_, label: string, url: string) => labelledUrl(label, url))
+      .replace(/<(https?:\/\/[^>\s]+)>/g, "$1")
+      // Bold first (parked in a placeholder), then italic, then strike
+      .replace(/\*\*\*(?=\S)(.+?)(?<=\S)\*\*\*/g, `${BOLD}_$1_${BOLD}`)
+      .replace(/\*\*(?=\S)(.+?)(?<=\S)\*\*/g, `${BOLD}$1${BOLD}`)
+      .replace(/__(?=\S)(.+?)(?<=\S)__/g, `${BOLD}$1${BOLD}`)
+      .replace(/(^|[^\w*])\*(?=\S)([^*\n]+?)(?<=\S)\*(?!\w)/g, "$1_$2_")
+      .replace(/~~(?=\S)(.+?)(?<=\S)~~/g, "~$1~")
+      .replace(new RegExp(BOLD, "g"), "*")
+      .replace(new RegExp(`${ESCAPED}(\\d+)${ESCAPED}`, "g"), (_, code: string) => String.fromCharCode(Number(code)))
+  );
+}
+
+function labelledUrl(label: string, url: string): string {
+  const text = label.trim();
+  if (!text || text === url || `https://${text}` === url || `http://${text}` === url) return url;
+  return `${text} (${url})`;
+}
+
+function isTableRow(line: string): boolean {
+  return /^\s*\|.*\|\s*$/.test(line);
+}
+
+function isTableSeparator(line: string): boolean {
+  return /^\s*\|?(\s*:?-{3,}:?\s*\|)+\s*(:?-{3,}:?\s*)?\|?\s*$/.test(line);
+}
+
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\||\|$/g, "")
+    .split("|")
+    .map((cell) => cell.trim());
+}
@@ -0,0 +1,195 @@
+// ---------------------------------------------------------------------------
+// Durable inbox — verified webhook events persisted before acknowledging
+//
+// Each phone number gets an append-only JSONL file. An "event" line holding
+// the verified request body is written (and fsynced) before Meta receives its
+// 200 OK; a "done" line is appended once the handlers have finished. Events
+// without a "done" line — the process died, or a handler threw — are replayed
+// when the account starts again, giving at-least-once delivery. The file is
+// compacted to its pending entries on start and every few thousand events.
+//
+// File operations are synchronous on purpose: appends and compaction can
+// never interleave, and the write is on disk before the response goes out.
+// ---------------------------------------------------------------------------
+
+import { randomUUID } from "node:crypto";
+import { join } from "node:path";
+import { homedir } from "node:os";
+import {
+  appendFileSync,
+  closeSync,
+  existsSync,
+  fsyncSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import type { WhatsAppCloudConfig, WebhookValue, Logger } from "./types.js";
+
+/** Replays per event before it is dropped as unprocessable */
+export const MAX_INBOX_ATTEMPTS = 3;
+
+/** Entries marked done between two compactions of a running account's file */
+const COMPACT_EVERY = 1_000;
+
+export const DEFAULT_INBOX_DIR = join(
+  process.env.OPENCLAW_STATE_DIR || join(homedir(), ".openclaw"),
+  "whatsapp-cloud",
+  "inbox"
+);
+
+export interface InboxEntry {
+  id: string;
+  phoneNumberId: string;
+  receivedAt: number;
+  /** How many times processing was started before this replay */
+  attempts: number;
+  /** The request body exactly as Meta signed it */
+  payload: string;
+  /** Position of this account's change in the payload: [entry, change] */
+  change: [number, number];
+}
+
+type InboxLine = ({ type: "event" } & InboxEntry) | { type: "done"; id: string };
+
+const doneSinceCompaction = new Map<string, number>();
+
+export function inboxPath(config: WhatsAppCloudConfig): string {
+  const dir = config.inboxDir || DEFAULT_INBOX_DIR;
+  return join(dir, `${config.phoneNumberId.replace(/[^0-9A-Za-z_-]/g, "_")}.jsonl`);
+}
+
+function appendLine(path: string, line: InboxLine): void {
+  const fd = openSync(path, "a");
+  try {
+    appendFileSync(fd, JSON.stringify(line) + "\n");
+    fsyncSync(fd);
+  } finally {
+    closeSync(fd);
+  }
+}
+
+function readLines(path: string, log?: Logger): InboxLine[] {
+  if (!existsSync(path)) return [];
+  const lines: InboxLine[] = [];
+  for (const raw of readFileSync(path, "utf8").split("\n")) {
+    if (!raw.trim()) continue;
+    try {
+      lines.push(JSON.parse(raw) as InboxLine);
+    } catch {
+      // A crash mid-append can leave a truncated last line
+      log?.warn(`[whatsapp-cloud] Skipping corrupt inbox line in ${path}`);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Persist a verified webhook change — the raw request body and where the
+ * change sits in it; returns once it is on disk
+ */
+export function appendInboxEntry(config: WhatsAppCloudConfig, payload: string, change: [number, number]): InboxEntry {
+  const entry: InboxEntry = {
+    id: randomUUID(),
+    phoneNumberId: config.phoneNumberId,
+    receivedAt: Date.now(),
+    attempts: 0,
+    payload,
+    change,
+  };
+  mkdirSync(config.inboxDir || DEFAULT_INBOX_DIR, { recursive: true });
+  appendLine(inboxPath(config), { type: "event", ...entry });
+  return entry;
+}
+
+/** The webhook change an entry recorded, as Meta sent it */
+export function inboxEntryValue(entry: InboxEntry): WebhookValue {
+  const [entryIndex, changeIndex] = entry.change;
+  return JSON.parse(entry.payload).entry[entryIndex].changes[changeIndex].value;
+}
+
+/** Mark an entry as processed */
+export function markInboxEntryDone(config: WhatsAppCloudConfig, id: string, log?: Logger): void {
+  const path = inboxPath(config);
+  if (!existsSync(path)) return;
+  appendLine(path, { type: "done", id });
+
+  const done = (doneSinceCompaction.get(path) ?? 0) + 1;
+  doneSinceCompaction.set(path, done);
+  if (done >= COMPACT_EVERY) compactInbox(config, log);
+}
+
+/** Entries recorded but not yet marked done, oldest first */
+export function listPendingEntries(config: WhatsAppCloudConfig, log?: Logger): InboxEntry[] {
+  const pending = new Map<string, InboxEntry>();
+  for (const line of readLines(inboxPath(config), log)) {
+    if (line.type === "event") {
+      const { type, ...entry } = line;
+      pending.set(entry.id, entry);
+    } else {
+      pending.delete(line.id);
+    }
+  }
+  return [...pending.values()];
+}
+
+/** Rewrite the inbox with only its pending entries */
+export function compactInbox(config: WhatsAppCloudConfig, log?: Logger): void {
+  const path = inboxPath(config);
+  doneSinceCompaction.set(path, 0);
+  if (!existsSync(path)) return;
+  try {
+    rewrite(path, listPendingEntries(config, log));
+  } catch (err) {
+    log?.warn(`[whatsapp-cloud] Failed to compact durable inbox ${path}: ${err}`);
+  }
+}
+
+/**
+ * Compact the inbox to its pending entries and return those to replay.
+ * Each call counts as an attempt; entries that already failed
+ * MAX_INBOX_ATTEMPTS times are dropped with an error.
+ */
+export function takePendingForReplay(config: WhatsAppCloudConfig, log: Logger): InboxEntry[] {
+  const path = inboxPath(config);
+  doneSinceCompaction.set(path, 0);
+  if (!existsSync(path)) return [];
+
+  const replay: InboxEntry[] = [];
+  for (const entry of listPendingEntries(config, log)) {
+    if (entry.attempts + 1 >= MAX_INBOX_ATTEMPTS) {
+      log.error(
+        `[whatsapp-cloud] Dropping inbox entry ${entry.id} after ${MAX_INBOX_ATTEMPTS} attempts (received ${new Date(entry.receivedAt).toISOString()})`
+      );
+      continue;
+    }
+    replay.push({ ...entry, attempts: entry.attempts + 1 });
+  }
+
+  rewrite(path, replay);
+  return replay;
+}
+
+// Rewrite atomically so a crash during compaction keeps the old file
+function rewrite(path: string, entries: InboxEntry[]): void {
+  const tmp = `${path}.tmp`;
+  const fd = openSync(tmp, "w");
+  try {
+    writeFileSync(fd, entries.map((entry) => JSON.stringify({ type: "event", ...entry }) + "\n").join(""));
+    // Flush before the rename, or a crash could leave an empty file in place of the inbox
+    fsyncSync(fd);
+  } finally {
+    closeSync(fd);
+  }
+  renameSync(tmp, path);
+}
+
+/** Delete every entry of an account's inbox; returns how many were pending */
+export function purgeInbox(config: WhatsAppCloudConfig, log?: Logger): number {
+  const pending = listPendingEntries(config, log).length;
+  rmSync(inboxPath(config), { force: true });
+  return pending;
+}
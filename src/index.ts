@@ -9,66 +9,67 @@
 // License: MIT
 // ---------------------------------------------------------------------------
 
-import type { Server } from "node:http";
-import { sendText, sendMedia, sendTypingIndicator } from "./api.js";
-import { startWebhookServer } from "./webhook.js";
+import { sendText, sendInteractive, sendTypingIndicator } from "./api.js";
+import { attachWebhookRoute, detachWebhookRoute, isWebhookRouteActive } from "./webhook.js";
 import { runSetupWizard, validateConfig } from "./setup.js";
 import { whatsappCloudOnboardingAdapter } from "./onboarding.js";
-import type { WhatsAppCloudConfig, Logger } from "./types.js";
+import { WhatsAppApiError } from "./errors.js";
+import { getQueueDepth } from "./queue.js";
+import { sendMediaFromUrl, downloadInboundMedia } from "./media.js";
+import { sendWithinWindow } from "./conversation-window.js";
+import { inboxPath, inboxEntryValue, listPendingEntries, purgeInbox } from "./inbox.js";
+import { getMessageStatus } from "./status.js";
+import { getBusinessIssues, describeBusinessEvent } from "./business-events.js";
+import { formatOutboundText } from "./format.js";
+import { planInteractiveReply, readReplyChannelData } from "./interactive.js";
+import { listAllTemplates, getTemplate, createTemplate, deleteTemplate, type TemplateDefinition } from "./templates.js";
+import { loadAudience, runBroadcast, BROADCAST_DEFAULTS } from "./broadcast.js";
+import { appendStatusLog, compactStatusLog } from "./status-log.js";
+import { requestOtp, verifyOtp } from "./otp.js";
+import {
+  DEFAULT_ACCOUNT_ID,
+  resolveConfig,
+  resolveAccount,
+  listAccountIds,
+  accountConfigPath,
+  updateAccountConfig,
+  removeAccountConfig,
+  type ResolvedWhatsAppCloudAccount,
+} from "./accounts.js";
+import type { ParsedInboundMessage } from "./webhook.js";
+import type { WhatsAppCloudConfig, Logger, SendResult } from "./types.js";
 import { CONFIG_DEFAULTS } from "./types.js";
 import { setWhatsAppCloudRuntime, getWhatsAppCloudRuntime } from "./runtime.js";
+import { readFile } from "node:fs/promises";
 
-// ---------------------------------------------------------------------------
-// Account resolution types
-// ---------------------------------------------------------------------------
+// Runtime state — config of each started account, keyed by accountId
+const runningAccounts = new Map<string, WhatsAppCloudConfig>();
 
-interface ResolvedWhatsAppCloudAccount {
-  accountId: string;
-  name?: string;
-  enabled: boolean;
-  config: WhatsAppCloudConfig;
-  /** Where the token came from: "config" or "none" */
-  tokenSource: string;
+/** Throw the structured API error of a failed send */
+function assertSent(result: SendResult): void {
+  if (!result.ok) {
+    throw result.error ?? new WhatsAppApiError("WhatsApp Cloud API send failed");
+  }
 }
 
-// Runtime state
-let webhookServer: Server | null = null;
-
-// Default account ID constant (matches OpenClaw convention)
-const DEFAULT_ACCOUNT_ID = "default";
-
-// ---------------------------------------------------------------------------
-// Config resolution
-// ---------------------------------------------------------------------------
+function isAccountRunning(accountId: string): boolean {
+  const config = runningAccounts.get(accountId);
+  return config ? isWebhookRouteActive(config) : false;
+}
 
-function resolveConfig(cfg: any): WhatsAppCloudConfig {
-  const raw = cfg?.channels?.["whatsapp-cloud"] ?? cfg ?? {};
-  return {
-    enabled: raw.enabled ?? CONFIG_DEFAULTS.enabled ?? true,
-    phoneNumberId: String(raw.phoneNumberId ?? ""),
-    businessAccountId: String(raw.businessAccountId ?? ""),
-    accessToken: String(raw.accessToken ?? ""),
-    appSecret: String(raw.appSecret ?? ""),
-    verifyToken: String(raw.verifyToken ?? CONFIG_DEFAULTS.verifyToken!),
-    webhookPort: Number(raw.webhookPort ?? CONFIG_DEFAULTS.webhookPort!),
-    webhookPath: String(raw.webhookPath ?? CONFIG_DEFAULTS.webhookPath!),
-    apiVersion: String(raw.apiVersion ?? CONFIG_DEFAULTS.apiVersion!),
-    dmPolicy: raw.dmPolicy ?? CONFIG_DEFAULTS.dmPolicy!,
-    allowFrom: raw.allowFrom ?? CONFIG_DEFAULTS.allowFrom!,
-    sendReadReceipts: raw.sendReadReceipts ?? CONFIG_DEFAULTS.sendReadReceipts!,
-  };
+/** The message to quote for an outbound reply, honouring replyThreading */
+function threadedReplyTo(config: WhatsAppCloudConfig, replyToId?: string | null): string | undefined {
+  const threading = config.replyThreading ?? CONFIG_DEFAULTS.replyThreading;
+  return threading !== "off" && replyToId ? replyToId : undefined;
 }
 
-function resolveAccount(cfg: any, accountId?: string | null): ResolvedWhatsAppCloudAccount {
-  const channelCfg = cfg?.channels?.["whatsapp-cloud"] ?? {};
-  const config = resolveConfig(cfg);
-  return {
-    accountId: accountId ?? DEFAULT_ACCOUNT_ID,
-    name: channelCfg.name,
-    enabled: config.enabled,
-    config,
-    tokenSource: config.accessToken ? "config" : "none",
-  };
+/** Detach a started account from its webhook server */
+async function stopAccount(accountId: string): Promise<boolean> {
+  const config = runningAccounts.get(accountId);
+  if (!config) return false;
+  runningAccounts.delete(accountId);
+  await detachWebhookRoute(config);
+  return true;
 }
 
 // ---------------------------------------------------------------------------
@@ -104,36 +105,18 @@ const whatsappCloudChannel = {
 
   // ---- Config adapter ----
   config: {
-    listAccountIds: (cfg: any): string[] =>
-      cfg?.channels?.["whatsapp-cloud"]?.enabled !== false ? [DEFAULT_ACCOUNT_ID] : [],
+    listAccountIds: (cfg: any): string[] => listAccountIds(cfg),
 
     resolveAccount: (cfg: any, accountId?: string | null): ResolvedWhatsAppCloudAccount =>
       resolveAccount(cfg, accountId),
 
-    defaultAccountId: (_cfg: any): string => DEFAULT_ACCOUNT_ID,
+    defaultAccountId: (cfg: any): string => listAccountIds(cfg)[0] ?? DEFAULT_ACCOUNT_ID,
 
-    setAccountEnabled: ({ cfg, accountId, enabled }: { cfg: any; accountId: string; enabled: boolean }): any => ({
-      ...cfg,
-      channels: {
-        ...cfg.channels,
-        "whatsapp-cloud": {
-          ...cfg.channels?.["whatsapp-cloud"],
-          enabled,
-        },
-      },
-    }),
+    setAccountEnabled: ({ cfg, accountId, enabled }: { cfg: any; accountId: string; enabled: boolean }): any =>
+      updateAccountConfig(cfg, accountId, (current) => ({ ...current, enabled })),
 
-    deleteAccount: ({ cfg, accountId }: { cfg: any; accountId: string }): any => {
-      const next = { ...cfg };
-      const nextChannels = { ...next.channels };
-      delete nextChannels["whatsapp-cloud"];
-      if (Object.keys(nextChannels).length > 0) {
-        next.channels = nextChannels;
-      } else {
-        delete next.channels;
-      }
-      return next;
-    },
+    deleteAccount: ({ cfg, accountId }: { cfg: any; accountId: string }): any =>
+      removeAccountConfig(cfg, accountId ?? DEFAULT_ACCOUNT_ID),
 
     isConfigured: (account: ResolvedWhatsAppCloudAccount): boolean =>
       Boolean(account.config.accessToken?.trim() && account.config.phoneNumberId?.trim()),
@@ -146,8 +129,8 @@ const whatsappCloudChannel = {
       tokenSource: account.tokenSource,
     }),
 
-    resolveAllowFrom: ({ cfg }: { cfg: any; accountId?: string | null }) =>
-      (cfg?.channels?.["whatsapp-cloud"]?.allowFrom ?? []).map((entry: any) => String(entry)),
+    resolveAllowFrom: ({ cfg, accountId }: { cfg: any; accountId?: string | null }) =>
+      resolveConfig(cfg, accountId).allowFrom.map((entry: any) => String(entry)),
 
     formatAllowFrom: ({ allowFrom }: { cfg: any; accountId?: string | null; allowFrom: Array<string | number> }) =>
       allowFrom
@@ -161,8 +144,8 @@ const whatsappCloudChannel = {
     resolveDmPolicy: ({ cfg, accountId, account }: { cfg: any; accountId?: string | null; account: ResolvedWhatsAppCloudAccount }) => ({
       policy: account.config.dmPolicy ?? "open",
       allowFrom: account.config.allowFrom ?? [],
-      policyPath: "channels.whatsapp-cloud.dmPolicy",
-      allowFromPath: "channels.whatsapp-cloud.",
+      policyPath: `${accountConfigPath(accountId ?? account.accountId)}dmPolicy`,
+      allowFromPath: accountConfigPath(accountId ?? account.accountId),
       approveHint: "openclaw pairing approve whatsapp-cloud <code>",
       normalizeEntry: (raw: string) => raw.replace(/[^0-9]/g, ""),
     }),
@@ -172,8 +155,8 @@ const whatsappCloudChannel = {
   pairing: {
     idLabel: "whatsappPhoneNumber",
     normalizeAllowEntry: (entry: string) => entry.replace(/[^0-9]/g, ""),
-    notifyApproval: async ({ cfg, id }: { cfg: any; id: string }) => {
-      const config = resolveConfig(cfg);
+    notifyApproval: async ({ cfg, id, accountId }: { cfg: any; id: string; accountId?: string | null }) => {
+      const config = resolveConfig(cfg, accountId);
       if (!config.accessToken) {
         throw new Error("WhatsApp Cloud access token not configured");
       }
@@ -194,21 +177,16 @@ const whatsappCloudChannel = {
       return null;
     },
 
-    applyAccountConfig: ({ cfg, accountId, input }: { cfg: any; accountId: string; input: any }) => ({
-      ...cfg,
-      channels: {
-        ...cfg.channels,
-        "whatsapp-cloud": {
-          ...cfg.channels?.["whatsapp-cloud"],
-          enabled: true,
-          ...(input.name ? { name: input.name } : {}),
-          ...(input.accessToken ? { accessToken: input.accessToken } : {}),
-          ...(input.token ? { accessToken: input.token } : {}),
-          ...(input.webhookPath ? { webhookPath: input.webhookPath } : {}),
-          ...(input.webhookUrl ? { webhookUrl: input.webhookUrl } : {}),
-        },
-      },
-    }),
+    applyAccountConfig: ({ cfg, accountId, input }: { cfg: any; accountId: string; input: any }) =>
+      updateAccountConfig(cfg, accountId, (current) => ({
+        ...current,
+        enabled: true,
+        ...(input.name ? { name: input.name } : {}),
+        ...(input.accessToken ? { accessToken: input.accessToken } : {}),
+        ...(input.token ? { accessToken: input.token } : {}),
+        ...(input.webhookPath ? { webhookPath: input.webhookPath } : {}),
+        ...(input.webhookUrl ? { webhookUrl: input.webhookUrl } : {}),
+      })),
   },
 
   // ---- Outbound adapter ----
@@ -216,7 +194,7 @@ const whatsappCloudChannel = {
     deliveryMode: "direct" as const,
     textChunkLimit: 4096,
 
-    sendText: async ({ cfg, to, text, accountId }: {
+    sendText: async ({ cfg, to, text, replyToId, accountId }: {
       cfg: any;
       to: string;
       text: string;
@@ -227,18 +205,17 @@ const whatsappCloudChannel = {
       deps?: any;
       silent?: boolean;
     }) => {
-      const config = resolveConfig(cfg);
+      const config = resolveConfig(cfg, accountId);
       const log: Logger = getWhatsAppCloudRuntime()?.logging?.getChildLogger?.({ channel: "whatsapp-cloud" }) ?? console as unknown as Logger;
 
       if (!config.accessToken || !config.phoneNumberId) {
         throw new Error("WhatsApp Cloud API not configured: missing accessToken or phoneNumberId");
       }
 
-      const result = await sendText(config, to, text, log);
-
-      if (!result.ok) {
-        throw new Error(`WhatsApp Cloud API send failed: ${result.error}`);
-      }
+      const body = formatOutboundText(config, text);
+      const sendOptions = { replyTo: threadedReplyTo(config, replyToId) };
+      const result = await sendWithinWindow(config, to, () => sendText(config, to, body, log, sendOptions), log);
+      assertSent(result);
 
       return {
         channel: "whatsapp-cloud" as any,
@@ -247,25 +224,31 @@ const whatsappCloudChannel = {
       };
     },
 
-    sendMedia: async ({ cfg, to, text, mediaUrl, accountId }: {
+    sendMedia: async ({ cfg, to, text, mediaUrl, replyToId, accountId }: {
       cfg: any;
       to: string;
       text: string;
       mediaUrl?: string;
+      replyToId?: string | null;
       accountId?: string | null;
     }) => {
-      const config = resolveConfig(cfg);
+      const config = resolveConfig(cfg, accountId);
       const log: Logger = getWhatsAppCloudRuntime()?.logging?.getChildLogger?.({ channel: "whatsapp-cloud" }) ?? console as unknown as Logger;
 
       if (!config.accessToken || !config.phoneNumberId) {
         throw new Error("WhatsApp Cloud API not configured: missing accessToken or phoneNumberId");
       }
 
+      const replyTo = threadedReplyTo(config, replyToId);
+      const body = text ? formatOutboundText(config, text) : "";
       if (mediaUrl) {
-        const result = await sendMedia(config, to, "image", { link: mediaUrl, caption: text || undefined }, log);
-        if (!result.ok) {
-          throw new Error(`WhatsApp Cloud API media send failed: ${result.error}`);
-        }
+        const result = await sendWithinWindow(
+          config,
+          to,
+          () => sendMediaFromUrl(config, to, mediaUrl, { caption: body || undefined, replyTo }, log),
+          log
+        );
+        assertSent(result);
         return {
           channel: "whatsapp-cloud" as any,
           messageId: result.messageId ?? "unknown",
@@ -274,10 +257,8 @@ const whatsappCloudChannel = {
       }
 
       // Fallback to text if no media URL
-      const result = await sendText(config, to, text, log);
-      if (!result.ok) {
-        throw new Error(`WhatsApp Cloud API send failed: ${result.error}`);
-      }
+      const result = await sendWithinWindow(config, to, () => sendText(config, to, body, log, { replyTo }), log);
+      assertSent(result);
       return {
         channel: "whatsapp-cloud" as any,
         messageId: result.messageId ?? "unknown",
@@ -295,7 +276,7 @@ const whatsappCloudChannel = {
       const runtime = getWhatsAppCloudRuntime();
 
       if (!config.enabled) {
-        log.info?.("[whatsapp-cloud] Channel is disabled");
+        log.info?.(`[whatsapp-cloud] Account ${account.accountId} is disabled`);
         return;
       }
 
@@ -305,84 +286,216 @@ const whatsappCloudChannel = {
         for (const err of validation.errors) {
           log.error(`[whatsapp-cloud] Config error: ${err}`);
         }
-        log.error("[whatsapp-cloud] Run 'openclaw channels login whatsapp-cloud' to configure");
+        log.error(`[whatsapp-cloud] Run 'openclaw channels login whatsapp-cloud' to configure account ${account.accountId}`);
         return;
       }
       for (const warn of validation.warnings) {
         log.warn(`[whatsapp-cloud] ${warn}`);
       }
 
-      // Start the webhook HTTP server
-      webhookServer = startWebhookServer(
-        config,
-        // Inbound message handler — dispatch into OpenClaw agent session
-        async (message) => {
-          try {
-            // Show typing indicator immediately (auto-dismissed on reply or after 25s)
-            sendTypingIndicator(config, message.messageId, log).catch(() => {});
-
-            // Load fresh config for dispatch
-            const freshCfg = await runtime.config.loadConfig();
-
-            // Build MsgContext (OpenClaw's standard inbound message format)
-            const msgCtx: Record<string, any> = {
-              Body: message.text,
-              RawBody: message.text,
-              CommandBody: message.text,
-              BodyForCommands: message.text,
-              From: message.from,
-              To: config.phoneNumberId,
-              SessionKey: `whatsapp-cloud:${message.from}`,
-              AccountId: account.accountId,
-              MessageSid: message.messageId,
-              ChatType: "direct",
-              SenderName: message.senderName,
-              SenderId: message.from,
-              Provider: "whatsapp-cloud",
-              OriginatingChannel: "whatsapp-cloud",
-              OriginatingTo: message.from,
-              Timestamp: parseInt(message.timestamp, 10) * 1000,
-            };
-
-            if (message.quotedMessageId) {
-              msgCtx.ReplyToId = message.quotedMessageId;
-            }
+      // Restarting an account replaces its previous route
+      await stopAccount(account.accountId);
+      if (config.statusLog) compactStatusLog(config, log);
+
+      // Join (or start) the webhook server for this account's port
+      const onMessage = async (message: ParsedInboundMessage) => {
+        try {
+          // Show typing indicator immediately (auto-dismissed on reply or after 25s)
+          sendTypingIndicator(config, message.messageId, log).catch(() => {});
+
+          // Load fresh config for dispatch
+          const freshCfg = await runtime.config.loadConfig();
+
+          // Build MsgContext (OpenClaw's standard inbound message format)
+          const msgCtx: Record<string, any> = {
+            Body: message.text,
+            RawBody: message.text,
+            CommandBody: message.text,
+            BodyForCommands: message.text,
+            From: message.from,
+            To: config.phoneNumberId,
+            SessionKey:
+              account.accountId === DEFAULT_ACCOUNT_ID
+                ? `whatsapp-cloud:${message.from}`
+                : `whatsapp-cloud:${account.accountId}:${message.from}`,
+            AccountId: account.accountId,
+            MessageSid: message.messageId,
+            ChatType: "direct",
+            SenderName: message.senderName,
+            SenderId: message.from,
+            Provider: "whatsapp-cloud",
+            OriginatingChannel: "whatsapp-cloud",
+            OriginatingTo: message.from,
+            Timestamp: parseInt(message.timestamp, 10) * 1000,
+          };
+
+          if (message.quotedMessageId) {
+            msgCtx.ReplyToId = message.quotedMessageId;
+          }
 
-            // Dispatch via OpenClaw's reply system
-            await runtime.channel.reply.dispatchReplyWithBufferedBlockDispatcher({
-              ctx: msgCtx,
-              cfg: freshCfg,
-              dispatcherOptions: {
-                deliver: async (payload: any) => {
-                  if (payload.text) {
-                    await sendText(config, message.from, payload.text, log);
-                  }
-                  if (payload.mediaUrl) {
-                    await sendMedia(config, message.from, "image", { link: payload.mediaUrl }, log);
+          // Button / list selections carry the ID the agent gave the option
+          if (message.interactiveReply) {
+            msgCtx.InteractiveReplyId = message.interactiveReply.id;
+            msgCtx.InteractiveReplyTitle = message.interactiveReply.title;
+            msgCtx.InteractiveReplyType = message.interactiveReply.type;
+          }
+
+          // WhatsApp Flow submissions: the fields as structured data
+          if (message.flowResponse) {
+            msgCtx.FlowResponse = message.flowResponse.data;
+            msgCtx.FlowToken = message.flowResponse.flowToken;
+          }
+
+          // Reactions point at the message they react to; removals have no emoji
+          if (message.reaction) {
+            msgCtx.ReactionEmoji = message.reaction.emoji;
+            msgCtx.ReactionMessageId = message.reaction.messageId;
+          }
+
+          // Catalog carts: the products, quantities and prices as structured data
+          if (message.order) {
+            msgCtx.OrderCatalogId = message.order.catalogId;
+            msgCtx.OrderItems = message.order.items;
+            msgCtx.OrderText = message.order.text;
+          }
+
+          // Click-to-WhatsApp ad or post that started the conversation
+          if (message.referral) {
+            msgCtx.Referral = message.referral;
+          }
+
+          // System notices, e.g. the user moved to a new number
+          if (message.system) {
+            msgCtx.SystemType = message.system.type;
+            msgCtx.SystemNewWaId = message.system.newWaId;
+          }
+
+          // Hand inbound media to the agent as local files (a coalesced burst
+          // can carry several)
+          const mediaRefs = (message.batch ?? [message]).flatMap((m) => (m.media ? [m.media] : []));
+          const downloads = [];
+          for (const media of mediaRefs) {
+            const downloaded = await downloadInboundMedia(config, media, log);
+            if (downloaded) downloads.push(downloaded);
+          }
+          if (downloads.length > 0) {
+            msgCtx.MediaPath = downloads[0].path;
+            msgCtx.MediaUrl = downloads[0].path;
+            msgCtx.MediaType = downloads[0].mimeType;
+            msgCtx.MediaPaths = downloads.map((d) => d.path);
+            msgCtx.MediaUrls = downloads.map((d) => d.path);
+            msgCtx.MediaTypes = downloads.map((d) => d.mimeType);
+          }
+
+          // Quote the triggering message on the first reply ("first") or on every reply ("all")
+          const threading = config.replyThreading ?? CONFIG_DEFAULTS.replyThreading;
+          let quoted = false;
+          const nextReplyTo = (payloadReplyTo?: string): string | undefined => {
+            if (threading === "off" || (threading === "first" && quoted)) return undefined;
+            quoted = true;
+            return payloadReplyTo ?? message.messageId;
+          };
+
+          // Dispatch via OpenClaw's reply system
+          await runtime.channel.reply.dispatchReplyWithBufferedBlockDispatcher({
+            ctx: msgCtx,
+            cfg: freshCfg,
+            dispatcherOptions: {
+              deliver: async (payload: any) => {
+                const text = payload.text ? formatOutboundText(config, payload.text) : "";
+                const interactive = planInteractiveReply(
+                  text,
+                  readReplyChannelData(payload),
+                  config.autoInteractive ?? CONFIG_DEFAULTS.autoInteractive!,
+                  log
+                );
+                if (interactive) {
+                  if (interactive.leadText) {
+                    const replyTo = nextReplyTo(payload.replyToId);
+                    assertSent(await sendText(config, message.from, interactive.leadText, log, { replyTo }));
                   }
-                  if (payload.mediaUrls?.length) {
-                    for (const url of payload.mediaUrls) {
-                      await sendMedia(config, message.from, "image", { link: url }, log);
-                    }
+                  const replyTo = nextReplyTo(payload.replyToId);
+                  assertSent(await sendInteractive(config, message.from, interactive.interactive, log, { replyTo }));
+                } else if (text) {
+                  const replyTo = nextReplyTo(payload.replyToId);
+                  assertSent(await sendText(config, message.from, text, log, { replyTo }));
+                }
+                if (payload.mediaUrl) {
+                  const replyTo = nextReplyTo(payload.replyToId);
+                  assertSent(await sendMediaFromUrl(config, message.from, payload.mediaUrl, { replyTo }, log));
+                }
+                if (payload.mediaUrls?.length) {
+                  for (const url of payload.mediaUrls) {
+                    const replyTo = nextReplyTo(payload.replyToId);
+                    assertSent(await sendMediaFromUrl(config, message.from, url, { replyTo }, log));
                   }
-                },
-                onReplyStart: () => {
-                  log.info?.(`[whatsapp-cloud] Generating reply for ${message.senderName} (${message.from})`);
-                },
+                }
               },
-            });
-          } catch (err) {
-            log.error(`[whatsapp-cloud] Failed to dispatch inbound message: ${err}`);
-          }
-        },
-        // Status update handler
-        (messageId, status, recipientId) => {
-          log.debug?.(`[whatsapp-cloud] Status: ${status} for message ${messageId} to ${recipientId}`);
-        },
-        log
-      );
+              onReplyStart: () => {
+                log.info?.(`[whatsapp-cloud] Generating reply for ${message.senderName} (${message.from})`);
+              },
+            },
+          });
+        } catch (err) {
+          // Rethrow so the webhook leaves the durable inbox entry pending for replay
+          log.error(`[whatsapp-cloud] Failed to dispatch inbound message: ${err}`);
+          throw err;
+        }
+      };
+
+      try {
+        attachWebhookRoute({
+          accountId: account.accountId,
+          config,
+          onMessage,
+          onStatus: (messageId, status, recipientId, details) => {
+            log.debug?.(`[whatsapp-cloud] Status: ${status} for message ${messageId} to ${recipientId}`);
+
+            const record = getMessageStatus(messageId);
+            if (config.statusLog && record) appendStatusLog(config, record, log);
+
+            // The first "sent" of a conversation carries its expiry and billing category
+            if (details.conversation?.expiration_timestamp) {
+              const category = details.pricing?.category ?? details.conversation.origin?.type ?? "unknown";
+              log.info(`[whatsapp-cloud] Conversation ${details.conversation.id} with ${recipientId} opened (${category})`);
+            }
+
+            if (status === "failed") {
+              const error = record?.error;
+              const reason = `Message ${messageId} to ${recipientId} failed: ${error?.describe() ?? "unknown error"}`;
+              log.warn(`[whatsapp-cloud] ${reason}`);
+              if (typeof ctx.setStatus === "function") {
+                ctx.setStatus({ accountId: account.accountId, running: true, lastError: reason });
+              }
+            }
+          },
+          onEvent: (event) => {
+            // Logged and tracked by the webhook; surface problems right away and
+            // clear them once resolved, falling back to the newest issue still open
+            const { message, problem, resolved } = describeBusinessEvent(event);
+            if (typeof ctx.setStatus !== "function") return;
+            if (problem) {
+              ctx.setStatus({ accountId: account.accountId, running: true, lastError: message });
+            } else if (resolved) {
+              const remaining = getBusinessIssues(config.phoneNumberId).at(-1);
+              ctx.setStatus({ accountId: account.accountId, running: true, lastError: remaining?.message ?? null });
+            }
+          },
+          log,
+        });
+      } catch (err) {
+        log.error(`[whatsapp-cloud] Account ${account.accountId}: ${err instanceof Error ? err.message : err}`);
+        if (typeof ctx.setStatus === "function") {
+          ctx.setStatus({ accountId: account.accountId, running: false, lastError: String(err) });
+        }
+        return;
+      }
+      runningAccounts.set(account.accountId, config);
+      ctx.abortSignal?.addEventListener?.("abort", () => {
+        stopAccount(account.accountId).catch(() => {});
+      });
 
-      log.info("[whatsapp-cloud] Channel started");
+      log.info(`[whatsapp-cloud] Account ${account.accountId} started (phone number ID ${config.phoneNumberId})`);
       log.info(`[whatsapp-cloud]   Webhook: http://localhost:${config.webhookPort}${config.webhookPath}`);
       log.info(`[whatsapp-cloud]   DM Policy: ${config.dmPolicy}`);
       if (config.dmPolicy === "allowlist") {
@@ -400,28 +513,32 @@ const whatsappCloudChannel = {
       }
     },
 
-    logoutAccount: async ({ accountId, cfg }: { accountId: string; cfg: any }) => {
-      // Stop webhook if running
-      if (webhookServer) {
-        webhookServer.close();
-        webhookServer = null;
-      }
+    stopAccount: async (ctx: any) => {
+      const accountId: string = ctx.account?.accountId ?? ctx.accountId ?? DEFAULT_ACCOUNT_ID;
+      if (!(await stopAccount(accountId))) return;
 
-      // Clear credentials from config
-      const nextCfg = { ...cfg };
-      const waCloudCfg = cfg.channels?.["whatsapp-cloud"];
-      if (waCloudCfg) {
-        const { accessToken, appSecret, ...rest } = waCloudCfg;
-        nextCfg.channels = {
-          ...nextCfg.channels,
-          "whatsapp-cloud": rest,
-        };
+      ctx.log?.info?.(`[whatsapp-cloud] Account ${accountId} stopped`);
+      if (typeof ctx.setStatus === "function") {
+        ctx.setStatus({ accountId, running: false, lastStopAt: Date.now() });
+      }
+    },
 
+    logoutAccount: async ({ accountId, cfg }: { accountId: string; cfg: any }) => {
+      // Stop this account's webhook route if running
+      await stopAccount(accountId ?? DEFAULT_ACCOUNT_ID);
+
+      // Clear this account's credentials from config
+      let cleared = false;
+      if (cfg.channels?.["whatsapp-cloud"]) {
+        const nextCfg = updateAccountConfig(cfg, accountId, ({ accessToken, appSecret, ...rest }) => {
+          cleared = Boolean(accessToken);
+          return rest;
+        });
         await getWhatsAppCloudRuntime().config.writeConfigFile(nextCfg);
       }
 
       return {
-        cleared: Boolean(waCloudCfg?.accessToken),
+        cleared,
         loggedOut: true,
       };
     },
@@ -457,6 +574,15 @@ const whatsappCloudChannel = {
             message: "WhatsApp Cloud API phone number ID not configured",
           });
         }
+        // Template rejections, quality drops and restrictions from business account webhooks
+        for (const issue of getBusinessIssues(account.config?.phoneNumberId ?? "")) {
+          issues.push({
+            channel: "whatsapp-cloud",
+            accountId: aid,
+            kind: "runtime",
+            message: issue.message,
+          });
+        }
       }
       return issues;
     },
@@ -467,11 +593,12 @@ const whatsappCloudChannel = {
       enabled: account.enabled,
       configured: Boolean(account.config.accessToken?.trim() && account.config.phoneNumberId?.trim()),
       tokenSource: account.tokenSource,
-      running: runtime?.running ?? (webhookServer?.listening ?? false),
+      running: runtime?.running ?? isAccountRunning(account.accountId),
       lastStartAt: runtime?.lastStartAt ?? null,
       lastStopAt: runtime?.lastStopAt ?? null,
       lastError: runtime?.lastError ?? null,
       mode: "webhook",
+      queueDepth: getQueueDepth(account.config.phoneNumberId),
     }),
   },
 };
@@ -495,7 +622,7 @@ const plugin = {
     // Register the channel
     api.registerChannel({ plugin: whatsappCloudChannel });
 
-    // Register CLI commands: `openclaw whatsapp-cloud setup|status|test`
+    // Register CLI commands: `openclaw whatsapp-cloud setup|status|inbox|templates|broadcast|test`
     if (typeof api.registerCli === "function") {
       api.registerCli(
         ({ program }: any) => {
@@ -557,38 +684,285 @@ const plugin = {
           cmd
             .command("status")
             .description("Check WhatsApp Cloud API channel health")
-            .action(async () => {
-              const isRunning = webhookServer !== null && webhookServer.listening;
-              console.log(`WhatsApp Cloud API: ${isRunning ? "OK" : "Not running"}`);
-              console.log(`  Webhook server: ${isRunning ? "running" : "not running"}`);
-
+            .option("--account <id>", "Only check this account")
+            .action(async (opts: { account?: string } = {}) => {
               try {
                 const runtime = getWhatsAppCloudRuntime();
                 const cfg = await runtime.config.loadConfig();
-                const config = resolveConfig(cfg);
-                const validation = validateConfig(config);
-                if (!validation.valid) {
-                  for (const err of validation.errors) {
-                    console.log(`  Config error: ${err}`);
-                  }
+                const accountIds = opts.account ? [opts.account] : listAccountIds(cfg);
+                if (accountIds.length === 0) {
+                  console.log("WhatsApp Cloud API: disabled");
+                  return;
                 }
-                for (const warn of validation.warnings) {
-                  console.log(`  Warning: ${warn}`);
+
+                for (const accountId of accountIds) {
+                  const config = resolveConfig(cfg, accountId);
+                  const isRunning = isAccountRunning(accountId);
+                  console.log(`WhatsApp Cloud API [${accountId}]: ${isRunning ? "OK" : "Not running"}`);
+                  console.log(`  Phone number ID: ${config.phoneNumberId || "(not set)"}`);
+                  console.log(`  Webhook server: ${isRunning ? "running" : "not running"} (port ${config.webhookPort})`);
+                  console.log(`  Outbound queue: ${getQueueDepth(config.phoneNumberId)} pending`);
+                  const validation = validateConfig(config);
+                  if (!validation.valid) {
+                    for (const err of validation.errors) {
+                      console.log(`  Config error: ${err}`);
+                    }
+                  }
+                  for (const warn of validation.warnings) {
+                    console.log(`  Warning: ${warn}`);
+                  }
                 }
               } catch {
                 console.log("  (could not load config)");
               }
             });
 
+          const inbox = cmd
+            .command("inbox")
+            .description("Inspect or purge the durable inbound queue");
+
+          inbox
+            .command("inspect")
+            .description("List webhook events that were received but not yet processed")
+            .option("--account <id>", "Only show this account")
+            .action(async (opts: { account?: string } = {}) => {
+              try {
+                const cfg = await getWhatsAppCloudRuntime().config.loadConfig();
+                for (const accountId of opts.account ? [opts.account] : listAccountIds(cfg)) {
+                  const config = resolveConfig(cfg, accountId);
+                  const pending = listPendingEntries(config, log);
+                  console.log(`[${accountId}] ${inboxPath(config)}: ${pending.length} pending`);
+                  for (const entry of pending) {
+                    const value = inboxEntryValue(entry);
+                    const messages = value.messages?.length ?? 0;
+                    const statuses = value.statuses?.length ?? 0;
+                    console.log(
+                      `  ${entry.id}  ${new Date(entry.receivedAt).toISOString()}  attempts=${entry.attempts}  messages=${messages} statuses=${statuses}`
+                    );
+                  }
+                }
+              } catch (err) {
+                log.error(`Inbox inspect failed: ${err}`);
+                process.exit(1);
+              }
+            });
+
+          inbox
+            .command("purge")
+            .description("Delete unprocessed webhook events (they will not be replayed)")
+            .option("--account <id>", "Only purge this account")
+            .action(async (opts: { account?: string } = {}) => {
+              try {
+                const cfg = await getWhatsAppCloudRuntime().config.loadConfig();
+                for (const accountId of opts.account ? [opts.account] : listAccountIds(cfg)) {
+                  const purged = purgeInbox(resolveConfig(cfg, accountId), log);
+                  console.log(`[${accountId}] Purged ${purged} pending entries`);
+                }
+              } catch (err) {
+                log.error(`Inbox purge failed: ${err}`);
+                process.exit(1);
+              }
+            });
+
+          const templates = cmd
+            .command("templates")
+            .description("Manage the message templates of the WhatsApp Business Account");
+
+          templates
+            .command("list")
+            .description("List templates with their category, status and quality")
+            .option("--status <status>", "Only show templates in this status (e.g. APPROVED)")
+            .option("--account <id>", "Account to use", DEFAULT_ACCOUNT_ID)
+            .action(async (opts: { status?: string; account?: string } = {}) => {
+              try {
+                const cfg = await getWhatsAppCloudRuntime().config.loadConfig();
+                const config = resolveConfig(cfg, opts.account);
+                const result = await listAllTemplates(config, log, opts.status ? { status: opts.status.toUpperCase() } : {});
+                if (!result.ok) {
+                  console.log(`Failed: ${result.error?.describe()}`);
+                  process.exit(1);
+                }
+                for (const t of result.templates ?? []) {
+                  const quality = t.quality_score?.score ?? "-";
+                  console.log(`${t.name}  ${t.language}  ${t.category}  ${t.status}  quality=${quality}  id=${t.id}`);
+                }
+                console.log(`${result.templates?.length ?? 0} templates`);
+              } catch (err) {
+                log.error(`Template list failed: ${err}`);
+                process.exit(1);
+              }
+            });
+
+          templates
+            .command("show")
+            .description("Print a template definition as JSON")
+            .argument("<name>", "Template name")
+            .option("--language <code>", "Language code (e.g. en_US)")
+            .option("--account <id>", "Account to use", DEFAULT_ACCOUNT_ID)
+            .action(async (name: string, opts: { language?: string; account?: string } = {}) => {
+              try {
+                const cfg = await getWhatsAppCloudRuntime().config.loadConfig();
+                const result = await getTemplate(resolveConfig(cfg, opts.account), name, log, opts.language);
+                if (!result.ok) {
+                  console.log(`Failed: ${result.error?.describe()}`);
+                  process.exit(1);
+                }
+                console.log(JSON.stringify(result.template, null, 2));
+              } catch (err) {
+                log.error(`Template show failed: ${err}`);
+                process.exit(1);
+              }
+            });
+
+          templates
+            .command("create")
+            .description("Submit a template for review from a JSON definition")
+            .argument("<file>", "JSON file with name, language, category and components")
+            .option("--account <id>", "Account to use", DEFAULT_ACCOUNT_ID)
+            .action(async (file: string, opts: { account?: string } = {}) => {
+              try {
+                const definition = JSON.parse(await readFile(file, "utf8")) as TemplateDefinition;
+                const cfg = await getWhatsAppCloudRuntime().config.loadConfig();
+                const result = await createTemplate(resolveConfig(cfg, opts.account), definition, log);
+                if (!result.ok) {
+                  console.log(`Failed: ${result.error?.describe()}`);
+                  process.exit(1);
+                }
+                console.log(`Created ${definition.name} (ID: ${result.id}): ${result.status}, ${result.category}`);
+              } catch (err) {
+                log.error(`Template create failed: ${err}`);
+                process.exit(1);
+              }
+            });
+
+          templates
+            .command("delete")
+            .description("Delete a template (all languages, unless --id is given)")
+            .argument("<name>", "Template name")
+            .option("--id <templateId>", "Only delete the language with this template ID")
+            .option("--account <id>", "Account to use", DEFAULT_ACCOUNT_ID)
+            .action(async (name: string, opts: { id?: string; account?: string } = {}) => {
+              try {
+                const cfg = await getWhatsAppCloudRuntime().config.loadConfig();
+                const result = await deleteTemplate(resolveConfig(cfg, opts.account), name, log, { templateId: opts.id });
+                if (!result.ok) {
+                  console.log(`Failed: ${result.error?.describe()}`);
+                  process.exit(1);
+                }
+                console.log(`Deleted ${name}`);
+              } catch (err) {
+                log.error(`Template delete failed: ${err}`);
+                process.exit(1);
+              }
+            });
+
+          cmd
+            .command("broadcast")
+            .description("Send an approved template to every recipient of an audience file")
+            .argument("<audience>", "CSV or JSONL file with a phone column and the template variables")
+            .requiredOption("--template <name>", "Template to send")
+            .option("--language <code>", "Template language code", "en_US")
+            .option("--results <file>", "Results file, also used to resume (default: <audience>.results.jsonl)")
+            .option("--rate <n>", "Messages per second", String(BROADCAST_DEFAULTS.messagesPerSecond))
+            .option("--country-code <code>", "Country code for numbers written without + or 00")
+            .option("--dry-run", "Check every row against the template without sending")
+            .option("--retry-failed", "Send again to recipients that failed in an earlier run")
+            .option("--wait <seconds>", "Wait for delivery statuses from the gateway's status log (needs statusLog)", "0")
+            .option("--account <id>", "Account to send from", DEFAULT_ACCOUNT_ID)
+            .action(
+              async (
+                audienceFile: string,
+                opts: {
+                  template: string;
+                  language: string;
+                  results?: string;
+                  rate: string;
+                  countryCode?: string;
+                  dryRun?: boolean;
+                  retryFailed?: boolean;
+                  wait: string;
+                  account?: string;
+                }
+              ) => {
+                const abort = new AbortController();
+                const onSigint = () => {
+                  console.log("Stopping after the sends in flight — run again with the same results file to resume");
+                  abort.abort();
+                };
+                const rate = Number(opts.rate);
+                const waitSeconds = Number(opts.wait);
+                if (!Number.isFinite(rate) || rate <= 0) {
+                  console.log(`Invalid --rate ${opts.rate}: must be a positive number of messages per second`);
+                  process.exit(1);
+                }
+                if (!Number.isFinite(waitSeconds) || waitSeconds < 0) {
+                  console.log(`Invalid --wait ${opts.wait}: must be a number of seconds`);
+                  process.exit(1);
+                }
+                process.once("SIGINT", onSigint);
+                try {
+                  const audience = await loadAudience(audienceFile, opts.countryCode);
+                  for (const { line, reason } of audience.invalid) console.log(`Line ${line} skipped: ${reason}`);
+                  console.log(
+                    `${audience.rows.length} recipients (${audience.invalid.length} invalid, ${audience.duplicates} duplicates)`
+                  );
+
+                  const cfg = await getWhatsAppCloudRuntime().config.loadConfig();
+                  const config = resolveConfig(cfg, opts.account);
+                  if (!config.statusLog && !opts.dryRun) {
+                    console.log("statusLog is off: results will only show whether each message was accepted");
+                  }
+                  let lastPrinted = 0;
+                  const report = await runBroadcast(
+                    config,
+                    {
+                      template: opts.template,
+                      language: opts.language,
+                      audience: audience.rows,
+                      resultsPath: opts.results ?? `${audienceFile}.results.jsonl`,
+                      messagesPerSecond: rate,
+                      dryRun: opts.dryRun,
+                      retryFailed: opts.retryFailed,
+                      waitForStatusMs: waitSeconds * 1000,
+                      signal: abort.signal,
+                      onProgress: ({ total, done, failed }) => {
+                        if (done === total || Date.now() - lastPrinted >= 2000) {
+                          lastPrinted = Date.now();
+                          console.log(`${done}/${total} done, ${failed} failed`);
+                        }
+                      },
+                    },
+                    log
+                  );
+
+                  const summary = Object.entries(report.counts).map(([status, n]) => `${n} ${status}`);
+                  console.log(`${report.interrupted ? "Interrupted" : "Done"}: ${summary.join(", ") || "nothing to send"}`);
+                  if (report.skipped) console.log(`${report.skipped} recipients were handled by an earlier run`);
+                  if (opts.dryRun) {
+                    for (const r of report.results) if (r.status === "invalid") console.log(`${r.to}: ${r.error}`);
+                  } else {
+                    console.log(`Results: ${opts.results ?? `${audienceFile}.results.jsonl`}`);
+                  }
+                  if (report.interrupted) process.exit(130);
+                } catch (err) {
+                  log.error(`Broadcast failed: ${err}`);
+                  process.exit(1);
+                } finally {
+                  process.off("SIGINT", onSigint);
+                }
+              }
+            );
+
           cmd
             .command("test")
             .description("Send a test message to verify configuration")
             .argument("<phone>", "Recipient phone in E.164 format (e.g., +393491234567)")
-            .action(async (phone: string) => {
+            .option("--account <id>", "Account to send from", DEFAULT_ACCOUNT_ID)
+            .action(async (phone: string, opts: { account?: string } = {}) => {
               try {
                 const runtime = getWhatsAppCloudRuntime();
                 const cfg = await runtime.config.loadConfig();
-                const config = resolveConfig(cfg);
+                const config = resolveConfig(cfg, opts.account);
 
                 if (!config.accessToken || !config.phoneNumberId) {
                   log.error("Missing config. Run 'openclaw whatsapp-cloud setup' first.");
@@ -605,7 +979,7 @@ const plugin = {
                 if (result.ok) {
                   console.log(`Test message sent to ${phone} (ID: ${result.messageId})`);
                 } else {
-                  console.log(`Failed: ${result.error}`);
+                  console.log(`Failed: ${result.error?.describe()}`);
                   process.exit(1);
                 }
               } catch (err) {
@@ -618,6 +992,52 @@ const plugin = {
       );
     }
 
+    // Agent tool: send a login code and check what the contact types back
+    if (typeof api.registerTool === "function") {
+      api.registerTool({
+        name: "whatsapp_cloud_otp",
+        description:
+          "Verify a WhatsApp contact with a one-time passcode. action=request sends a code with the " +
+          "authentication template (otpTemplate); action=verify checks the code the contact replied with.",
+        parameters: {
+          type: "object",
+          properties: {
+            action: { type: "string", enum: ["request", "verify"] },
+            to: { type: "string", description: "Contact phone number (digits, with country code)" },
+            code: { type: "string", description: "Code the contact sent back (action=verify)" },
+            accountId: { type: "string", description: "WhatsApp Cloud account (default: the first one)" },
+          },
+          required: ["action", "to"],
+          additionalProperties: false,
+        },
+        async execute(
+          _toolCallId: string,
+          params: { action: "request" | "verify"; to: string; code?: string; accountId?: string }
+        ) {
+          const reply = (text: string) => ({ content: [{ type: "text", text }] });
+          const cfg = await getWhatsAppCloudRuntime().config.loadConfig();
+          const config = resolveConfig(cfg, params.accountId ?? listAccountIds(cfg)[0] ?? DEFAULT_ACCOUNT_ID);
+
+          if (params.action === "request") {
+            const result = await requestOtp(config, params.to, log);
+            return reply(
+              result.ok
+                ? `Code sent to ${params.to}; it expires at ${new Date(result.expiresAt!).toISOString()}. Ask the contact to reply with it.`
+                : `Code not sent: ${result.error?.describe()}`
+            );
+          }
+          if (!params.code) return reply("Pass the code the contact sent back.");
+          const { valid, reason, attemptsLeft } = await verifyOtp(config, params.to, params.code);
+          if (valid) return reply(`${params.to} is verified.`);
+          return reply(
+            reason === "mismatch"
+              ? `Wrong code; ${attemptsLeft} attempt(s) left.`
+              : `Not verified (${reason}). Request a new code.`
+          );
+        },
+      });
+    }
+
     log.info("[whatsapp-cloud] Plugin registered");
   },
 };
@@ -628,9 +1048,131 @@ export default plugin;
 // Re-exports
 // ---------------------------------------------------------------------------
 
-export { sendText, sendTemplate, sendInteractive, sendButtons, sendMedia } from "./api.js";
-export { markAsRead, sendTypingIndicator, getMediaUrl, downloadMedia } from "./api.js";
+export { sendText, sendTemplate, sendInteractive, sendButtons, sendFlow, sendMedia } from "./api.js";
+export {
+  buildButtonMessage,
+  buildListMessage,
+  buildCtaUrlMessage,
+  buildLocationRequestMessage,
+  buildAddressMessage,
+  buildProductMessage,
+  buildProductListMessage,
+  buildCatalogMessage,
+  buildFlowMessage,
+  INTERACTIVE_LIMITS,
+} from "./api.js";
+export type { InteractiveExtras } from "./api.js";
+export { markAsRead, sendTypingIndicator, getMediaUrl, downloadMedia, uploadMedia } from "./api.js";
+export { sendMediaFromUrl, sendMediaBuffer, downloadInboundMedia, resolveMediaType, sniffMimeType, MEDIA_LIMITS } from "./media.js";
+export { graphRequest } from "./api.js";
+export {
+  listTemplates,
+  listAllTemplates,
+  getTemplate,
+  getCachedTemplate,
+  createTemplate,
+  deleteTemplate,
+  buildTemplateComponents,
+  validateTemplateComponents,
+  sendValidatedTemplate,
+  currencyParameter,
+  dateTimeParameter,
+} from "./templates.js";
+export type {
+  TemplateParams,
+  TemplateCardParams,
+  TemplateHeaderParams,
+  TemplateButtonParams,
+  TemplateValue,
+  MessageTemplate,
+  TemplateDefinition,
+  TemplateDefinitionComponent,
+  TemplateDefinitionButton,
+  TemplateCategory,
+  TemplateStatus,
+  TemplateListQuery,
+  TemplateListResult,
+  TemplateResult,
+  CreateTemplateResult,
+} from "./templates.js";
+export {
+  sendOtp,
+  requestOtp,
+  verifyOtp,
+  generateOtp,
+  buildOtpComponents,
+  setOtpStore,
+  createMemoryOtpStore,
+  OTP_DEFAULTS,
+} from "./otp.js";
+export type { OtpStore, OtpRecord, OtpVerifyResult, SendOtpOptions, RequestOtpOptions } from "./otp.js";
+export {
+  runBroadcast,
+  loadAudience,
+  parseAudience,
+  normalizePhoneNumber,
+  BROADCAST_DEFAULTS,
+} from "./broadcast.js";
+export type {
+  AudienceRow,
+  AudienceParseResult,
+  BroadcastOptions,
+  BroadcastProgress,
+  BroadcastReport,
+  BroadcastResult,
+  BroadcastStatus,
+} from "./broadcast.js";
+export { getQueueDepth } from "./queue.js";
+export { dispatchInbound, coalesceMessages } from "./dispatch.js";
+export { markdownToWhatsApp, containsUrl } from "./format.js";
+export { chunkMessage, graphemeLength, TEXT_MAX_LENGTH } from "./chunk.js";
+export type { ChunkOptions } from "./chunk.js";
+export { planInteractiveReply, extractNumberedOptions } from "./interactive.js";
+export { setFlowDataHandler, FlowEndpointError } from "./flows.js";
+export type { FlowDataHandler, FlowDataRequest, FlowDataResponse, FlowDataContext } from "./flows.js";
+export type { WhatsAppReplyChannelData, InteractiveReplyPlan } from "./interactive.js";
+export { getMessageStatus, onStatusChange, waitForStatus } from "./status.js";
+export { parseBusinessEvent, describeBusinessEvent, getBusinessIssues } from "./business-events.js";
+export type { WhatsAppBusinessEvent, BusinessEventField, BusinessIssue } from "./business-events.js";
+export type { MessageStatusRecord, TrackedStatus, StatusChangeListener } from "./status.js";
+export { readStatusLog, DEFAULT_STATUS_LOG_DIR } from "./status-log.js";
+export type { LoggedStatus } from "./status-log.js";
+export { listPendingEntries, inboxEntryValue, purgeInbox, DEFAULT_INBOX_DIR } from "./inbox.js";
+export type { InboxEntry } from "./inbox.js";
+export {
+  getWindowState,
+  recordInboundMessage,
+  sendWithinWindow,
+  setConversationWindowStore,
+  SERVICE_WINDOW_MS,
+  REENGAGEMENT_COOLDOWN_MS,
+} from "./conversation-window.js";
+export type { ConversationWindowStore, WindowState } from "./conversation-window.js";
 export { runSetupWizard, validateConfig } from "./setup.js";
-export type { WhatsAppCloudConfig } from "./types.js";
+export { resolveConfig, resolveAccount, listAccountIds, DEFAULT_ACCOUNT_ID } from "./accounts.js";
+export type { ResolvedWhatsAppCloudAccount } from "./accounts.js";
+export { attachWebhookRoute, detachWebhookRoute, setWebhookDedupStore, createMemoryDedupStore } from "./webhook.js";
+export type { WebhookRoute, WebhookEventHandler, WebhookDedupStore, MemoryDedupStoreOptions } from "./webhook.js";
+export { WhatsAppApiError, WhatsAppValidationError, classifyErrorCode } from "./errors.js";
+export type { WhatsAppApiErrorKind } from "./errors.js";
+export type {
+  TemplateStatusUpdateValue,
+  TemplateQualityUpdateValue,
+  TemplateCategoryUpdateValue,
+  PhoneNumberQualityUpdateValue,
+  AccountUpdateValue,
+  BusinessCapabilityUpdateValue,
+} from "./types.js";
+export type { TemplateComponent, TemplateParameter, TemplateButtonComponent, TemplateCarouselCard } from "./types.js";
+export type { WhatsAppCloudConfig, SendResult, GraphResult, SendOptions, SendTextOptions, SendMediaOptions, OutboundMediaType, MessageStatus, ConversationCategory } from "./types.js";
+export type {
+  InteractiveMessage,
+  InteractiveType,
+  InteractiveHeader,
+  InteractiveListSection,
+  AddressMessageParameters,
+  FlowActionParameters,
+  FlowMessageOptions,
+} from "./types.js";
 export type { ParsedInboundMessage, ParsedInboundMessage as InboundMessage } from "./webhook.js";
 export { whatsappCloudOnboardingAdapter } from "./onboarding.js";
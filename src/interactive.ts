@@ -0,0 +1,186 @@
+// ---------------------------------------------------------------------------
+// Interactive replies — buttons, lists and CTA URLs chosen by the agent
+//
+// Agents attach choices to a reply payload under channelData.whatsapp:
+//
+//   { text: "Pick a size", channelData: { whatsapp: {
+//       buttons: [{ id: "s", title: "Small" }, { id: "l", title: "Large" }] } } }
+//
+// With `autoInteractive` on, a reply that ends in a short numbered list
+// ("1. Small\n2. Large") is sent as buttons (≤3) or a list message (≤10).
+// ---------------------------------------------------------------------------
+
+import { graphemeLength } from "./chunk.js";
+import {
+  INTERACTIVE_LIMITS,
+  buildButtonMessage,
+  buildListMessage,
+  buildCtaUrlMessage,
+} from "./api.js";
+import { WhatsAppValidationError } from "./errors.js";
+import type { InteractiveMessage, Logger } from "./types.js";
+
+export interface ReplyListRow {
+  id?: string;
+  title: string;
+  description?: string;
+}
+
+/** Contract for payload.channelData.whatsapp on agent replies */
+export interface WhatsAppReplyChannelData {
+  /** Quick reply buttons (at most 3) */
+  buttons?: Array<{ id?: string; title: string }>;
+  /** List message: either flat rows or titled sections (10 rows in total) */
+  list?: {
+    button: string;
+    rows?: ReplyListRow[];
+    sections?: Array<{ title?: string; rows: ReplyListRow[] }>;
+  };
+  /** Single button that opens a URL */
+  ctaUrl?: { text: string; url: string };
+  /** Body text when the reply has none (or it's too long for an interactive body) */
+  body?: string;
+  header?: string;
+  footer?: string;
+}
+
+/** What to send for a reply: optional plain text first, then the interactive message */
+export interface InteractiveReplyPlan {
+  leadText?: string;
+  interactive: InteractiveMessage;
+}
+
+const DEFAULT_BODY = "Choose an option:";
+const DEFAULT_LIST_BUTTON = "Options";
+
+/** The WhatsApp channel data on a reply payload, if any */
+export function readReplyChannelData(payload: unknown): WhatsAppReplyChannelData | undefined {
+  const data = (payload as { channelData?: { whatsapp?: unknown } } | undefined)?.channelData?.whatsapp;
+  return data && typeof data === "object" ? (data as WhatsAppReplyChannelData) : undefined;
+}
+
+/**
+ * Decide how to send a reply with choices. Returns undefined when the reply
+ * should go out as plain text — including when the agent's choices break
+ * Meta's limits (too many buttons, duplicate IDs, …). Overlong titles are
+ * shortened rather than rejected.
+ */
+export function planInteractiveReply(
+  text: string,
+  data: WhatsAppReplyChannelData | undefined,
+  autoInteractive: boolean,
+  log?: Logger
+): InteractiveReplyPlan | undefined {
+  if (data && (data.buttons?.length || data.list || data.ctaUrl)) {
+    const { leadText, body } = splitBody(text, data.body);
+    const interactive = buildInteractive(body, data, log);
+    return interactive ? { leadText, interactive } : undefined;
+  }
+
+  if (!autoInteractive) return undefined;
+  const detected = extractNumberedOptions(text);
+  if (!detected || graphemeLength(detected.body) > INTERACTIVE_LIMITS.body) return undefined;
+
+  const { body, options } = detected;
+  const rows = options.map((title, index) => ({ id: `option:${index + 1}`, title }));
+  let interactive: InteractiveMessage | undefined;
+  if (rows.length <= INTERACTIVE_LIMITS.buttons && fits(options, INTERACTIVE_LIMITS.buttonTitle)) {
+    interactive = buildInteractive(body, { buttons: rows }, log);
+  } else if (rows.length <= INTERACTIVE_LIMITS.rows && fits(options, INTERACTIVE_LIMITS.rowTitle)) {
+    interactive = buildInteractive(body, { list: { button: DEFAULT_LIST_BUTTON, rows } }, log);
+  }
+  return interactive ? { interactive } : undefined;
+}
+
+/**
+ * Find a numbered list ("1. …", "2) …") closing the text. Needs at least two
+ * options numbered from 1 and some text before them.
+ */
+export function extractNumberedOptions(text: string): { body: string; options: string[] } | undefined {
+  const lines = text.trimEnd().split("\n");
+  const options: string[] = [];
+
+  let i = lines.length - 1;
+  for (; i >= 0; i--) {
+    const match = lines[i].match(/^\s*(\d{1,2})[.)]\s+(.+)$/);
+    if (!match) break;
+    options.unshift(stripEmphasis(match[2].trim()));
+  }
+
+  const numbers = lines.slice(i + 1).map((line) => parseInt(line.trim(), 10));
+  if (options.length < 2 || numbers.some((n, index) => n !== index + 1)) return undefined;
+
+  const body = lines.slice(0, i + 1).join("\n").trim();
+  return body ? { body, options } : undefined;
+}
+
+function buildInteractive(
+  body: string,
+  data: WhatsAppReplyChannelData,
+  log?: Logger
+): InteractiveMessage | undefined {
+  const header = data.header ? truncate(data.header, INTERACTIVE_LIMITS.header) : undefined;
+  const footer = data.footer ? truncate(data.footer, INTERACTIVE_LIMITS.footer) : undefined;
+
+  try {
+    if (data.buttons?.length) {
+      const buttons = data.buttons.map((b, index) => ({
+        id: b.id ?? `option:${index + 1}`,
+        title: truncate(b.title, INTERACTIVE_LIMITS.buttonTitle),
+      }));
+      return buildButtonMessage(body, buttons, { header, footer });
+    }
+
+    if (data.list) {
+      let index = 0;
+      const sections = (data.list.sections ?? [{ rows: data.list.rows ?? [] }]).map((section) => ({
+        ...(section.title ? { title: truncate(section.title, INTERACTIVE_LIMITS.sectionTitle) } : {}),
+        rows: section.rows.map((row) => ({
+          id: row.id ?? `option:${++index}`,
+          title: truncate(row.title, INTERACTIVE_LIMITS.rowTitle),
+          ...(row.description ? { description: truncate(row.description, INTERACTIVE_LIMITS.rowDescription) } : {}),
+        })),
+      }));
+      const button = truncate(data.list.button || DEFAULT_LIST_BUTTON, INTERACTIVE_LIMITS.listButton);
+      return buildListMessage(body, button, sections, { header, footer });
+    }
+
+    if (data.ctaUrl) {
+      const text = truncate(data.ctaUrl.text, INTERACTIVE_LIMITS.buttonTitle);
+      return buildCtaUrlMessage(body, text, data.ctaUrl.url, { header, footer });
+    }
+  } catch (err) {
+    if (!(err instanceof WhatsAppValidationError)) throw err;
+    // The message starts with the offending field, e.g. "action.buttons[1].reply.id: duplicate"
+    log?.warn(`[whatsapp-cloud] Sending the reply as plain text — interactive message invalid at ${err.message}`);
+    return undefined;
+  }
+
+  return undefined;
+}
+
+/** Interactive bodies are capped at 1024 characters; longer text goes out first as plain text */
+function splitBody(text: string, fallback?: string): { leadText?: string; body: string } {
+  if (text && graphemeLength(text) <= INTERACTIVE_LIMITS.body) return { body: text };
+  if (!text) return { body: fallback || DEFAULT_BODY };
+  if (fallback) return { leadText: text, body: fallback };
+
+  const cut = text.lastIndexOf("\n\n");
+  const last = cut > 0 ? text.slice(cut + 2).trim() : "";
+  if (last && graphemeLength(last) <= INTERACTIVE_LIMITS.body) {
+    return { leadText: text.slice(0, cut).trimEnd(), body: last };
+  }
+  return { leadText: text, body: DEFAULT_BODY };
+}
+
+function fits(titles: string[], max: number): boolean {
+  return titles.every((t) => graphemeLength(t) <= max);
+}
+
+function truncate(text: string, max: number): string {
+  return graphemeLength(text) <= max ? text : Array.from(text).slice(0, max - 1).join("") + "…";
+}
+
+function stripEmphasis(text: string): string {
+  return text.replace(/^([*_~])(.+)\1$/, "$2");
+}
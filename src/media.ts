@@ -0,0 +1,438 @@
+// ---------------------------------------------------------------------------
+// Media handling — outbound type inference and upload, inbound download
+// ---------------------------------------------------------------------------
+
+import { basename, extname, join, resolve, sep } from "node:path";
+import { homedir, tmpdir } from "node:os";
+import { mkdir, readFile, realpath, writeFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import { sendMedia, uploadMedia, getMediaUrl, downloadMedia } from "./api.js";
+import { WhatsAppApiError } from "./errors.js";
+import type { WhatsAppCloudConfig, OutboundMediaType, SendResult, SendOptions, Logger } from "./types.js";
+import { CONFIG_DEFAULTS } from "./types.js";
+
+const MB = 1024 * 1024;
+
+/**
+ * Supported formats and size limits per media type.
+ *
+ * @see https://developers.facebook.com/docs/whatsapp/cloud-api/reference/media#supported-media-types
+ */
+export const MEDIA_LIMITS: Record<OutboundMediaType, { mimeTypes: readonly string[] | "*"; maxBytes: number }> = {
+  image: { mimeTypes: ["image/jpeg", "image/png"], maxBytes: 5 * MB },
+  audio: {
+    mimeTypes: ["audio/aac", "audio/amr", "audio/mpeg", "audio/mp4", "audio/ogg"],
+    maxBytes: 16 * MB,
+  },
+  video: { mimeTypes: ["video/mp4", "video/3gpp"], maxBytes: 16 * MB },
+  // Animated stickers may be up to 500 KB, static ones only 100 KB
+  sticker: { mimeTypes: ["image/webp"], maxBytes: 500 * 1024 },
+  document: { mimeTypes: "*", maxBytes: 100 * MB },
+};
+
+const STATIC_STICKER_MAX_BYTES = 100 * 1024;
+
+/** Media types that accept a caption */
+const CAPTIONED_TYPES: ReadonlySet<OutboundMediaType> = new Set(["image", "video", "document"]);
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+  ".gif": "image/gif",
+  ".mp3": "audio/mpeg",
+  ".ogg": "audio/ogg",
+  ".opus": "audio/ogg",
+  ".aac": "audio/aac",
+  ".amr": "audio/amr",
+  ".m4a": "audio/mp4",
+  ".mp4": "video/mp4",
+  ".3gp": "video/3gpp",
+  ".pdf": "application/pdf",
+  ".txt": "text/plain",
+  ".csv": "text/csv",
+  ".doc": "application/msword",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".xls": "application/vnd.ms-excel",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".ppt": "application/vnd.ms-powerpoint",
+  ".pptx": "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+};
+
+/** True for file:// URLs and filesystem paths; false for http(s) and any other URL scheme */
+export function isLocalMediaRef(mediaUrl: string): boolean {
+  return /^file:\/\//i.test(mediaUrl) || !/^[a-z][a-z\d+.\-]+:/i.test(mediaUrl);
+}
+
+/**
+ * Resolve a local media reference to a real path under `outboundMediaDir`.
+ * Symlinks are followed before the check, so a link can't point outside
+ * the directory. Relative paths are taken relative to the directory.
+ */
+export async function resolveLocalMediaPath(config: WhatsAppCloudConfig, mediaUrl: string): Promise<string> {
+  if (!config.outboundMediaDir) {
+    throw new WhatsAppApiError("Local media files are disabled — set outboundMediaDir to allow them", {
+      kind: "media",
+    });
+  }
+  const root = await realpath(expandHome(config.outboundMediaDir));
+  const requested = mediaUrl.toLowerCase().startsWith("file://") ? fileURLToPath(mediaUrl) : expandHome(mediaUrl);
+  const path = await realpath(resolve(root, requested));
+  if (path !== root && !path.startsWith(root + sep)) {
+    throw new WhatsAppApiError(`${mediaUrl} is outside outboundMediaDir`, { kind: "media" });
+  }
+  return path;
+}
+
+/** Expand a leading ~ so agent-written paths like ~/out/chart.png resolve */
+function expandHome(path: string): string {
+  return path.startsWith("~/") ? homedir() + path.slice(1) : path;
+}
+
+/** Guess a MIME type from a path or URL extension */
+export function mimeTypeFromPath(pathOrUrl: string): string | undefined {
+  const clean = pathOrUrl.split(/[?#]/)[0];
+  return MIME_BY_EXTENSION[extname(clean).toLowerCase()];
+}
+
+function extensionForMimeType(mimeType: string): string {
+  const entry = Object.entries(MIME_BY_EXTENSION).find(([, mime]) => mime === mimeType);
+  return entry ? entry[0] : "";
+}
+
+// ---------------------------------------------------------------------------
+// Magic-byte sniffing
+// ---------------------------------------------------------------------------
+
+function startsWith(buffer: Buffer, bytes: number[], offset: number = 0): boolean {
+  return bytes.every((b, i) => buffer[offset + i] === b);
+}
+
+function ascii(buffer: Buffer, start: number, end: number): string {
+  return buffer.subarray(start, end).toString("latin1");
+}
+
+/**
+ * Identify common media formats from their leading bytes.
+ * Returns undefined for anything unrecognised (including ZIP-based Office
+ * files, which need the extension to tell apart).
+ */
+export function sniffMimeType(buffer: Buffer): string | undefined {
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47])) return "image/png";
+  if (ascii(buffer, 0, 4) === "RIFF" && ascii(buffer, 8, 12) === "WEBP") return "image/webp";
+  if (ascii(buffer, 0, 4) === "GIF8") return "image/gif";
+  if (ascii(buffer, 0, 5) === "%PDF-") return "application/pdf";
+  if (ascii(buffer, 0, 4) === "OggS") return "audio/ogg";
+  if (ascii(buffer, 0, 5) === "#!AMR") return "audio/amr";
+  if (ascii(buffer, 0, 3) === "ID3") return "audio/mpeg";
+  if (ascii(buffer, 4, 8) === "ftyp") {
+    const brand = ascii(buffer, 8, 12);
+    if (brand.startsWith("3gp")) return "video/3gpp";
+    if (brand === "M4A " || brand === "M4B ") return "audio/mp4";
+    return "video/mp4";
+  }
+  // MPEG audio frame sync (0xFFE) — layer bits tell MP3 from ADTS AAC
+  if (buffer.length > 1 && buffer[0] === 0xff && (buffer[1] & 0xe0) === 0xe0) {
+    return (buffer[1] & 0x06) === 0 ? "audio/aac" : "audio/mpeg";
+  }
+  return undefined;
+}
+
+/** Animated WebP files carry the animation flag in their VP8X header */
+function isAnimatedWebp(buffer: Buffer): boolean {
+  return ascii(buffer, 12, 16) === "VP8X" && (buffer[20] & 0x02) !== 0;
+}
+
+// ---------------------------------------------------------------------------
+// Type resolution
+// ---------------------------------------------------------------------------
+
+export interface ResolvedMediaType {
+  type: OutboundMediaType;
+  mimeType: string;
+  /** Set for documents so the recipient sees a sensible file name */
+  filename?: string;
+  /** Why the media was sent as a document instead of its natural type */
+  fallbackReason?: string;
+}
+
+/**
+ * Pick the WhatsApp media type for a file, checking format and size limits.
+ * Falls back to `document` whenever the natural type can't take the file;
+ * throws a "media" WhatsAppApiError when not even a document can.
+ */
+export function resolveMediaType(input: {
+  mimeType?: string;
+  size?: number;
+  filename?: string;
+  /** Only needed to tell static from animated WebP stickers */
+  buffer?: Buffer;
+}): ResolvedMediaType {
+  const mimeType = (input.mimeType ?? "application/octet-stream").split(";")[0].trim().toLowerCase();
+  const natural = (Object.keys(MEDIA_LIMITS) as OutboundMediaType[]).find((type) => {
+    const { mimeTypes } = MEDIA_LIMITS[type];
+    return mimeTypes !== "*" && mimeTypes.includes(mimeType);
+  });
+
+  const asDocument = (reason?: string): ResolvedMediaType => {
+    assertWithinLimit("document", input.size);
+    return {
+      type: "document",
+      mimeType,
+      filename: input.filename ?? `file${extensionForMimeType(mimeType)}`,
+      ...(reason ? { fallbackReason: reason } : {}),
+    };
+  };
+
+  if (!natural) {
+    return asDocument(input.mimeType ? `${mimeType} is not supported as inline media` : undefined);
+  }
+
+  let maxBytes = MEDIA_LIMITS[natural].maxBytes;
+  if (natural === "sticker" && input.buffer && !isAnimatedWebp(input.buffer)) {
+    maxBytes = STATIC_STICKER_MAX_BYTES;
+  }
+  if (input.size !== undefined && input.size > maxBytes) {
+    return asDocument(`${input.size} bytes exceeds the ${natural} limit of ${maxBytes} bytes`);
+  }
+
+  return { type: natural, mimeType };
+}
+
+function assertWithinLimit(type: OutboundMediaType, size: number | undefined): void {
+  const { maxBytes } = MEDIA_LIMITS[type];
+  if (size !== undefined && size > maxBytes) {
+    throw new WhatsAppApiError(`${size} bytes exceeds the ${type} limit of ${maxBytes} bytes`, { kind: "media" });
+  }
+}
+
+/** Probe a remote URL with HEAD for its content type and length (best-effort) */
+async function probeRemoteMedia(url: string): Promise<{ mimeType?: string; size?: number }> {
+  try {
+    const response = await fetch(url, { method: "HEAD", signal: AbortSignal.timeout(5000) });
+    if (!response.ok) return {};
+    const length = response.headers.get("content-length");
+    return {
+      mimeType: response.headers.get("content-type") ?? undefined,
+      size: length ? Number(length) : undefined,
+    };
+  } catch {
+    return {};
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Sending
+// ---------------------------------------------------------------------------
+
+export interface MediaSendOptions extends SendOptions {
+  caption?: string;
+  /** Overrides the derived file name for documents */
+  filename?: string;
+  /** Skip detection and send as this type */
+  mediaType?: OutboundMediaType;
+}
+
+/**
+ * Send media referenced by URL. Remote http(s) URLs are passed to Meta as
+ * `link`; local paths and file:// URLs under `outboundMediaDir` are uploaded
+ * first and sent by media ID. Other URL schemes are refused.
+ * The media type is inferred from the file unless `options.mediaType` is set.
+ */
+export async function sendMediaFromUrl(
+  config: WhatsAppCloudConfig,
+  to: string,
+  mediaUrl: string,
+  options: MediaSendOptions,
+  log: Logger
+): Promise<SendResult> {
+  if (isLocalMediaRef(mediaUrl)) {
+    let path: string;
+    let buffer: Buffer;
+    try {
+      path = await resolveLocalMediaPath(config, mediaUrl);
+      buffer = await readFile(path);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      log.error(`[whatsapp-cloud] Cannot read media file: ${message}`);
+      return {
+        ok: false,
+        error: err instanceof WhatsAppApiError ? err : new WhatsAppApiError(message, { kind: "media", cause: err }),
+      };
+    }
+    return sendMediaBuffer(config, to, buffer, { filename: basename(path), ...options }, log);
+  }
+  if (!/^https?:\/\//i.test(mediaUrl)) {
+    log.error(`[whatsapp-cloud] Refusing media URL with unsupported scheme: ${mediaUrl}`);
+    return { ok: false, error: new WhatsAppApiError(`Unsupported media URL: ${mediaUrl}`, { kind: "media" }) };
+  }
+
+  let urlName: string | undefined;
+  try {
+    urlName = basename(new URL(mediaUrl).pathname) || undefined;
+  } catch {
+    log.error(`[whatsapp-cloud] Refusing malformed media URL: ${mediaUrl}`);
+    return { ok: false, error: new WhatsAppApiError(`Invalid media URL: ${mediaUrl}`, { kind: "media" }) };
+  }
+  let mimeType = mimeTypeFromPath(mediaUrl);
+  let size: number | undefined;
+  if (!options.mediaType) {
+    const probe = await probeRemoteMedia(mediaUrl);
+    mimeType = probe.mimeType && probe.mimeType !== "application/octet-stream" ? probe.mimeType : mimeType;
+    size = probe.size;
+  }
+
+  let resolved: ResolvedMediaType;
+  try {
+    resolved = resolveWithOverride(options, { mimeType, size, filename: options.filename ?? urlName });
+  } catch (err) {
+    return mediaRejected(err, mediaUrl, log);
+  }
+  logFallback(resolved, mediaUrl, log);
+  return sendResolved(config, to, resolved, { link: mediaUrl }, options, log);
+}
+
+/**
+ * Upload a buffer and send it, inferring the media type from its magic bytes
+ * (then `options.mimeType`, then the file name).
+ */
+export async function sendMediaBuffer(
+  config: WhatsAppCloudConfig,
+  to: string,
+  buffer: Buffer,
+  options: MediaSendOptions & { mimeType?: string },
+  log: Logger
+): Promise<SendResult> {
+  const mimeType =
+    sniffMimeType(buffer) ??
+    options.mimeType ??
+    (options.filename ? mimeTypeFromPath(options.filename) : undefined);
+
+  let resolved: ResolvedMediaType;
+  try {
+    resolved = resolveWithOverride(options, {
+      mimeType,
+      size: buffer.length,
+      filename: options.filename,
+      buffer,
+    });
+  } catch (err) {
+    return mediaRejected(err, options.filename ?? "buffer", log);
+  }
+  logFallback(resolved, options.filename ?? "buffer", log);
+
+  const upload = await uploadMedia(config, buffer, resolved.mimeType, log, {
+    filename: resolved.filename ?? options.filename,
+  });
+  if (!upload.ok) {
+    return { ok: false, error: upload.error };
+  }
+
+  return sendResolved(config, to, resolved, { id: upload.mediaId }, options, log);
+}
+
+function resolveWithOverride(
+  options: MediaSendOptions,
+  input: Parameters<typeof resolveMediaType>[0]
+): ResolvedMediaType {
+  if (options.mediaType) {
+    assertWithinLimit(options.mediaType, input.size);
+    return {
+      type: options.mediaType,
+      mimeType: input.mimeType ?? "application/octet-stream",
+      ...(options.mediaType === "document" ? { filename: input.filename } : {}),
+    };
+  }
+  return resolveMediaType(input);
+}
+
+function mediaRejected(err: unknown, source: string, log: Logger): SendResult {
+  if (!(err instanceof WhatsAppApiError)) throw err;
+  log.error(`[whatsapp-cloud] Cannot send ${source}: ${err.message}`);
+  return { ok: false, error: err };
+}
+
+function logFallback(resolved: ResolvedMediaType, source: string, log: Logger): void {
+  if (resolved.fallbackReason) {
+    log.info(`[whatsapp-cloud] Sending ${source} as document: ${resolved.fallbackReason}`);
+  }
+}
+
+async function sendResolved(
+  config: WhatsAppCloudConfig,
+  to: string,
+  resolved: ResolvedMediaType,
+  ref: { link?: string; id?: string },
+  options: MediaSendOptions,
+  log: Logger
+): Promise<SendResult> {
+  const { caption, replyTo } = options;
+  const captioned = CAPTIONED_TYPES.has(resolved.type);
+  const media = {
+    ...ref,
+    ...(caption && captioned ? { caption } : {}),
+    ...(resolved.type === "document" && resolved.filename ? { filename: resolved.filename } : {}),
+  };
+
+  // Audio and stickers can't carry a caption — follow up with a text message
+  return sendMedia(config, to, resolved.type, media, log, {
+    replyTo,
+    ...(caption && !captioned ? { followUpText: caption } : {}),
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Inbound media
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_MEDIA_DIR = join(tmpdir(), "openclaw-whatsapp-cloud", "media");
+
+export interface DownloadedMedia {
+  /** Absolute path of the saved file */
+  path: string;
+  mimeType: string;
+  size: number;
+  buffer: Buffer;
+}
+
+/**
+ * Download an inbound media object (by its Meta media ID) into `mediaDir`,
+ * honouring `mediaMaxMb`. Returns null when the download is disabled, too
+ * large or fails — the message is still dispatched with its text placeholder.
+ */
+export async function downloadInboundMedia(
+  config: WhatsAppCloudConfig,
+  media: { id: string; mimeType: string; filename?: string },
+  log: Logger
+): Promise<DownloadedMedia | null> {
+  if ((config.downloadInboundMedia ?? CONFIG_DEFAULTS.downloadInboundMedia) === false) return null;
+
+  const url = await getMediaUrl(config, media.id, log);
+  if (!url) return null;
+
+  const maxMb = Number(config.mediaMaxMb ?? CONFIG_DEFAULTS.mediaMaxMb);
+  const downloaded = await downloadMedia(config, url, log, { maxBytes: maxMb * 1024 * 1024 });
+  if (!downloaded) return null;
+
+  const mimeType = media.mimeType || downloaded.mimeType;
+  const dir = config.mediaDir || DEFAULT_MEDIA_DIR;
+  // Media IDs are unique; keep the original name for documents so agents see it
+  const safeName = media.filename?.replace(/[^\w.\-]+/g, "_");
+  const fileName = safeName
+    ? `${media.id}-${safeName}`
+    : `${media.id}${extensionForMimeType(mimeType.split(";")[0].trim())}`;
+  const path = join(dir, fileName);
+
+  try {
+    await mkdir(dir, { recursive: true });
+    await writeFile(path, downloaded.buffer);
+  } catch (err) {
+    log.error(`[whatsapp-cloud] Failed to save inbound media ${media.id}: ${err}`);
+    return null;
+  }
+
+  log.debug(`[whatsapp-cloud] Saved inbound media ${media.id} (${downloaded.buffer.length} bytes) to ${path}`);
+  return { path, mimeType, size: downloaded.buffer.length, buffer: downloaded.buffer };
+}
@@ -0,0 +1,248 @@
+// ---------------------------------------------------------------------------
+// One-time passcodes — sent with an AUTHENTICATION template, verified here
+//
+// requestOtp() generates a code, remembers a salted hash of it and sends it;
+// verifyOtp() checks what the user typed back. Copy-code and one-tap
+// autofill templates take the same send-time parameters: the code fills the
+// body placeholder and the button.
+// ---------------------------------------------------------------------------
+
+import { createHash, randomBytes, randomInt, timingSafeEqual } from "node:crypto";
+import { sendTemplate } from "./api.js";
+import { buildTemplateComponents } from "./templates.js";
+import { WhatsAppApiError, WhatsAppValidationError } from "./errors.js";
+import type { WhatsAppCloudConfig, SendOptions, SendResult, Logger, TemplateComponent } from "./types.js";
+
+/** Meta's limit for an authentication code */
+const OTP_MAX_LENGTH = 15;
+
+export const OTP_DEFAULTS = {
+  length: 6,
+  ttlMs: 10 * 60 * 1000,
+  maxAttempts: 5,
+  resendCooldownMs: 30 * 1000,
+};
+
+/** A pending code. Only a salted hash of it is kept. */
+export interface OtpRecord {
+  codeHash: string;
+  salt: string;
+  /** When the code was generated (epoch ms) */
+  sentAt: number;
+  expiresAt: number;
+  attempts: number;
+  maxAttempts: number;
+}
+
+/**
+ * Storage for pending codes per business number + contact. The default
+ * keeps them in memory; plug in a shared store (Redis, a database) when
+ * several processes send and verify codes. Every method but `get` must be
+ * atomic so concurrent requests can't slip past the resend cooldown, and
+ * concurrent guesses can't exceed the attempt limit or use a code twice.
+ */
+export interface OtpStore {
+  get(key: string): Promise<OtpRecord | undefined>;
+  /**
+   * Store the record unless the pending one was sent less than `cooldownMs`
+   * ago; resolves to that pending record when it blocks the write
+   */
+  setIfCooledDown(key: string, record: OtpRecord, cooldownMs: number): Promise<OtpRecord | undefined>;
+  /** Remove the record; resolves to whether there was one */
+  delete(key: string): Promise<boolean>;
+  /** Remove the record only if it is still the one sent at `sentAt` */
+  deleteIfSentAt(key: string, sentAt: number): Promise<boolean>;
+  /** Count a wrong guess; resolves to the updated record, or undefined when none is pending */
+  incrementAttempts(key: string): Promise<OtpRecord | undefined>;
+}
+
+export function createMemoryOtpStore(): OtpStore {
+  const records = new Map<string, OtpRecord>();
+  const live = (key: string): OtpRecord | undefined => {
+    const record = records.get(key);
+    if (record && record.expiresAt <= Date.now()) records.delete(key);
+    return records.get(key);
+  };
+  return {
+    get: async (key) => live(key),
+    setIfCooledDown: async (key, record, cooldownMs) => {
+      const pending = live(key);
+      if (pending && record.sentAt - pending.sentAt < cooldownMs) return pending;
+      records.set(key, record);
+      return undefined;
+    },
+    delete: async (key) => records.delete(key),
+    deleteIfSentAt: async (key, sentAt) => records.get(key)?.sentAt === sentAt && records.delete(key),
+    incrementAttempts: async (key) => {
+      const record = live(key);
+      if (!record) return undefined;
+      const updated = { ...record, attempts: record.attempts + 1 };
+      records.set(key, updated);
+      return updated;
+    },
+  };
+}
+
+let store: OtpStore = createMemoryOtpStore();
+
+export function setOtpStore(next: OtpStore): void {
+  store = next;
+}
+
+export interface SendOtpOptions extends SendOptions {
+  /** Authentication template (default: otpTemplate.name from the config) */
+  template?: string;
+  language?: string;
+  /** Whether the template has a copy-code / one-tap button (default true) */
+  button?: boolean;
+  /** Don't send once the code has expired (epoch ms) */
+  expiresAt?: number;
+}
+
+export interface RequestOtpOptions extends Omit<SendOtpOptions, "expiresAt"> {
+  /** Digits in the generated code (default 6) */
+  length?: number;
+  /** How long the code stays valid (default 10 minutes) */
+  ttlMs?: number;
+  /** Wrong guesses before the code is discarded (default 5) */
+  maxAttempts?: number;
+  /** Minimum time before a new code can be sent to the same contact (default 30 seconds) */
+  resendCooldownMs?: number;
+}
+
+export interface OtpVerifyResult {
+  valid: boolean;
+  reason?: "not-found" | "expired" | "mismatch" | "too-many-attempts";
+  /** Guesses left after a mismatch */
+  attemptsLeft?: number;
+}
+
+/** Random numeric code from a CSPRNG */
+export function generateOtp(length: number = OTP_DEFAULTS.length): string {
+  if (!Number.isInteger(length) || length < 1 || length > OTP_MAX_LENGTH) {
+    throw new WhatsAppValidationError("length", `must be 1–${OTP_MAX_LENGTH}`);
+  }
+  return Array.from({ length }, () => randomInt(10)).join("");
+}
+
+/** Components of an authentication template send: the code in the body and, by default, the button */
+export function buildOtpComponents(code: string, button = true): TemplateComponent[] {
+  if (!code || code.length > OTP_MAX_LENGTH) {
+    throw new WhatsAppValidationError("code", `must be 1–${OTP_MAX_LENGTH} characters`);
+  }
+  // Copy-code and one-tap buttons are both sent as a "url" button carrying the code
+  return buildTemplateComponents({
+    body: [code],
+    ...(button ? { buttons: [{ type: "url" as const, index: 0, text: code }] } : {}),
+  });
+}
+
+/** Send a code with an authentication template. Expired codes are not sent. */
+export async function sendOtp(
+  config: WhatsAppCloudConfig,
+  to: string,
+  code: string,
+  options: SendOtpOptions = {},
+  log?: Logger
+): Promise<SendResult> {
+  const template = options.template ?? config.otpTemplate?.name;
+  if (!template) {
+    return {
+      ok: false,
+      error: new WhatsAppApiError("No authentication template — set otpTemplate or pass options.template", {
+        kind: "template",
+      }),
+    };
+  }
+  if (options.expiresAt !== undefined && options.expiresAt <= Date.now()) {
+    return { ok: false, error: new WhatsAppApiError("OTP code expired before it was sent") };
+  }
+
+  const { replyTo } = options;
+  const language = options.language ?? config.otpTemplate?.language ?? "en";
+  const components = buildOtpComponents(code, options.button ?? true);
+  return sendTemplate(config, to, template, language, components, log, { replyTo });
+}
+
+/**
+ * Generate a code for `to`, remember it and send it. A new request replaces
+ * any code still pending for the contact — unless that one was sent less
+ * than `resendCooldownMs` ago — and a failed send forgets it again.
+ */
+export async function requestOtp(
+  config: WhatsAppCloudConfig,
+  to: string,
+  log: Logger,
+  options: RequestOtpOptions = {}
+): Promise<SendResult & { expiresAt?: number }> {
+  const key = otpKey(config, to);
+  const now = Date.now();
+  const cooldownMs = options.resendCooldownMs ?? OTP_DEFAULTS.resendCooldownMs;
+  const code = generateOtp(options.length);
+  const salt = randomBytes(16).toString("hex");
+  const expiresAt = now + (options.ttlMs ?? OTP_DEFAULTS.ttlMs);
+  const record: OtpRecord = {
+    codeHash: hashCode(code, salt),
+    salt,
+    sentAt: now,
+    expiresAt,
+    attempts: 0,
+    maxAttempts: options.maxAttempts ?? OTP_DEFAULTS.maxAttempts,
+  };
+
+  const pending = await store.setIfCooledDown(key, record, cooldownMs);
+  if (pending) {
+    const wait = Math.ceil((pending.sentAt + cooldownMs - now) / 1000);
+    return {
+      ok: false,
+      error: new WhatsAppApiError(`A code was sent to ${to} moments ago — wait ${wait}s before requesting another`, {
+        kind: "rate-limit",
+      }),
+    };
+  }
+
+  const result = await sendOtp(config, to, code, { ...options, expiresAt }, log);
+  if (!result.ok) {
+    // A newer request may have replaced the record meanwhile — leave that one alone
+    await store.deleteIfSentAt(key, now);
+    return result;
+  }
+  return { ...result, expiresAt };
+}
+
+/** Check a code the contact sent back. A valid code is used up. */
+export async function verifyOtp(config: WhatsAppCloudConfig, to: string, code: string): Promise<OtpVerifyResult> {
+  const key = otpKey(config, to);
+  const record = await store.get(key);
+  if (!record) return { valid: false, reason: "not-found" };
+  if (record.expiresAt <= Date.now()) {
+    await store.delete(key);
+    return { valid: false, reason: "expired" };
+  }
+
+  // Both sides are SHA-256 digests, so lengths always match
+  const matches = timingSafeEqual(
+    Buffer.from(hashCode(code.trim(), record.salt), "hex"),
+    Buffer.from(record.codeHash, "hex")
+  );
+  if (matches) {
+    // Only the caller that removes the record gets to use the code
+    return (await store.delete(key)) ? { valid: true } : { valid: false, reason: "not-found" };
+  }
+
+  const updated = await store.incrementAttempts(key);
+  if (!updated) return { valid: false, reason: "not-found" };
+  if (updated.attempts >= updated.maxAttempts) {
+    await store.delete(key);
+    return { valid: false, reason: "too-many-attempts", attemptsLeft: 0 };
+  }
+  return { valid: false, reason: "mismatch", attemptsLeft: updated.maxAttempts - updated.attempts };
+}
+
+function otpKey(config: WhatsAppCloudConfig, to: string): string {
+  return `${config.phoneNumberId}:${to.replace(/[^0-9]/g, "")}`;
+}
+
+function hashCode(code: string, salt: string): string {
+  return createHash("sha256").update(salt).update(code).digest("hex");
+}
@@ -0,0 +1,77 @@
+// ---------------------------------------------------------------------------
+// Outbound send queue — per-phone-number throughput and per-recipient order
+// ---------------------------------------------------------------------------
+
+import type { WhatsAppCloudConfig } from "./types.js";
+import { CONFIG_DEFAULTS } from "./types.js";
+import { sleep } from "./retry.js";
+
+interface PhoneNumberQueue {
+  /** Earliest time the next request may leave */
+  nextSlotAt: number;
+  /** Tail of each recipient's lane; later sends chain onto it */
+  lanes: Map<string, Promise<unknown>>;
+  /** Sends queued or in flight */
+  depth: number;
+}
+
+// Keyed by phoneNumberId — Meta's throughput limit applies per business number
+const queues = new Map<string, PhoneNumberQueue>();
+
+function queueFor(phoneNumberId: string): PhoneNumberQueue {
+  let queue = queues.get(phoneNumberId);
+  if (!queue) {
+    queue = { nextSlotAt: 0, lanes: new Map(), depth: 0 };
+    queues.set(phoneNumberId, queue);
+  }
+  return queue;
+}
+
+/**
+ * Run `task` after every earlier task for the same recipient has settled.
+ *
+ * A whole logical send (e.g. all chunks of a long text) runs as one task, so
+ * concurrent sends to the same user never interleave.
+ */
+export function enqueueForRecipient<T>(
+  config: WhatsAppCloudConfig,
+  to: string,
+  task: () => Promise<T>
+): Promise<T> {
+  const queue = queueFor(config.phoneNumberId);
+  const previous = queue.lanes.get(to) ?? Promise.resolve();
+
+  queue.depth++;
+  const run = previous.then(task).finally(() => {
+    queue.depth--;
+  });
+
+  const tail = run.catch(() => undefined);
+  queue.lanes.set(to, tail);
+  tail.then(() => {
+    if (queue.lanes.get(to) === tail) queue.lanes.delete(to);
+  });
+
+  return run;
+}
+
+/**
+ * Wait for the next free request slot of the phone number, spacing requests
+ * 1000 / messagesPerSecond ms apart.
+ */
+export async function acquireSendSlot(config: WhatsAppCloudConfig): Promise<void> {
+  const mps = Number(config.messagesPerSecond ?? CONFIG_DEFAULTS.messagesPerSecond);
+  if (!(mps > 0)) return;
+
+  const queue = queueFor(config.phoneNumberId);
+  const now = Date.now();
+  const slotAt = Math.max(now, queue.nextSlotAt);
+  queue.nextSlotAt = slotAt + 1000 / mps;
+
+  if (slotAt > now) await sleep(slotAt - now);
+}
+
+/** Number of sends queued or in flight for a phone number */
+export function getQueueDepth(phoneNumberId: string): number {
+  return queues.get(phoneNumberId)?.depth ?? 0;
+}
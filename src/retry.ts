@@ -0,0 +1,118 @@
+// ---------------------------------------------------------------------------
+// Retry policy — backoff, Retry-After parsing and error classification
+// ---------------------------------------------------------------------------
+
+import type { WhatsAppCloudConfig, RetryConfig } from "./types.js";
+import { RETRY_DEFAULTS } from "./types.js";
+
+/**
+ * Meta error codes that signal a transient condition (throttling or a
+ * temporary outage) rather than a problem with the request itself.
+ *
+ * @see https://developers.facebook.com/docs/whatsapp/cloud-api/support/error-codes
+ */
+export const RETRYABLE_ERROR_CODES: ReadonlySet<number> = new Set([
+  1, // API Unknown
+  2, // API Service
+  4, // API Too Many Calls
+  17, // API User Too Many Calls
+  80007, // Rate limit issues (WABA)
+  130429, // Rate limit hit (throughput)
+  131000, // Something went wrong
+  131016, // Service unavailable
+  131056, // Pair rate limit hit (business + recipient)
+  133004, // Server temporarily unavailable
+]);
+
+/**
+ * Throttling rejections: Meta refused the request without acting on it, so
+ * even a message send can be repeated without delivering it twice.
+ */
+export const THROTTLING_ERROR_CODES: ReadonlySet<number> = new Set([4, 17, 80007, 130429, 131056]);
+
+// Network failures that happen before a request is written to the socket
+const CONNECT_ERROR_CODES: ReadonlySet<string> = new Set([
+  "ECONNREFUSED",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "ENETUNREACH",
+  "EHOSTUNREACH",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+/** Merge the configured retry policy with the defaults */
+export function resolveRetryPolicy(config: Pick<WhatsAppCloudConfig, "retry">): RetryConfig {
+  const raw = config.retry ?? {};
+  return {
+    maxAttempts: Math.max(1, Number(raw.maxAttempts ?? RETRY_DEFAULTS.maxAttempts)),
+    baseDelayMs: Math.max(0, Number(raw.baseDelayMs ?? RETRY_DEFAULTS.baseDelayMs)),
+    maxDelayMs: Math.max(0, Number(raw.maxDelayMs ?? RETRY_DEFAULTS.maxDelayMs)),
+    retryAmbiguousSends: raw.retryAmbiguousSends ?? RETRY_DEFAULTS.retryAmbiguousSends,
+  };
+}
+
+/**
+ * Decide whether a failed Graph API response is worth retrying.
+ * 5xx, 408 and 429 are always transient; other 4xx responses are only
+ * retried when Meta's error code marks them as throttling.
+ */
+export function isRetryable(httpStatus: number, errorCode?: number): boolean {
+  if (errorCode !== undefined && RETRYABLE_ERROR_CODES.has(errorCode)) return true;
+  return httpStatus === 408 || httpStatus === 429 || httpStatus >= 500;
+}
+
+/**
+ * Whether a failed response proves Meta didn't act on the request: 429 and
+ * throttling codes. A 5xx may come after the message was already accepted.
+ */
+export function isSafeToResend(httpStatus: number, errorCode?: number): boolean {
+  if (errorCode !== undefined && THROTTLING_ERROR_CODES.has(errorCode)) return true;
+  return httpStatus === 429;
+}
+
+/**
+ * Whether a fetch() error happened while connecting, before anything was
+ * sent. Resets and timeouts after that point are ambiguous.
+ */
+export function isConnectError(err: unknown): boolean {
+  // undici reports the socket error as the cause of its "fetch failed" TypeError
+  const { code, cause } = (err ?? {}) as { code?: unknown; cause?: { code?: unknown } };
+  const errorCode = cause?.code ?? code;
+  return typeof errorCode === "string" && CONNECT_ERROR_CODES.has(errorCode);
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay in
+ * [0, min(maxDelayMs, baseDelayMs * 2^(attempt-1))].
+ * `attempt` is the 1-based number of the attempt that just failed.
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  policy: RetryConfig,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(ceiling * random());
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds.
+ * Returns null when the header is absent or malformed.
+ */
+export function parseRetryAfter(
+  header: string | null | undefined,
+  now: number = Date.now()
+): number | null {
+  if (!header) return null;
+  const value = header.trim();
+
+  if (/^\d+$/.test(value)) return Number(value) * 1000;
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - now);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -263,6 +263,12 @@ export function validateConfig(
   if (!config.verifyToken) {
     warnings.push("verifyToken is not set — using default (change this for security)");
   }
+  if (config.flowsEndpointPath && !config.flowsPrivateKey) {
+    errors.push("flowsPrivateKey is required when flowsEndpointPath is set (PEM key for Flows encryption)");
+  }
+  if (config.flowsEndpointPath && config.flowsEndpointPath === config.webhookPath) {
+    errors.push("flowsEndpointPath must differ from webhookPath");
+  }
 
   return {
     valid: errors.length === 0,
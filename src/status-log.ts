@@ -0,0 +1,100 @@
+// ---------------------------------------------------------------------------
+// Status log — delivery receipts persisted for other processes
+//
+// The status tracker lives in the gateway's memory, where the webhook server
+// runs. With `statusLog` on, every receipt is also appended to a JSONL file
+// per phone number so a separate process — the broadcast CLI — can read the
+// final status of the messages it sent. Lines older than the retention are
+// dropped when the account starts and every few thousand appends.
+// ---------------------------------------------------------------------------
+
+import { join } from "node:path";
+import { homedir } from "node:os";
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { STATUS_RANK, type MessageStatusRecord, type TrackedStatus } from "./status.js";
+import type { WhatsAppCloudConfig, Logger } from "./types.js";
+
+export const DEFAULT_STATUS_LOG_DIR = join(
+  process.env.OPENCLAW_STATE_DIR || join(homedir(), ".openclaw"),
+  "whatsapp-cloud",
+  "statuses"
+);
+
+/** Receipts older than this are dropped on compaction */
+export const STATUS_LOG_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Appends between two compactions of a running account's file */
+const COMPACT_EVERY = 5_000;
+
+export interface LoggedStatus {
+  id: string;
+  status: TrackedStatus;
+  /** When the status was reached (ms) */
+  at: number;
+  error?: string;
+}
+
+const appendsSinceCompaction = new Map<string, number>();
+
+export function statusLogPath(config: WhatsAppCloudConfig): string {
+  const dir = config.statusLogDir || DEFAULT_STATUS_LOG_DIR;
+  return join(dir, `${config.phoneNumberId.replace(/[^0-9A-Za-z_-]/g, "_")}.jsonl`);
+}
+
+/** Append the current status of a message */
+export function appendStatusLog(config: WhatsAppCloudConfig, record: MessageStatusRecord, log?: Logger): void {
+  const path = statusLogPath(config);
+  const line: LoggedStatus = {
+    id: record.messageId,
+    status: record.status,
+    at: record.updatedAt,
+    ...(record.error ? { error: record.error.describe() } : {}),
+  };
+  try {
+    mkdirSync(join(path, ".."), { recursive: true });
+    appendFileSync(path, JSON.stringify(line) + "\n");
+  } catch (err) {
+    log?.warn(`[whatsapp-cloud] Failed to write status log ${path}: ${err}`);
+    return;
+  }
+
+  const appends = (appendsSinceCompaction.get(path) ?? 0) + 1;
+  appendsSinceCompaction.set(path, appends);
+  if (appends >= COMPACT_EVERY) compactStatusLog(config, log);
+}
+
+/** Latest status per message ID; receipts that arrived out of order never move a message backwards */
+export function readStatusLog(config: WhatsAppCloudConfig): Map<string, LoggedStatus> {
+  const statuses = new Map<string, LoggedStatus>();
+  const path = statusLogPath(config);
+  if (!existsSync(path)) return statuses;
+
+  for (const text of readFileSync(path, "utf8").split("\n")) {
+    if (!text.trim()) continue;
+    let line: LoggedStatus;
+    try {
+      line = JSON.parse(text);
+    } catch {
+      continue; // A line cut short by a crash
+    }
+    const existing = statuses.get(line.id);
+    if (!existing || STATUS_RANK[line.status] > STATUS_RANK[existing.status]) statuses.set(line.id, line);
+  }
+  return statuses;
+}
+
+/** Rewrite the file with one line per message, dropping messages past the retention */
+export function compactStatusLog(config: WhatsAppCloudConfig, log?: Logger, now: number = Date.now()): void {
+  const path = statusLogPath(config);
+  appendsSinceCompaction.set(path, 0);
+  if (!existsSync(path)) return;
+
+  try {
+    const kept = [...readStatusLog(config).values()].filter((line) => now - line.at < STATUS_LOG_RETENTION_MS);
+    const tmp = `${path}.tmp`;
+    writeFileSync(tmp, kept.map((line) => JSON.stringify(line) + "\n").join(""));
+    renameSync(tmp, path);
+  } catch (err) {
+    log?.warn(`[whatsapp-cloud] Failed to compact status log ${path}: ${err}`);
+  }
+}
@@ -0,0 +1,192 @@
+// ---------------------------------------------------------------------------
+// Message status tracker — lifecycle of outbound messages from status webhooks
+// ---------------------------------------------------------------------------
+
+import { WhatsAppApiError } from "./errors.js";
+import type { MessageStatus, ConversationCategory } from "./types.js";
+
+/** "accepted" means the Cloud API returned a message ID; webhooks do the rest */
+export type TrackedStatus = "accepted" | "sent" | "delivered" | "read" | "failed";
+
+export interface MessageStatusRecord {
+  messageId: string;
+  phoneNumberId: string;
+  recipientId: string;
+  status: TrackedStatus;
+  /** When the current status was reached (ms) */
+  updatedAt: number;
+  history: Array<{ status: TrackedStatus; at: number }>;
+  /** Why delivery failed, when status is "failed" */
+  error?: WhatsAppApiError;
+  conversation?: {
+    id: string;
+    category?: ConversationCategory;
+    expiresAt?: number;
+  };
+  pricing?: {
+    billable: boolean;
+    model: string;
+    category: ConversationCategory;
+  };
+}
+
+export type StatusChangeListener = (record: MessageStatusRecord) => void;
+
+/** Records kept before the oldest are evicted */
+const MAX_TRACKED_MESSAGES = 10_000;
+
+// Delivery receipts can arrive out of order; a status never moves backwards
+export const STATUS_RANK: Record<TrackedStatus, number> = {
+  accepted: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3,
+  failed: 4,
+};
+
+// Keyed by message ID, in insertion order for eviction
+const records = new Map<string, MessageStatusRecord>();
+const listeners = new Set<StatusChangeListener>();
+
+function remember(record: MessageStatusRecord): void {
+  records.delete(record.messageId);
+  records.set(record.messageId, record);
+  while (records.size > MAX_TRACKED_MESSAGES) {
+    records.delete(records.keys().next().value!);
+  }
+}
+
+function emit(record: MessageStatusRecord): void {
+  for (const listener of listeners) {
+    try {
+      listener(record);
+    } catch {
+      // A faulty listener must not break webhook processing
+    }
+  }
+}
+
+/** Start tracking a message the Cloud API accepted; called by sendRequest */
+export function trackOutboundMessage(phoneNumberId: string, messageId: string, recipientId: string): void {
+  if (records.has(messageId)) return;
+  const now = Date.now();
+  const record: MessageStatusRecord = {
+    messageId,
+    phoneNumberId,
+    recipientId,
+    status: "accepted",
+    updatedAt: now,
+    history: [{ status: "accepted", at: now }],
+  };
+  remember(record);
+  emit(record);
+}
+
+/**
+ * Apply a status webhook. Returns the updated record, or undefined when the
+ * event didn't advance the lifecycle. A late receipt still fills in the
+ * conversation and pricing data it carries.
+ */
+export function recordStatusUpdate(phoneNumberId: string, status: MessageStatus): MessageStatusRecord | undefined {
+  // Statuses we don't track (e.g. "deleted") have no place in the lifecycle
+  const rank = STATUS_RANK[status.status] as number | undefined;
+  if (rank === undefined) return undefined;
+
+  const at = parseInt(status.timestamp, 10) * 1000 || Date.now();
+  const existing = records.get(status.id);
+  const record: MessageStatusRecord = existing ?? {
+    messageId: status.id,
+    phoneNumberId,
+    recipientId: status.recipient_id,
+    status: "accepted",
+    updatedAt: at,
+    history: [],
+  };
+
+  if (status.conversation) {
+    const expiresAt = parseInt(status.conversation.expiration_timestamp ?? "", 10);
+    record.conversation = {
+      id: status.conversation.id,
+      category: status.conversation.origin?.type ?? record.conversation?.category,
+      expiresAt: expiresAt ? expiresAt * 1000 : record.conversation?.expiresAt,
+    };
+  }
+  if (status.pricing) {
+    record.pricing = {
+      billable: status.pricing.billable,
+      model: status.pricing.pricing_model,
+      category: status.pricing.category,
+    };
+  }
+
+  if (existing && rank <= STATUS_RANK[existing.status]) {
+    return undefined;
+  }
+
+  record.status = status.status;
+  record.updatedAt = at;
+  record.history.push({ status: status.status, at });
+
+  if (status.status === "failed") {
+    const first = status.errors?.[0];
+    record.error = first
+      ? WhatsAppApiError.fromWebhookError(first)
+      : new WhatsAppApiError("Message delivery failed", { kind: "unknown" });
+  }
+
+  remember(record);
+  emit(record);
+  return record;
+}
+
+/** Latest known status of an outbound message */
+export function getMessageStatus(messageId: string): MessageStatusRecord | undefined {
+  return records.get(messageId);
+}
+
+/** Subscribe to status changes; returns an unsubscribe function */
+export function onStatusChange(listener: StatusChangeListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Resolve once a message reaches `target` (or a later status). Rejects with
+ * the delivery error if the message fails, or after `timeoutMs`.
+ */
+export function waitForStatus(
+  messageId: string,
+  target: Exclude<TrackedStatus, "accepted" | "failed"> = "delivered",
+  timeoutMs: number = 60_000
+): Promise<MessageStatusRecord> {
+  return new Promise((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const check = (record: MessageStatusRecord | undefined): boolean => {
+      if (!record || record.messageId !== messageId) return false;
+      if (record.status === "failed") {
+        reject(record.error);
+        return true;
+      }
+      if (STATUS_RANK[record.status] >= STATUS_RANK[target]) {
+        resolve(record);
+        return true;
+      }
+      return false;
+    };
+
+    if (check(records.get(messageId))) return;
+
+    const unsubscribe = onStatusChange((record) => {
+      if (!check(record)) return;
+      unsubscribe();
+      clearTimeout(timer);
+    });
+    timer = setTimeout(() => {
+      unsubscribe();
+      reject(new Error(`Timed out after ${timeoutMs}ms waiting for message ${messageId} to be ${target}`));
+    }, timeoutMs);
+  });
+}
@@ -0,0 +1,604 @@
+// ---------------------------------------------------------------------------
+// Message template management — list, inspect, create and delete the
+// templates of the WhatsApp Business Account (businessAccountId)
+//
+// Sending a template is sendTemplate() in api.ts; this module manages the
+// definitions behind it via /{waba-id}/message_templates, builds send-time
+// components and checks them against the definition.
+// ---------------------------------------------------------------------------
+
+import { graphRequest, sendTemplate } from "./api.js";
+import { WhatsAppApiError, WhatsAppValidationError } from "./errors.js";
+import type {
+  WhatsAppCloudConfig,
+  Logger,
+  SendOptions,
+  SendResult,
+  TemplateComponent,
+  TemplateButtonComponent,
+  TemplateParameter,
+} from "./types.js";
+
+export type TemplateCategory = "MARKETING" | "UTILITY" | "AUTHENTICATION";
+
+/** Review state; Meta may add more (e.g. "IN_APPEAL", "LIMIT_EXCEEDED") */
+export type TemplateStatus = "APPROVED" | "PENDING" | "REJECTED" | "PAUSED" | "DISABLED" | (string & {});
+
+export interface TemplateDefinitionButton {
+  type: "QUICK_REPLY" | "URL" | "PHONE_NUMBER" | "COPY_CODE" | "FLOW" | "OTP" | "CATALOG" | "MPM" | (string & {});
+  text?: string;
+  url?: string;
+  phone_number?: string;
+  flow_id?: string;
+  /** OTP buttons of AUTHENTICATION templates */
+  otp_type?: "COPY_CODE" | "ONE_TAP" | "ZERO_TAP";
+  example?: string[] | string;
+}
+
+/** A component as stored in the template definition (not the send-time parameters) */
+export interface TemplateDefinitionComponent {
+  type: "HEADER" | "BODY" | "FOOTER" | "BUTTONS" | "CAROUSEL" | "LIMITED_TIME_OFFER" | (string & {});
+  /** HEADER only */
+  format?: "TEXT" | "IMAGE" | "VIDEO" | "DOCUMENT" | "LOCATION";
+  /** Text with {{1}} / {{name}} placeholders */
+  text?: string;
+  buttons?: TemplateDefinitionButton[];
+  /** CAROUSEL only */
+  cards?: Array<{ components: TemplateDefinitionComponent[] }>;
+  /** LIMITED_TIME_OFFER only */
+  limited_time_offer?: { text: string; has_expiration?: boolean };
+  /** Sample values Meta reviews the template with */
+  example?: Record<string, unknown>;
+}
+
+/** A template as returned by the Graph API */
+export interface MessageTemplate {
+  id: string;
+  name: string;
+  language: string;
+  status: TemplateStatus;
+  category: TemplateCategory;
+  components: TemplateDefinitionComponent[];
+  /** "POSITIONAL" ({{1}}) or "NAMED" ({{first_name}}) placeholders */
+  parameter_format?: "POSITIONAL" | "NAMED";
+  quality_score?: { score: "GREEN" | "YELLOW" | "RED" | "UNKNOWN"; date?: number };
+  rejected_reason?: string;
+}
+
+/** Body of a create request */
+export interface TemplateDefinition {
+  name: string;
+  language: string;
+  category: TemplateCategory;
+  components: TemplateDefinitionComponent[];
+  parameter_format?: "POSITIONAL" | "NAMED";
+  /** Let Meta recategorize instead of rejecting a miscategorized template */
+  allow_category_change?: boolean;
+}
+
+export interface TemplateListQuery {
+  /** Filter by name (Meta matches substrings) */
+  name?: string;
+  status?: TemplateStatus;
+  category?: TemplateCategory;
+  language?: string;
+  /** Page size */
+  limit?: number;
+  /** Cursor from a previous page */
+  after?: string;
+}
+
+export interface TemplateListResult {
+  ok: boolean;
+  templates?: MessageTemplate[];
+  /** Cursor for the next page; absent on the last page */
+  after?: string;
+  error?: WhatsAppApiError;
+}
+
+export interface TemplateResult {
+  ok: boolean;
+  template?: MessageTemplate;
+  error?: WhatsAppApiError;
+}
+
+export interface CreateTemplateResult {
+  ok: boolean;
+  id?: string;
+  status?: TemplateStatus;
+  category?: TemplateCategory;
+  error?: WhatsAppApiError;
+}
+
+interface TemplateListResponse {
+  data: MessageTemplate[];
+  paging?: { cursors?: { before?: string; after?: string }; next?: string };
+}
+
+const TEMPLATE_FIELDS = "id,name,language,status,category,components,parameter_format,quality_score,rejected_reason";
+
+/** Fetch one page of templates. Pass `after` from the result to get the next one. */
+export async function listTemplates(
+  config: WhatsAppCloudConfig,
+  log: Logger,
+  query: TemplateListQuery = {}
+): Promise<TemplateListResult> {
+  const waba = requireBusinessAccount(config, log);
+  if (waba.error) return { ok: false, error: waba.error };
+
+  const result = await graphRequest<TemplateListResponse>(config, "GET", `${waba.id}/message_templates`, log, {
+    query: { fields: TEMPLATE_FIELDS, ...query },
+  });
+  if (!result.ok || !result.data) return { ok: false, error: result.error };
+
+  const { data, paging } = result.data;
+  // Meta returns a cursor on the last page too; only `next` means there is more
+  const after = paging?.next ? paging.cursors?.after : undefined;
+  return { ok: true, templates: data ?? [], ...(after ? { after } : {}) };
+}
+
+/** Fetch every template matching the query, following pagination */
+export async function listAllTemplates(
+  config: WhatsAppCloudConfig,
+  log: Logger,
+  query: Omit<TemplateListQuery, "after"> = {}
+): Promise<TemplateListResult> {
+  const templates: MessageTemplate[] = [];
+  let after: string | undefined;
+  do {
+    const page = await listTemplates(config, log, { ...query, after });
+    if (!page.ok) return page;
+    templates.push(...(page.templates ?? []));
+    after = page.after;
+  } while (after);
+  return { ok: true, templates };
+}
+
+/**
+ * Look up a template by exact name. Without `language`, the first language
+ * Meta returns wins. Not found is an error of kind "template".
+ */
+export async function getTemplate(
+  config: WhatsAppCloudConfig,
+  name: string,
+  log: Logger,
+  language?: string
+): Promise<TemplateResult> {
+  const result = await listAllTemplates(config, log, { name, ...(language ? { language } : {}) });
+  if (!result.ok) return { ok: false, error: result.error };
+
+  const template = result.templates?.find((t) => t.name === name && (!language || t.language === language));
+  if (!template) {
+    const label = language ? `${name} (${language})` : name;
+    return { ok: false, error: new WhatsAppApiError(`Template ${label} not found`, { kind: "template" }) };
+  }
+  return { ok: true, template };
+}
+
+/** Submit a new template for review. It starts out PENDING unless Meta approves it right away. */
+export async function createTemplate(
+  config: WhatsAppCloudConfig,
+  definition: TemplateDefinition,
+  log: Logger
+): Promise<CreateTemplateResult> {
+  const waba = requireBusinessAccount(config, log);
+  if (waba.error) return { ok: false, error: waba.error };
+
+  const result = await graphRequest<{ id: string; status: TemplateStatus; category: TemplateCategory }>(
+    config,
+    "POST",
+    `${waba.id}/message_templates`,
+    log,
+    // Never resend a create after an ambiguous failure — it may already exist
+    { body: definition, idempotent: false }
+  );
+  if (!result.ok || !result.data) return { ok: false, error: result.error };
+
+  const { id, status, category } = result.data;
+  forgetTemplate(config, definition.name);
+  log.info(`[whatsapp-cloud] Created template ${definition.name} (${definition.language}): ${status}`);
+  return { ok: true, id, status, category };
+}
+
+/**
+ * Delete a template. By name alone every language of it goes; pass
+ * `templateId` (hsm_id) to delete a single language.
+ */
+export async function deleteTemplate(
+  config: WhatsAppCloudConfig,
+  name: string,
+  log: Logger,
+  options: { templateId?: string } = {}
+): Promise<{ ok: boolean; error?: WhatsAppApiError }> {
+  const waba = requireBusinessAccount(config, log);
+  if (waba.error) return { ok: false, error: waba.error };
+
+  const result = await graphRequest<{ success: boolean }>(config, "DELETE", `${waba.id}/message_templates`, log, {
+    query: { name, hsm_id: options.templateId },
+  });
+  if (!result.ok) return { ok: false, error: result.error };
+
+  forgetTemplate(config, name);
+  log.info(`[whatsapp-cloud] Deleted template ${name}${options.templateId ? ` (${options.templateId})` : ""}`);
+  return { ok: true };
+}
+
+function requireBusinessAccount(
+  config: WhatsAppCloudConfig,
+  log: Logger
+): { id: string; error?: undefined } | { id?: undefined; error: WhatsAppApiError } {
+  if (config.businessAccountId) return { id: config.businessAccountId };
+  const error = new WhatsAppApiError(
+    "businessAccountId is not configured — template management needs the WhatsApp Business Account ID"
+  );
+  log.error(`[whatsapp-cloud] ${error.message}`);
+  return { error };
+}
+
+// ---------------------------------------------------------------------------
+// Template definition cache (for validating sends)
+// ---------------------------------------------------------------------------
+
+const TEMPLATE_CACHE_TTL_MS = 10 * 60 * 1000;
+const TEMPLATE_CACHE_MAX_ENTRIES = 500;
+
+// Keyed by `${businessAccountId}:${name}:${language}`
+const templateCache = new Map<string, { template: MessageTemplate; expiresAt: number }>();
+
+/** getTemplate() with a 10-minute cache. Create and delete drop the affected entries. */
+export async function getCachedTemplate(
+  config: WhatsAppCloudConfig,
+  name: string,
+  language: string,
+  log: Logger
+): Promise<TemplateResult> {
+  const key = `${config.businessAccountId}:${name}:${language}`;
+  const cached = templateCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) return { ok: true, template: cached.template };
+
+  const result = await getTemplate(config, name, log, language);
+  if (result.ok && result.template) {
+    if (templateCache.size >= TEMPLATE_CACHE_MAX_ENTRIES) {
+      templateCache.delete(templateCache.keys().next().value!);
+    }
+    templateCache.set(key, { template: result.template, expiresAt: Date.now() + TEMPLATE_CACHE_TTL_MS });
+  }
+  return result;
+}
+
+function forgetTemplate(config: WhatsAppCloudConfig, name: string): void {
+  const prefix = `${config.businessAccountId}:${name}:`;
+  for (const key of templateCache.keys()) {
+    if (key.startsWith(prefix)) templateCache.delete(key);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Send-time components — typed builder and validation against the definition
+// ---------------------------------------------------------------------------
+
+/** A placeholder value: plain text, or a currency / date_time parameter */
+export type TemplateValue = string | number | Extract<TemplateParameter, { type: "currency" | "date_time" }>;
+
+export type TemplateHeaderParams =
+  | { type: "text"; text: TemplateValue; /** For named placeholders */ name?: string }
+  | { type: "image" | "video"; id?: string; link?: string }
+  | { type: "document"; id?: string; link?: string; filename?: string }
+  | { type: "location"; latitude: number; longitude: number; name?: string; address?: string };
+
+/** Parameters for the button at `index` (its position in the definition, from 0) */
+export type TemplateButtonParams =
+  | { type: "quick_reply"; index: number; payload: string }
+  | { type: "url"; index: number; /** Replaces {{1}} in the button's URL */ text: string }
+  | { type: "copy_code"; index: number; code: string }
+  | { type: "flow"; index: number; flowToken?: string; data?: Record<string, unknown> };
+
+export interface TemplateCardParams {
+  header?: TemplateHeaderParams;
+  body?: TemplateValue[] | Record<string, TemplateValue>;
+  buttons?: TemplateButtonParams[];
+}
+
+export interface TemplateParams extends TemplateCardParams {
+  /** Offer expiry for LIMITED_TIME_OFFER templates */
+  limitedTimeOffer?: { expiresAt: Date | number };
+  /** One entry per carousel card, in card order */
+  cards?: TemplateCardParams[];
+}
+
+/** A currency placeholder; `fallback` is shown where the amount can't be localized */
+export function currencyParameter(
+  amount: number,
+  code: string,
+  fallback: string
+): Extract<TemplateParameter, { type: "currency" }> {
+  return { type: "currency", currency: { fallback_value: fallback, code, amount_1000: Math.round(amount * 1000) } };
+}
+
+export function dateTimeParameter(fallback: string): Extract<TemplateParameter, { type: "date_time" }> {
+  return { type: "date_time", date_time: { fallback_value: fallback } };
+}
+
+/**
+ * Turn template parameters into the components of a template send. Body
+ * values given as an array fill {{1}}, {{2}}, …; given as an object they
+ * fill named placeholders. Throws WhatsAppValidationError for malformed
+ * parameters (media without id or link, repeated button index, …).
+ */
+export function buildTemplateComponents(params: TemplateParams): TemplateComponent[] {
+  const components = cardComponents(params, "");
+
+  if (params.cards) {
+    if (params.cards.length === 0) throw new WhatsAppValidationError("cards", "must not be empty");
+    const cards = params.cards.map((card, index) => ({
+      card_index: index,
+      components: cardComponents(card, `cards[${index}].`),
+    }));
+    components.push({ type: "carousel", cards });
+  }
+
+  if (params.limitedTimeOffer) {
+    const expiresAt = params.limitedTimeOffer.expiresAt;
+    const expiration = expiresAt instanceof Date ? expiresAt.getTime() : expiresAt;
+    if (!Number.isFinite(expiration)) {
+      throw new WhatsAppValidationError("limitedTimeOffer.expiresAt", "is not a valid time");
+    }
+    components.push({
+      type: "limited_time_offer",
+      parameters: [{ type: "limited_time_offer", limited_time_offer: { expiration_time_ms: expiration } }],
+    });
+  }
+
+  // Buttons go last, in definition order
+  const buttons = components.filter((c): c is TemplateButtonComponent => c.type === "button");
+  return [
+    ...components.filter((c) => c.type !== "button"),
+    ...buttons.sort((a, b) => Number(a.index) - Number(b.index)),
+  ];
+}
+
+function cardComponents(params: TemplateCardParams, path: string): TemplateComponent[] {
+  const components: TemplateComponent[] = [];
+
+  if (params.header) {
+    components.push({ type: "header", parameters: [headerParameter(params.header, `${path}header`)] });
+  }
+
+  if (params.body) {
+    const parameters = Array.isArray(params.body)
+      ? params.body.map((value) => valueParameter(value))
+      : Object.entries(params.body).map(([name, value]) => valueParameter(value, name));
+    components.push({ type: "body", parameters });
+  }
+
+  const seen = new Set<number>();
+  for (const [i, button] of (params.buttons ?? []).entries()) {
+    const field = `${path}buttons[${i}]`;
+    if (!Number.isInteger(button.index) || button.index < 0) {
+      throw new WhatsAppValidationError(`${field}.index`, "must be a non-negative integer");
+    }
+    if (seen.has(button.index)) throw new WhatsAppValidationError(`${field}.index`, `duplicate index ${button.index}`);
+    seen.add(button.index);
+    components.push(buttonComponent(button, field));
+  }
+
+  return components;
+}
+
+function valueParameter(value: TemplateValue, name?: string): TemplateParameter {
+  const parameter: TemplateParameter =
+    typeof value === "object" ? { ...value } : { type: "text", text: String(value) };
+  return name ? { ...parameter, parameter_name: name } : parameter;
+}
+
+function headerParameter(header: TemplateHeaderParams, field: string): TemplateParameter {
+  switch (header.type) {
+    case "text":
+      return valueParameter(header.text, header.name);
+    case "location": {
+      const { latitude, longitude, name, address } = header;
+      return { type: "location", location: { latitude, longitude, ...(name ? { name } : {}), ...(address ? { address } : {}) } };
+    }
+    default: {
+      if (!header.id === !header.link) {
+        throw new WhatsAppValidationError(`${field}.${header.type}`, "needs exactly one of id or link");
+      }
+      const media = header.id ? { id: header.id } : { link: header.link! };
+      if (header.type === "document") {
+        return { type: "document", document: { ...media, ...(header.filename ? { filename: header.filename } : {}) } };
+      }
+      return header.type === "image" ? { type: "image", image: media } : { type: "video", video: media };
+    }
+  }
+}
+
+function buttonComponent(button: TemplateButtonParams, field: string): TemplateButtonComponent {
+  const index = String(button.index);
+  switch (button.type) {
+    case "quick_reply":
+      if (!button.payload) throw new WhatsAppValidationError(`${field}.payload`, "must not be empty");
+      return { type: "button", sub_type: "quick_reply", index, parameters: [{ type: "payload", payload: button.payload }] };
+    case "url":
+      if (!button.text) throw new WhatsAppValidationError(`${field}.text`, "must not be empty");
+      return { type: "button", sub_type: "url", index, parameters: [{ type: "text", text: button.text }] };
+    case "copy_code":
+      if (!button.code) throw new WhatsAppValidationError(`${field}.code`, "must not be empty");
+      return { type: "button", sub_type: "copy_code", index, parameters: [{ type: "coupon_code", coupon_code: button.code }] };
+    case "flow":
+      return {
+        type: "button",
+        sub_type: "flow",
+        index,
+        parameters: [
+          {
+            type: "action",
+            action: {
+              ...(button.flowToken ? { flow_token: button.flowToken } : {}),
+              ...(button.data ? { flow_action_data: button.data } : {}),
+            },
+          },
+        ],
+      };
+  }
+}
+
+const BUTTON_SUB_TYPES: Record<string, TemplateButtonComponent["sub_type"]> = {
+  QUICK_REPLY: "quick_reply",
+  URL: "url",
+  COPY_CODE: "copy_code",
+  FLOW: "flow",
+  CATALOG: "catalog",
+  MPM: "mpm",
+  // Copy-code and one-tap authentication buttons
+  OTP: "url",
+};
+
+/**
+ * Check send-time components against a template definition: every
+ * placeholder gets a value (by position or by name, as the template
+ * declares), media headers get media of the right type, and button
+ * parameters match the buttons that take them. Throws
+ * WhatsAppValidationError on the first mismatch.
+ */
+export function validateTemplateComponents(template: MessageTemplate, components: TemplateComponent[] = []): void {
+  const named = template.parameter_format === "NAMED";
+  checkComponents(template.components ?? [], components, named, "");
+
+  const offer = template.components?.find((c) => c.type === "LIMITED_TIME_OFFER");
+  const sentOffer = components.some((c) => c.type === "limited_time_offer");
+  if (offer?.limited_time_offer?.has_expiration && !sentOffer) {
+    throw new WhatsAppValidationError("limited_time_offer", "template has an expiring offer; expiresAt is required");
+  }
+  if (!offer && sentOffer) {
+    throw new WhatsAppValidationError("limited_time_offer", "template has no limited-time offer");
+  }
+
+  const carousel = template.components?.find((c) => c.type === "CAROUSEL");
+  const sentCarousel = components.find((c) => c.type === "carousel");
+  if (!carousel && sentCarousel) throw new WhatsAppValidationError("cards", "template has no carousel");
+  if (carousel) {
+    const cards = sentCarousel?.type === "carousel" ? sentCarousel.cards : [];
+    const expected = carousel.cards ?? [];
+    if (cards.length !== expected.length) {
+      throw new WhatsAppValidationError("cards", `has ${cards.length} cards, template has ${expected.length}`);
+    }
+    for (const [index, definition] of expected.entries()) {
+      const card = cards.find((c) => c.card_index === index);
+      if (!card) throw new WhatsAppValidationError(`cards[${index}]`, "is missing");
+      checkComponents(definition.components, card.components, named, `cards[${index}].`);
+    }
+  }
+}
+
+function checkComponents(
+  definitions: TemplateDefinitionComponent[],
+  components: TemplateComponent[],
+  named: boolean,
+  path: string
+): void {
+  const header = definitions.find((c) => c.type === "HEADER");
+  const sentHeader = components.find((c) => c.type === "header");
+  const headerParams = sentHeader?.type === "header" ? sentHeader.parameters : [];
+  if (header?.format && header.format !== "TEXT") {
+    const type = header.format.toLowerCase();
+    if (headerParams.length !== 1 || headerParams[0].type !== type) {
+      throw new WhatsAppValidationError(`${path}header`, `template has a ${type} header; expected one ${type} parameter`);
+    }
+  } else {
+    checkPlaceholders(`${path}header`, header?.text ?? "", headerParams, named);
+  }
+
+  const body = definitions.find((c) => c.type === "BODY");
+  const sentBody = components.find((c) => c.type === "body");
+  checkPlaceholders(`${path}body`, body?.text ?? "", sentBody?.type === "body" ? sentBody.parameters : [], named);
+
+  const buttons = definitions.find((c) => c.type === "BUTTONS")?.buttons ?? [];
+  const sentButtons = components.filter((c): c is TemplateButtonComponent => c.type === "button");
+  for (const sent of sentButtons) {
+    const field = `${path}buttons[${sent.index}]`;
+    const definition = buttons[Number(sent.index)];
+    if (!definition) throw new WhatsAppValidationError(field, `template has ${buttons.length} buttons`);
+    const expected = BUTTON_SUB_TYPES[definition.type];
+    if (sent.sub_type !== expected) {
+      throw new WhatsAppValidationError(field, `is a ${definition.type} button, not ${sent.sub_type}`);
+    }
+    if (sent.sub_type === "url" && definition.type === "URL" && !definition.url?.includes("{{")) {
+      throw new WhatsAppValidationError(field, "has a static URL and takes no parameter");
+    }
+  }
+  for (const [index, definition] of buttons.entries()) {
+    const needsParameter =
+      (definition.type === "URL" && definition.url?.includes("{{")) ||
+      definition.type === "COPY_CODE" ||
+      definition.type === "OTP";
+    if (needsParameter && !sentButtons.some((b) => Number(b.index) === index)) {
+      throw new WhatsAppValidationError(`${path}buttons[${index}]`, `${definition.type} button needs a parameter`);
+    }
+  }
+}
+
+function checkPlaceholders(field: string, text: string, parameters: TemplateParameter[], named: boolean): void {
+  const placeholders = [...new Set(Array.from(text.matchAll(/\{\{\s*([^{}\s]+)\s*\}\}/g), (m) => m[1]))];
+
+  for (const parameter of parameters) {
+    if (parameter.type !== "text" && parameter.type !== "currency" && parameter.type !== "date_time") {
+      throw new WhatsAppValidationError(field, `${parameter.type} parameters can't fill a text placeholder`);
+    }
+  }
+
+  if (!named) {
+    if (parameters.some((p) => "parameter_name" in p && p.parameter_name)) {
+      throw new WhatsAppValidationError(field, "template uses positional placeholders; pass values as an array");
+    }
+    if (parameters.length !== placeholders.length) {
+      throw new WhatsAppValidationError(
+        field,
+        `has ${parameters.length} parameters, template expects ${placeholders.length}`
+      );
+    }
+    return;
+  }
+
+  const names = parameters.map((p) => ("parameter_name" in p ? p.parameter_name : undefined));
+  if (names.some((name) => !name)) {
+    throw new WhatsAppValidationError(field, "template uses named placeholders; pass values as an object");
+  }
+  const missing = placeholders.filter((name) => !names.includes(name));
+  if (missing.length) throw new WhatsAppValidationError(field, `missing parameter ${missing.join(", ")}`);
+  const unknown = names.filter((name) => !placeholders.includes(name!));
+  if (unknown.length) throw new WhatsAppValidationError(field, `unknown parameter ${unknown.join(", ")}`);
+}
+
+/**
+ * sendTemplate() that first checks the components against the template's
+ * definition (fetched once and cached). A mismatch fails the result with a
+ * "template" error — its cause is the WhatsAppValidationError naming the
+ * field — instead of costing a failed send; so does a template that can't
+ * be looked up.
+ */
+export async function sendValidatedTemplate(
+  config: WhatsAppCloudConfig,
+  to: string,
+  templateName: string,
+  languageCode: string,
+  components: TemplateComponent[] | undefined,
+  log: Logger,
+  options: SendOptions = {}
+): Promise<SendResult> {
+  const definition = await getCachedTemplate(config, templateName, languageCode, log);
+  if (!definition.ok || !definition.template) return { ok: false, error: definition.error };
+
+  try {
+    validateTemplateComponents(definition.template, components);
+  } catch (err) {
+    if (!(err instanceof WhatsAppValidationError)) throw err;
+    return {
+      ok: false,
+      error: new WhatsAppApiError(`Components don't match template ${templateName} (${languageCode}) — ${err.message}`, {
+        kind: "template",
+        cause: err,
+      }),
+    };
+  }
+  return sendTemplate(config, to, templateName, languageCode, components, log, options);
+}
@@ -2,6 +2,8 @@
 // WhatsApp Cloud API — Type Definitions
 // ---------------------------------------------------------------------------
 
+import type { WhatsAppApiError } from "./errors.js";
+
 /** Plugin configuration (stored under channels.whatsapp-cloud in openclaw.json) */
 export interface WhatsAppCloudConfig {
   enabled: boolean;
@@ -16,8 +18,82 @@ export interface WhatsAppCloudConfig {
   dmPolicy: "open" | "allowlist";
   allowFrom: string[];
   sendReadReceipts: boolean;
+  /** Retry policy for Graph API calls (merged with RETRY_DEFAULTS) */
+  retry?: Partial<RetryConfig>;
+  /** Outbound throughput cap for this phone number (0 disables pacing) */
+  messagesPerSecond?: number;
+  /** Download inbound images, audio, video and documents for the agent */
+  downloadInboundMedia?: boolean;
+  /** Directory where downloaded inbound media is stored */
+  mediaDir?: string;
+  /** Inbound media larger than this is not downloaded */
+  mediaMaxMb?: number;
+  /** Local files may only be sent from under this directory; unset disables local files */
+  outboundMediaDir?: string;
+  /** Template sent instead of free-form text once the 24h window has closed */
+  reengagementTemplate?: {
+    name: string;
+    language?: string;
+    components?: TemplateComponent[];
+  };
+  /** AUTHENTICATION template used by sendOtp() and requestOtp() */
+  otpTemplate?: {
+    name: string;
+    language?: string;
+  };
+  /** Record verified webhook events on disk before acknowledging them */
+  durableInbox?: boolean;
+  /** Directory of the durable inbox (one JSONL file per phone number) */
+  inboxDir?: string;
+  /** Append delivery receipts to disk so other processes (the broadcast CLI) can read them */
+  statusLog?: boolean;
+  /** Directory of the status log (one JSONL file per phone number) */
+  statusLogDir?: string;
+  /** Merge messages a sender sends within this window into one agent turn (0 disables) */
+  inboundDebounceMs?: number;
+  /** Longest a burst is held back while messages keep arriving */
+  inboundDebounceMaxMs?: number;
+  /** Agent turns running at once across all senders (0 = unlimited) */
+  maxConcurrentDispatches?: number;
+  /** Whether agent replies quote the message that triggered them */
+  replyThreading?: "off" | "first" | "all";
+  /** Convert the agent's Markdown to WhatsApp formatting before sending */
+  formatMarkdown?: boolean;
+  /** Append "(1/3)"-style markers to text split across several messages */
+  chunkMarkers?: boolean;
+  /** Turn a short numbered list of options ending a reply into buttons or a list */
+  autoInteractive?: boolean;
+  /** Path of the WhatsApp Flows data endpoint on the webhook server (disabled when unset) */
+  flowsEndpointPath?: string;
+  /** PEM private key whose public half is registered for Flows encryption */
+  flowsPrivateKey?: string;
+  /** Passphrase of flowsPrivateKey, if it is encrypted */
+  flowsPrivateKeyPassphrase?: string;
+}
+
+/** Retry policy applied to every outbound Graph API call */
+export interface RetryConfig {
+  /** Total attempts per request, including the first one */
+  maxAttempts: number;
+  /** Delay before the first retry; doubles on every further attempt */
+  baseDelayMs: number;
+  /** Upper bound for a single delay. A longer Retry-After aborts the retry loop */
+  maxDelayMs: number;
+  /**
+   * Also retry message sends, uploads and template creation after failures
+   * that Meta may have acted on (timeouts, dropped connections, 5xx). Can
+   * deliver a message twice.
+   */
+  retryAmbiguousSends: boolean;
 }
 
+export const RETRY_DEFAULTS: RetryConfig = {
+  maxAttempts: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  retryAmbiguousSends: false,
+};
+
 /** Defaults applied when config values are missing */
 export const CONFIG_DEFAULTS: Partial<WhatsAppCloudConfig> = {
   enabled: true,
@@ -28,6 +104,19 @@ export const CONFIG_DEFAULTS: Partial<WhatsAppCloudConfig> = {
   dmPolicy: "open",
   allowFrom: [],
   sendReadReceipts: true,
+  retry: RETRY_DEFAULTS,
+  messagesPerSecond: 80,
+  downloadInboundMedia: true,
+  mediaMaxMb: 20,
+  durableInbox: false,
+  statusLog: false,
+  inboundDebounceMs: 0,
+  inboundDebounceMaxMs: 10_000,
+  maxConcurrentDispatches: 8,
+  replyThreading: "off",
+  formatMarkdown: true,
+  chunkMarkers: false,
+  autoInteractive: false,
 };
 
 // ---------------------------------------------------------------------------
@@ -80,11 +169,50 @@ export interface IncomingMessage {
   location?: { latitude: number; longitude: number; name?: string; address?: string };
   contacts?: Array<{ name: { formatted_name: string }; phones?: Array<{ phone: string }> }>;
   interactive?: {
-    type: "button_reply" | "list_reply";
+    type: "button_reply" | "list_reply" | "nfm_reply";
     button_reply?: { id: string; title: string };
     list_reply?: { id: string; title: string; description?: string };
+    /** WhatsApp Flows submission */
+    nfm_reply?: { name?: string; body?: string; response_json: string };
   };
   button?: { text: string; payload: string };
+  /** Emoji reaction; emoji is empty or missing when a reaction is removed */
+  reaction?: { message_id: string; emoji?: string };
+  /** Cart sent from a catalog */
+  order?: {
+    catalog_id: string;
+    text?: string;
+    product_items: Array<{
+      product_retailer_id: string;
+      quantity: number;
+      item_price: number;
+      currency: string;
+    }>;
+  };
+  /** Set when the user arrived through a click-to-WhatsApp ad or post */
+  referral?: {
+    source_url: string;
+    source_id: string;
+    source_type: "ad" | "post" | string;
+    headline?: string;
+    body?: string;
+    media_type?: "image" | "video";
+    image_url?: string;
+    video_url?: string;
+    thumbnail_url?: string;
+    ctwa_clid?: string;
+  };
+  /** Notices such as a user changing their phone number */
+  system?: {
+    body: string;
+    type: "user_changed_number" | "customer_changed_number" | "customer_identity_changed" | string;
+    new_wa_id?: string;
+    wa_id?: string;
+    identity?: string;
+    customer?: string;
+  };
+  /** Present on "unsupported" messages */
+  errors?: WebhookError[];
   context?: {
     from: string;
     id: string;
@@ -105,6 +233,9 @@ export type MessageType =
   | "button"
   | "reaction"
   | "order"
+  | "system"
+  | "request_welcome"
+  | "unsupported"
   | "unknown";
 
 export interface MediaObject {
@@ -120,25 +251,137 @@ export interface MessageStatus {
   timestamp: string;
   recipient_id: string;
   errors?: WebhookError[];
+  /** Conversation the message was billed in (absent on "read" and some "failed") */
+  conversation?: {
+    id: string;
+    /** Unix seconds; only on the first "sent" status of a conversation */
+    expiration_timestamp?: string;
+    origin?: { type: ConversationCategory };
+  };
+  pricing?: {
+    billable: boolean;
+    pricing_model: "CBP" | "PMP" | string;
+    category: ConversationCategory;
+    type?: string;
+  };
+  /** Opaque value passed as biz_opaque_callback_data when sending */
+  biz_opaque_callback_data?: string;
 }
 
+/** Billing category of a conversation or message */
+export type ConversationCategory =
+  | "marketing"
+  | "utility"
+  | "authentication"
+  | "authentication_international"
+  | "service"
+  | "referral_conversion"
+  | (string & {});
+
 export interface WebhookError {
   code: number;
   title: string;
   message: string;
   error_data?: { details: string };
+  href?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Meta Webhook Payload — business account fields (everything but "messages")
+// ---------------------------------------------------------------------------
+
+/** field "message_template_status_update" */
+export interface TemplateStatusUpdateValue {
+  event: "APPROVED" | "REJECTED" | "PENDING" | "PAUSED" | "DISABLED" | "FLAGGED" | "REINSTATED" | "PENDING_DELETION" | (string & {});
+  message_template_id: number;
+  message_template_name: string;
+  message_template_language: string;
+  /** Why the template was rejected, paused or disabled ("NONE" otherwise) */
+  reason?: string | null;
+  other_info?: { title: string; description: string };
+}
+
+/** field "message_template_quality_update" */
+export interface TemplateQualityUpdateValue {
+  previous_quality_score: "GREEN" | "YELLOW" | "RED" | "UNKNOWN" | (string & {});
+  new_quality_score: "GREEN" | "YELLOW" | "RED" | "UNKNOWN" | (string & {});
+  message_template_id: number;
+  message_template_name: string;
+  message_template_language: string;
+}
+
+/** field "template_category_update" */
+export interface TemplateCategoryUpdateValue {
+  message_template_id: number;
+  message_template_name: string;
+  message_template_language: string;
+  previous_category: string;
+  new_category: string;
+  correct_category?: string;
+}
+
+/** field "phone_number_quality_update" */
+export interface PhoneNumberQualityUpdateValue {
+  display_phone_number: string;
+  /** FLAGGED: quality rating dropped to low; DOWNGRADE / UPGRADE: messaging limit changed */
+  event: "FLAGGED" | "UNFLAGGED" | "DOWNGRADE" | "UPGRADE" | (string & {});
+  /** Messaging limit tier, e.g. "TIER_1K" */
+  current_limit: string;
+  old_limit?: string;
+}
+
+/** field "account_update" */
+export interface AccountUpdateValue {
+  event:
+    | "ACCOUNT_VIOLATION"
+    | "ACCOUNT_RESTRICTION"
+    | "DISABLED_UPDATE"
+    | "VERIFIED_ACCOUNT"
+    | "ACCOUNT_DELETED"
+    | "PARTNER_ADDED"
+    | "PARTNER_REMOVED"
+    | (string & {});
+  phone_number?: string;
+  violation_info?: { violation_type: string };
+  restriction_info?: Array<{ restriction_type: string; expiration: number }>;
+  ban_info?: { waba_ban_state: "SCHEDULE_FOR_DISABLE" | "DISABLE" | "REINSTATE" | (string & {}); waba_ban_date: string };
+}
+
+/** field "business_capability_update" */
+export interface BusinessCapabilityUpdateValue {
+  max_daily_conversation_per_phone?: number;
+  max_phone_numbers_per_business?: number;
+  max_phone_numbers_per_waba?: number;
 }
 
 // ---------------------------------------------------------------------------
 // Meta Cloud API — Outbound message types
 // ---------------------------------------------------------------------------
 
+/** Options accepted by every send function */
+export interface SendOptions {
+  /** Message ID to quote (sent as context.message_id) */
+  replyTo?: string;
+}
+
+export interface SendMediaOptions extends SendOptions {
+  /** Text sent right after the media in the same queue slot (for types that can't carry a caption) */
+  followUpText?: string;
+}
+
+export interface SendTextOptions extends SendOptions {
+  /** Ask WhatsApp to render a link preview (default: on when the chunk has a URL) */
+  previewUrl?: boolean;
+}
+
 export interface SendTextRequest {
   messaging_product: "whatsapp";
   recipient_type: "individual";
   to: string;
   type: "text";
   text: { preview_url: boolean; body: string };
+  /** Quote an earlier message */
+  context?: { message_id: string };
 }
 
 export interface SendTemplateRequest {
@@ -150,62 +393,273 @@ export interface SendTemplateRequest {
     language: { code: string };
     components?: TemplateComponent[];
   };
+  /** Quote an earlier message */
+  context?: { message_id: string };
 }
 
-export interface TemplateComponent {
-  type: "header" | "body" | "button";
-  parameters: Array<{
-    type: "text" | "currency" | "date_time" | "image" | "document" | "video";
-    text?: string;
-    image?: { link: string };
-  }>;
+/**
+ * Send-time template component. Build these with buildTemplateComponents()
+ * in templates.ts.
+ *
+ * @see https://developers.facebook.com/docs/whatsapp/cloud-api/reference/messages#template-object
+ */
+export type TemplateComponent =
+  | { type: "header"; parameters: TemplateParameter[] }
+  | { type: "body"; parameters: TemplateParameter[] }
+  | TemplateButtonComponent
+  | { type: "limited_time_offer"; parameters: TemplateParameter[] }
+  | { type: "carousel"; cards: TemplateCarouselCard[] };
+
+export interface TemplateButtonComponent {
+  type: "button";
+  sub_type: "quick_reply" | "url" | "copy_code" | "flow" | "catalog" | "mpm";
+  /** Position of the button in the template definition, from 0 */
+  index: string;
+  parameters: TemplateParameter[];
+}
+
+export interface TemplateCarouselCard {
+  card_index: number;
+  components: TemplateComponent[];
 }
 
+/** `parameter_name` is set for templates with named ({{first_name}}) placeholders */
+export type TemplateParameter =
+  | { type: "text"; text: string; parameter_name?: string }
+  | {
+      type: "currency";
+      currency: { fallback_value: string; code: string; amount_1000: number };
+      parameter_name?: string;
+    }
+  | { type: "date_time"; date_time: { fallback_value: string }; parameter_name?: string }
+  | { type: "image"; image: InteractiveMediaRef }
+  | { type: "video"; video: InteractiveMediaRef }
+  | { type: "document"; document: InteractiveMediaRef & { filename?: string } }
+  | { type: "location"; location: { latitude: number; longitude: number; name?: string; address?: string } }
+  | { type: "payload"; payload: string }
+  | { type: "coupon_code"; coupon_code: string }
+  | { type: "action"; action: { flow_token?: string; flow_action_data?: Record<string, unknown> } }
+  | { type: "limited_time_offer"; limited_time_offer: { expiration_time_ms: number } };
+
 export interface SendInteractiveRequest {
   messaging_product: "whatsapp";
   recipient_type: "individual";
   to: string;
   type: "interactive";
   interactive: InteractiveMessage;
+  /** Quote an earlier message */
+  context?: { message_id: string };
+}
+
+/**
+ * Interactive message sent with type "interactive". Build these with the
+ * build*Message helpers in api.ts, which check Meta's limits.
+ *
+ * @see https://developers.facebook.com/docs/whatsapp/cloud-api/messages/interactive-messages
+ */
+export type InteractiveMessage =
+  | InteractiveButtonMessage
+  | InteractiveListMessage
+  | InteractiveCtaUrlMessage
+  | InteractiveLocationRequestMessage
+  | InteractiveAddressMessage
+  | InteractiveProductMessage
+  | InteractiveProductListMessage
+  | InteractiveCatalogMessage
+  | InteractiveFlowMessage;
+
+export type InteractiveType = InteractiveMessage["type"];
+
+/** Media for an interactive header: a public URL or an uploaded media ID */
+export interface InteractiveMediaRef {
+  link?: string;
+  id?: string;
 }
 
-export interface InteractiveMessage {
-  type: "button" | "list";
-  header?: { type: "text"; text: string };
+export type InteractiveHeader =
+  | { type: "text"; text: string }
+  | { type: "image"; image: InteractiveMediaRef }
+  | { type: "video"; video: InteractiveMediaRef }
+  | { type: "document"; document: InteractiveMediaRef & { filename?: string } };
+
+export interface InteractiveTextHeader {
+  type: "text";
+  text: string;
+}
+
+export interface InteractiveButtonMessage {
+  type: "button";
+  header?: InteractiveHeader;
   body: { text: string };
   footer?: { text: string };
-  action: InteractiveAction;
+  action: {
+    buttons: Array<{
+      type: "reply";
+      reply: { id: string; title: string };
+    }>;
+  };
 }
 
-export interface InteractiveAction {
-  // Button type
-  buttons?: Array<{
-    type: "reply";
-    reply: { id: string; title: string };
-  }>;
-  // List type
-  button?: string;
-  sections?: Array<{
+export interface InteractiveListSection {
+  /** Required when there is more than one section */
+  title?: string;
+  rows: Array<{
+    id: string;
     title: string;
-    rows: Array<{
-      id: string;
+    description?: string;
+  }>;
+}
+
+export interface InteractiveListMessage {
+  type: "list";
+  header?: InteractiveTextHeader;
+  body: { text: string };
+  footer?: { text: string };
+  action: {
+    /** Label of the button that opens the list */
+    button: string;
+    sections: InteractiveListSection[];
+  };
+}
+
+export interface InteractiveCtaUrlMessage {
+  type: "cta_url";
+  header?: InteractiveHeader;
+  body: { text: string };
+  footer?: { text: string };
+  action: {
+    name: "cta_url";
+    parameters: { display_text: string; url: string };
+  };
+}
+
+export interface InteractiveLocationRequestMessage {
+  type: "location_request_message";
+  body: { text: string };
+  action: { name: "send_location" };
+}
+
+/** Address form prefill; only available for business numbers in India and Singapore */
+export interface AddressMessageParameters {
+  /** ISO 3166-1 alpha-2 country code, e.g. "IN" */
+  country: string;
+  /** Prefilled fields, e.g. { name, phone_number, in_pin_code, city } */
+  values?: Record<string, string>;
+  /** Errors to show next to fields, keyed like `values` */
+  validation_errors?: Record<string, string>;
+  saved_addresses?: Array<{ id: string; value: Record<string, string> }>;
+}
+
+export interface InteractiveAddressMessage {
+  type: "address_message";
+  header?: InteractiveTextHeader;
+  body: { text: string };
+  footer?: { text: string };
+  action: {
+    name: "address_message";
+    parameters: AddressMessageParameters;
+  };
+}
+
+export interface InteractiveProductMessage {
+  type: "product";
+  body?: { text: string };
+  footer?: { text: string };
+  action: {
+    catalog_id: string;
+    product_retailer_id: string;
+  };
+}
+
+export interface InteractiveProductListMessage {
+  type: "product_list";
+  header: InteractiveTextHeader;
+  body: { text: string };
+  footer?: { text: string };
+  action: {
+    catalog_id: string;
+    sections: Array<{
       title: string;
-      description?: string;
+      product_items: Array<{ product_retailer_id: string }>;
     }>;
-  }>;
+  };
+}
+
+export interface InteractiveCatalogMessage {
+  type: "catalog_message";
+  body: { text: string };
+  footer?: { text: string };
+  action: {
+    name: "catalog_message";
+    parameters?: { thumbnail_product_retailer_id?: string };
+  };
+}
+
+/** Parameters of a WhatsApp Flows message, as sent to the Graph API */
+export interface FlowActionParameters {
+  flow_message_version: "3";
+  /** Either flow_id or flow_name identifies the Flow */
+  flow_id?: string;
+  flow_name?: string;
+  /** Label of the button that opens the Flow */
+  flow_cta: string;
+  /** Opaque token echoed back in the response and data-endpoint calls */
+  flow_token?: string;
+  /** "draft" lets you test an unpublished Flow */
+  mode?: "draft" | "published";
+  /** "navigate" opens `screen`; "data_exchange" asks the data endpoint for it */
+  flow_action?: "navigate" | "data_exchange";
+  flow_action_payload?: { screen: string; data?: Record<string, unknown> };
+}
+
+/** What sendFlow needs to open a Flow */
+export interface FlowMessageOptions {
+  /** Published Flow ID; or use flowName */
+  flowId?: string;
+  flowName?: string;
+  /** Label of the button that opens the Flow */
+  cta: string;
+  /** Echoed back as flow_token in the response, to match it to this send */
+  token?: string;
+  /** "draft" sends an unpublished Flow for testing (default "published") */
+  mode?: "draft" | "published";
+  /** First screen to show; required unless action is "data_exchange" */
+  screen?: string;
+  /** Initial data for the first screen */
+  data?: Record<string, unknown>;
+  /** "data_exchange" asks your data endpoint for the first screen (default "navigate") */
+  action?: "navigate" | "data_exchange";
+  header?: InteractiveHeader | string;
+  footer?: string;
+}
+
+export interface InteractiveFlowMessage {
+  type: "flow";
+  header?: InteractiveHeader;
+  body: { text: string };
+  footer?: { text: string };
+  action: {
+    name: "flow";
+    parameters: FlowActionParameters;
+  };
 }
 
 export interface SendMediaRequest {
   messaging_product: "whatsapp";
   recipient_type: "individual";
   to: string;
-  type: "image" | "audio" | "video" | "document";
+  type: OutboundMediaType;
   image?: { link?: string; id?: string; caption?: string };
   audio?: { link?: string; id?: string };
   video?: { link?: string; id?: string; caption?: string };
   document?: { link?: string; id?: string; caption?: string; filename?: string };
+  sticker?: { link?: string; id?: string };
+  /** Quote an earlier message */
+  context?: { message_id: string };
 }
 
+export type OutboundMediaType = "image" | "audio" | "video" | "document" | "sticker";
+
 // ---------------------------------------------------------------------------
 // API response types
 // ---------------------------------------------------------------------------
@@ -216,6 +670,10 @@ export interface SendMessageResponse {
   messages: Array<{ id: string; message_status?: string }>;
 }
 
+export interface MediaUploadResponse {
+  id: string;
+}
+
 export interface MediaUrlResponse {
   url: string;
   mime_type: string;
@@ -231,6 +689,9 @@ export interface ApiErrorResponse {
     type: string;
     code: number;
     error_subcode?: number;
+    error_user_title?: string;
+    error_user_msg?: string;
+    error_data?: { messaging_product?: "whatsapp"; details: string };
     fbtrace_id: string;
   };
 }
@@ -249,5 +710,23 @@ export interface Logger {
 export interface SendResult {
   ok: boolean;
   messageId?: string;
-  error?: string;
+  error?: WhatsAppApiError;
+  /** Set by sendWithinWindow when a re-engagement template was sent in place of the message */
+  reengagementMessageId?: string;
+  /** Set when the media went out but its follow-up caption message failed */
+  captionError?: WhatsAppApiError;
+}
+
+/** Result of a management (non-message) Graph API call */
+export interface GraphResult<T> {
+  ok: boolean;
+  data?: T;
+  error?: WhatsAppApiError;
+}
+
+export interface UploadMediaResult {
+  ok: boolean;
+  /** Media ID to reference in sendMedia ({ id }) */
+  mediaId?: string;
+  error?: WhatsAppApiError;
 }
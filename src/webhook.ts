@@ -5,11 +5,19 @@
 import { createServer, type IncomingMessage, type ServerResponse, type Server } from "node:http";
 import { verifyWebhookSignature } from "./crypto.js";
 import { markAsRead } from "./api.js";
+import { recordInboundMessage } from "./conversation-window.js";
+import { dispatchInbound } from "./dispatch.js";
+import { recordStatusUpdate } from "./status.js";
+import { parseBusinessEvent, describeBusinessEvent, recordBusinessEvent, type WhatsAppBusinessEvent } from "./business-events.js";
+import { appendInboxEntry, inboxEntryValue, markInboxEntryDone, takePendingForReplay } from "./inbox.js";
+import { handleFlowDataRequest, type FlowDataHandler } from "./flows.js";
 import type {
   WhatsAppCloudConfig,
   WebhookPayload,
+  WebhookValue,
   IncomingMessage as WAMessage,
   WebhookContact,
+  MessageStatus,
   Logger,
 } from "./types.js";
 
@@ -45,45 +53,180 @@ export interface ParsedInboundMessage {
   };
   /** If this is a reply to a previous message */
   quotedMessageId?: string;
+  /** Emoji reaction to an earlier message; emoji is undefined when removed */
+  reaction?: {
+    messageId: string;
+    emoji?: string;
+  };
+  /** Cart sent from a catalog */
+  order?: {
+    catalogId: string;
+    text?: string;
+    items: Array<{
+      productRetailerId: string;
+      quantity: number;
+      itemPrice: number;
+      currency: string;
+    }>;
+  };
+  /** Click-to-WhatsApp ad or post the user came from */
+  referral?: {
+    sourceType: string;
+    sourceId: string;
+    sourceUrl: string;
+    headline?: string;
+    body?: string;
+    mediaType?: "image" | "video";
+    mediaUrl?: string;
+    ctwaClid?: string;
+  };
+  /** Fields submitted through a WhatsApp Flow (nfm_reply) */
+  flowResponse?: {
+    /** Flow name as reported by Meta, usually "flow" */
+    name?: string;
+    /** The flow_token the Flow was sent with */
+    flowToken?: string;
+    /** Submitted fields, as returned in response_json */
+    data: Record<string, unknown>;
+  };
+  /** System notice, e.g. the user changed their number */
+  system?: {
+    type: string;
+    body: string;
+    /** The user's new WhatsApp ID after a number change */
+    newWaId?: string;
+  };
+  /** The original messages, oldest first, when a burst was merged into this one */
+  batch?: ParsedInboundMessage[];
 }
 
-export type InboundMessageHandler = (message: ParsedInboundMessage) => void;
+/** Handlers may return a promise; durable inbox entries are completed once it settles */
+export type InboundMessageHandler = (message: ParsedInboundMessage) => void | Promise<void>;
 export type StatusUpdateHandler = (
   messageId: string,
   status: string,
-  recipientId: string
-) => void;
+  recipientId: string,
+  /** Full webhook status, including errors, conversation and pricing */
+  details: MessageStatus
+) => void | Promise<void>;
+
+/** Template, quality and account events of the account's WhatsApp Business Account */
+export type WebhookEventHandler = (event: WhatsAppBusinessEvent) => void | Promise<void>;
+
+/** One account's handlers, selected by the payload's metadata.phone_number_id */
+export interface WebhookRoute {
+  /** Passed to Flows data handlers (default: "default") */
+  accountId?: string;
+  config: WhatsAppCloudConfig;
+  onMessage: InboundMessageHandler;
+  onStatus?: StatusUpdateHandler;
+  onEvent?: WebhookEventHandler;
+  /** Computes screens for this account's data_exchange Flows (see flows.ts) */
+  onFlowData?: FlowDataHandler;
+  log: Logger;
+}
+
+/** Routes keyed by phoneNumberId */
+type RouteTable = Map<string, WebhookRoute>;
 
 // ---------------------------------------------------------------------------
 // Server
 // ---------------------------------------------------------------------------
 
+/**
+ * Start a dedicated webhook server for a single account.
+ * Use attachWebhookRoute() to share one port between several accounts.
+ */
 export function startWebhookServer(
   config: WhatsAppCloudConfig,
   onMessage: InboundMessageHandler,
   onStatus: StatusUpdateHandler | undefined,
   log: Logger
 ): Server {
+  const route: WebhookRoute = { config, onMessage, onStatus, log };
+  const server = createRoutingServer(config.webhookPort, new Map([[config.phoneNumberId, route]]), log);
+  startReplay(route);
+  return server;
+}
+
+// Servers shared between accounts, keyed by port
+const sharedServers = new Map<number, { server: Server; routes: RouteTable }>();
+
+/**
+ * Register an account on the webhook server for its port, starting the
+ * server if this is the first account on that port. Payloads are routed to
+ * the account whose phoneNumberId matches metadata.phone_number_id.
+ */
+export function attachWebhookRoute(route: WebhookRoute): Server {
+  const { webhookPort, phoneNumberId } = route.config;
+  let shared = sharedServers.get(webhookPort);
+
+  if (!shared) {
+    const routes: RouteTable = new Map();
+    shared = { server: createRoutingServer(webhookPort, routes, route.log), routes };
+    sharedServers.set(webhookPort, shared);
+  }
+
+  if (shared.routes.has(phoneNumberId)) {
+    throw new Error(
+      `Phone number ID ${phoneNumberId} is already registered on webhook port ${webhookPort}`
+    );
+  }
+  shared.routes.set(phoneNumberId, route);
+  startReplay(route);
+  return shared.server;
+}
+
+/**
+ * Remove an account from its shared webhook server. The server is closed
+ * once its last account is gone.
+ */
+export async function detachWebhookRoute(config: WhatsAppCloudConfig): Promise<void> {
+  const shared = sharedServers.get(config.webhookPort);
+  if (!shared || shared.routes.get(config.phoneNumberId)?.config !== config) return;
+
+  shared.routes.delete(config.phoneNumberId);
+  if (shared.routes.size === 0) {
+    sharedServers.delete(config.webhookPort);
+    await new Promise<void>((resolve) => shared.server.close(() => resolve()));
+  }
+}
+
+/** Whether an account is currently attached to a listening shared server */
+export function isWebhookRouteActive(config: WhatsAppCloudConfig): boolean {
+  const shared = sharedServers.get(config.webhookPort);
+  return Boolean(shared?.server.listening && shared.routes.get(config.phoneNumberId)?.config === config);
+}
+
+function createRoutingServer(port: number, routes: RouteTable, log: Logger): Server {
   const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
     const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
     const path = url.pathname;
+    const pathRoutes = [...routes.values()].filter((r) => r.config.webhookPath === path);
 
     // ----- Webhook verification (GET) -----
-    if (req.method === "GET" && path === config.webhookPath) {
-      handleVerification(url, config, res, log);
+    if (req.method === "GET" && pathRoutes.length > 0) {
+      handleVerification(url, pathRoutes, res, log);
       return;
     }
 
     // ----- Incoming webhook events (POST) -----
-    if (req.method === "POST" && path === config.webhookPath) {
-      await handleIncoming(req, res, config, onMessage, onStatus, log);
+    if (req.method === "POST" && pathRoutes.length > 0) {
+      await handleIncoming(req, res, pathRoutes, log);
+      return;
+    }
+
+    // ----- WhatsApp Flows data endpoint (POST) -----
+    const flowRoutes = [...routes.values()].filter((r) => r.config.flowsEndpointPath === path);
+    if (req.method === "POST" && flowRoutes.length > 0) {
+      await handleFlowDataRequest(req, res, flowRoutes, log);
       return;
     }
 
     // ----- Health check -----
     if (req.method === "GET" && path === "/health") {
       res.writeHead(200, { "Content-Type": "application/json" });
-      res.end(JSON.stringify({ status: "ok", channel: "whatsapp-cloud" }));
+      res.end(JSON.stringify({ status: "ok", channel: "whatsapp-cloud", accounts: routes.size }));
       return;
     }
 
@@ -91,10 +234,9 @@ export function startWebhookServer(
     res.end("Not found");
   });
 
-  server.listen(config.webhookPort, () => {
-    log.info(
-      `[whatsapp-cloud] Webhook server listening on port ${config.webhookPort} at ${config.webhookPath}`
-    );
+  server.listen(port, () => {
+    const paths = [...new Set([...routes.values()].map((r) => r.config.webhookPath))];
+    log.info(`[whatsapp-cloud] Webhook server listening on port ${port} at ${paths.join(", ")}`);
   });
 
   server.on("error", (err) => {
@@ -104,13 +246,81 @@ export function startWebhookServer(
   return server;
 }
 
+// ---------------------------------------------------------------------------
+// Deduplication — Meta retries deliveries, so the same event can arrive twice
+// ---------------------------------------------------------------------------
+
+/**
+ * Storage for keys of webhook events that were already processed. The
+ * default is an in-memory LRU with a TTL; plug in a persistent store to keep
+ * deduplicating across restarts or between gateways.
+ */
+export interface WebhookDedupStore {
+  /**
+   * Record a key; resolves to true when it wasn't there yet. Must be atomic
+   * (e.g. Redis `SET key 1 NX EX 86400`) so two gateways receiving the same
+   * delivery don't both process it.
+   */
+  checkAndAdd(key: string): Promise<boolean>;
+}
+
+export interface MemoryDedupStoreOptions {
+  /** Oldest keys are evicted beyond this many entries (default 10000) */
+  maxEntries?: number;
+  /** How long a key is remembered (default 24h) */
+  ttlMs?: number;
+}
+
+export function createMemoryDedupStore(options: MemoryDedupStoreOptions = {}): WebhookDedupStore {
+  const maxEntries = options.maxEntries ?? 10_000;
+  const ttlMs = options.ttlMs ?? 24 * 60 * 60 * 1000;
+  // Key → expiry; Map iteration order doubles as least-recently-used order
+  const entries = new Map<string, number>();
+
+  return {
+    checkAndAdd: async (key) => {
+      const expiresAt = entries.get(key);
+      entries.delete(key);
+      if (expiresAt !== undefined && expiresAt > Date.now()) {
+        entries.set(key, expiresAt); // Seen: refresh its place in the LRU order
+        return false;
+      }
+      entries.set(key, Date.now() + ttlMs);
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+      return true;
+    },
+  };
+}
+
+let dedupStore: WebhookDedupStore = createMemoryDedupStore();
+
+// Display number per phone number ID (digits only), learned from message webhooks
+const displayNumbers = new Map<string, string>();
+
+export function setWebhookDedupStore(next: WebhookDedupStore): void {
+  dedupStore = next;
+}
+
+/** True the first time an event key is seen; records it as processed */
+async function isFirstDelivery(key: string, log: Logger): Promise<boolean> {
+  try {
+    return await dedupStore.checkAndAdd(key);
+  } catch (err) {
+    // A duplicate beats a lost message
+    log.warn(`[whatsapp-cloud] Dedup store failed for ${key}, processing anyway: ${err}`);
+    return true;
+  }
+}
+
 // ---------------------------------------------------------------------------
 // GET — Meta webhook verification challenge
 // ---------------------------------------------------------------------------
 
 function handleVerification(
   url: URL,
-  config: WhatsAppCloudConfig,
+  routes: WebhookRoute[],
   res: ServerResponse,
   log: Logger
 ): void {
@@ -118,7 +328,7 @@ function handleVerification(
   const token = url.searchParams.get("hub.verify_token");
   const challenge = url.searchParams.get("hub.challenge");
 
-  if (mode === "subscribe" && token === config.verifyToken && challenge) {
+  if (mode === "subscribe" && challenge && routes.some((r) => r.config.verifyToken === token)) {
     log.info("[whatsapp-cloud] Webhook verification successful");
     res.writeHead(200, { "Content-Type": "text/plain" });
     res.end(challenge);
@@ -136,27 +346,85 @@ function handleVerification(
 async function handleIncoming(
   req: IncomingMessage,
   res: ServerResponse,
-  config: WhatsAppCloudConfig,
-  onMessage: InboundMessageHandler,
-  onStatus: StatusUpdateHandler | undefined,
+  routes: WebhookRoute[],
   log: Logger
 ): Promise<void> {
   // Read body
   let rawBody = "";
   for await (const chunk of req) rawBody += chunk;
 
-  // Always respond 200 quickly — Meta retries on non-2xx
+  // Always respond 200 — Meta retries on non-2xx. With a durable inbox the
+  // response waits until the verified events are on disk.
+  const { work, events } = await collectVerifiedChanges(
+    rawBody,
+    req.headers["x-hub-signature-256"] as string | undefined,
+    routes,
+    log
+  );
   res.writeHead(200, { "Content-Type": "text/plain" });
   res.end("OK");
 
-  // Verify signature (skip if appSecret not configured — dev mode)
-  if (config.appSecret) {
-    const signature = req.headers["x-hub-signature-256"] as string | undefined;
-    if (!verifyWebhookSignature(rawBody, signature, config.appSecret)) {
-      log.warn("[whatsapp-cloud] Webhook signature verification FAILED — ignoring payload");
-      return;
+  for (const { route, event } of events) {
+    try {
+      await processBusinessEvent(route, event);
+    } catch (err) {
+      route.log.error(`[whatsapp-cloud] Failed to process ${event.field} event: ${err}`);
     }
-  } else {
+  }
+
+  for (const { route, value, inboxEntryId } of work) {
+    try {
+      await processChange(route, value);
+      if (inboxEntryId) markInboxEntryDone(route.config, inboxEntryId, route.log);
+    } catch (err) {
+      // The inbox entry stays pending and is replayed on the next start
+      route.log.error(
+        `[whatsapp-cloud] Failed to process webhook change${inboxEntryId ? ` (kept in the durable inbox for replay)` : ""}: ${err}`
+      );
+    }
+  }
+}
+
+interface VerifiedChange {
+  route: WebhookRoute;
+  value: WebhookValue;
+  /** Set when the change was recorded in the durable inbox */
+  inboxEntryId?: string;
+}
+
+interface VerifiedEvent {
+  route: WebhookRoute;
+  event: WhatsAppBusinessEvent;
+}
+
+/**
+ * Verify, route and deduplicate the changes of a payload, persisting them to
+ * the durable inbox of accounts that enable it. Business account events go
+ * to every account of the WABA they concern.
+ */
+async function collectVerifiedChanges(
+  rawBody: string,
+  signature: string | undefined,
+  routes: WebhookRoute[],
+  log: Logger
+): Promise<{ work: VerifiedChange[]; events: VerifiedEvent[] }> {
+  // Verify signature against each distinct App Secret (accounts may belong to
+  // different Meta apps). Accounts without appSecret accept unsigned payloads.
+  const verifiedSecrets = new Map<string, boolean>();
+  const isAuthentic = (route: WebhookRoute): boolean => {
+    const secret = route.config.appSecret;
+    if (!secret) return true;
+    if (!verifiedSecrets.has(secret)) {
+      verifiedSecrets.set(secret, verifyWebhookSignature(rawBody, signature, secret));
+    }
+    return verifiedSecrets.get(secret)!;
+  };
+
+  if (!routes.some(isAuthentic)) {
+    log.warn("[whatsapp-cloud] Webhook signature verification FAILED — ignoring payload");
+    return { work: [], events: [] };
+  }
+  if (routes.some((r) => !r.config.appSecret)) {
     log.debug(
       "[whatsapp-cloud] No appSecret configured — skipping signature verification (NOT safe for production)"
     );
@@ -168,57 +436,220 @@ async function handleIncoming(
     payload = JSON.parse(rawBody) as WebhookPayload;
   } catch (err) {
     log.error(`[whatsapp-cloud] Failed to parse webhook JSON: ${err}`);
-    return;
+    return { work: [], events: [] };
   }
 
   if (payload.object !== "whatsapp_business_account") {
     log.debug(`[whatsapp-cloud] Ignoring non-WhatsApp webhook object: ${payload.object}`);
-    return;
+    return { work: [], events: [] };
   }
 
-  for (const entry of payload.entry) {
-    for (const change of entry.changes) {
-      if (change.field !== "messages") continue;
-
-      const { messages, contacts, statuses, errors } = change.value;
-
-      // Log errors
-      if (errors?.length) {
-        for (const err of errors) {
-          log.error(
-            `[whatsapp-cloud] Webhook error ${err.code}: ${err.title} — ${err.message}`
+  const work: VerifiedChange[] = [];
+  const events: VerifiedEvent[] = [];
+  for (const [entryIndex, entry] of (payload.entry ?? []).entries()) {
+    for (const [changeIndex, change] of (entry.changes ?? []).entries()) {
+      if (change.field !== "messages") {
+        const event = parseBusinessEvent(change.field, entry.id, change.value);
+        if (!event) {
+          log.debug(`[whatsapp-cloud] Ignoring webhook field ${change.field}`);
+          continue;
+        }
+        const targets = businessEventTargets(routes, event);
+        if (targets.length === 0) {
+          const number = eventPhoneNumber(event);
+          log.warn(
+            `[whatsapp-cloud] No account configured for business account ID ${entry.id}${
+              number ? ` and number ${number}` : ""
+            } — ignoring ${change.field}`
           );
         }
+        for (const route of targets.filter(isAuthentic)) events.push({ route, event });
+        continue;
       }
 
-      // Process status updates
-      if (statuses?.length && onStatus) {
-        for (const status of statuses) {
-          onStatus(status.id, status.status, status.recipient_id);
-        }
+      const route = selectRoute(routes, change.value.metadata?.phone_number_id);
+      if (!route) {
+        log.warn(
+          `[whatsapp-cloud] No account configured for phone number ID ${change.value.metadata?.phone_number_id} — ignoring change`
+        );
+        continue;
       }
-
-      // Process incoming messages
-      if (messages?.length) {
-        for (const msg of messages) {
-          processMessage(msg, contacts ?? [], config, onMessage, log);
-        }
+      if (!isAuthentic(route)) {
+        route.log.warn(
+          `[whatsapp-cloud] Webhook signature does not match the App Secret of phone number ID ${route.config.phoneNumberId} — ignoring change`
+        );
+        continue;
       }
+      const display = change.value.metadata?.display_phone_number;
+      if (display) displayNumbers.set(route.config.phoneNumberId, digitsOf(display));
+
+      const value = await dropDuplicates(change.value, route);
+      if (!value) continue;
+
+      work.push({ route, value, inboxEntryId: recordInInbox(route, rawBody, [entryIndex, changeIndex]) });
     }
   }
+  return { work, events };
+}
+
+/** Remove messages and status events that were already delivered */
+async function dropDuplicates(value: WebhookValue, route: WebhookRoute): Promise<WebhookValue | null> {
+  const { config, log } = route;
+
+  const messages: WAMessage[] = [];
+  for (const msg of value.messages ?? []) {
+    if (await isFirstDelivery(`message:${config.phoneNumberId}:${msg.id}`, log)) {
+      messages.push(msg);
+    } else {
+      log.info(`[whatsapp-cloud] Dropping duplicate delivery of message ${msg.id} from ${msg.from}`);
+    }
+  }
+
+  // Each message moves through several statuses, so key on ID + status
+  const statuses: MessageStatus[] = [];
+  for (const status of value.statuses ?? []) {
+    if (await isFirstDelivery(`status:${status.id}:${status.status}`, log)) {
+      statuses.push(status);
+    } else {
+      log.debug(`[whatsapp-cloud] Dropping duplicate "${status.status}" status for ${status.id}`);
+    }
+  }
+
+  if (!messages.length && !statuses.length && !value.errors?.length) return null;
+  return { ...value, messages, statuses };
+}
+
+/** Persist a change to the account's durable inbox; returns the entry ID */
+function recordInInbox(route: WebhookRoute, rawBody: string, change: [number, number]): string | undefined {
+  if (!route.config.durableInbox) return undefined;
+  try {
+    return appendInboxEntry(route.config, rawBody, change).id;
+  } catch (err) {
+    // Still process in memory — losing durability beats losing the message
+    route.log.error(`[whatsapp-cloud] Failed to write durable inbox: ${err}`);
+    return undefined;
+  }
+}
+
+/** Hand a change's errors, status updates and messages to the account's handlers */
+async function processChange(route: WebhookRoute, value: WebhookValue): Promise<void> {
+  const { config, onMessage, onStatus, log } = route;
+  const { messages, contacts, statuses, errors } = value;
+
+  // Log errors
+  if (errors?.length) {
+    for (const err of errors) {
+      log.error(`[whatsapp-cloud] Webhook error ${err.code}: ${err.title} — ${err.message}`);
+    }
+  }
+
+  // Process status updates
+  for (const status of statuses ?? []) {
+    recordStatusUpdate(config.phoneNumberId, status);
+    await onStatus?.(status.id, status.status, status.recipient_id, status);
+  }
+
+  // Process incoming messages — queued in order, so a burst in one payload
+  // can still be coalesced
+  if (messages?.length) {
+    await Promise.all(messages.map((msg) => processMessage(msg, contacts ?? [], config, onMessage, log)));
+  }
+}
+
+/** Log a business account event, track the issue it opens or resolves and hand it to the account */
+async function processBusinessEvent(route: WebhookRoute, event: WhatsAppBusinessEvent): Promise<void> {
+  const { message, problem } = describeBusinessEvent(event);
+  if (problem) {
+    route.log.warn(`[whatsapp-cloud] ${message}`);
+  } else {
+    route.log.info(`[whatsapp-cloud] ${message}`);
+  }
+  recordBusinessEvent(route.config.phoneNumberId, event);
+  await route.onEvent?.(event);
+}
+
+/** Replay the account's unfinished inbox entries in the background */
+function startReplay(route: WebhookRoute): void {
+  if (!route.config.durableInbox) return;
+  replayInbox(route).catch((err) => {
+    route.log.error(`[whatsapp-cloud] Failed to replay durable inbox: ${err}`);
+  });
+}
+
+/** Re-run inbox entries left unfinished by a previous run of the account */
+async function replayInbox(route: WebhookRoute): Promise<void> {
+  const entries = takePendingForReplay(route.config, route.log);
+  if (entries.length === 0) return;
+
+  route.log.info(`[whatsapp-cloud] Replaying ${entries.length} unfinished inbox entries for ${route.config.phoneNumberId}`);
+  // Replays skip deduplication: the message IDs were recorded when the change
+  // first arrived, and a persistent dedup store would drop them all
+  for (const entry of entries) {
+    try {
+      await processChange(route, inboxEntryValue(entry));
+      markInboxEntryDone(route.config, entry.id, route.log);
+    } catch (err) {
+      route.log.error(`[whatsapp-cloud] Failed to replay inbox entry ${entry.id}: ${err}`);
+    }
+  }
+}
+
+/**
+ * Routes a business event concerns: the accounts of its business account,
+ * narrowed to the phone number for number-level events. An account whose
+ * display number hasn't been seen in a webhook yet only gets those when it's
+ * the business account's only account on this server.
+ */
+function businessEventTargets(routes: WebhookRoute[], event: WhatsAppBusinessEvent): WebhookRoute[] {
+  const sameAccount = routes.filter((r) => r.config.businessAccountId === event.businessAccountId);
+  const number = eventPhoneNumber(event);
+  if (!number) return sameAccount;
+
+  const matched = sameAccount.filter((r) => displayNumbers.get(r.config.phoneNumberId) === number);
+  if (matched.length > 0) return matched;
+  const [only] = sameAccount;
+  return sameAccount.length === 1 && !displayNumbers.has(only.config.phoneNumberId) ? sameAccount : [];
+}
+
+/** Digits of the phone number a number-level event is about */
+function eventPhoneNumber(event: WhatsAppBusinessEvent): string | undefined {
+  if (event.field === "phone_number_quality_update") return digitsOf(event.value.display_phone_number);
+  if (event.field === "account_update" && event.value.phone_number) return digitsOf(event.value.phone_number);
+  return undefined;
+}
+
+function digitsOf(phoneNumber: string): string {
+  return String(phoneNumber).replace(/\D/g, "");
+}
+
+/**
+ * Pick the account for a change. A server with a single account takes every
+ * change, so Meta's dashboard test payloads (with placeholder IDs) still work.
+ */
+function selectRoute(routes: WebhookRoute[], phoneNumberId: string | undefined): WebhookRoute | undefined {
+  if (routes.length === 1) return routes[0];
+  return routes.find((r) => r.config.phoneNumberId === phoneNumberId);
 }
 
 // ---------------------------------------------------------------------------
 // Parse a single incoming message
 // ---------------------------------------------------------------------------
 
-function processMessage(
+async function processMessage(
   msg: WAMessage,
   contacts: WebhookContact[],
   config: WhatsAppCloudConfig,
   onMessage: InboundMessageHandler,
   log: Logger
-): void {
+): Promise<void> {
+  // Every inbound message (re)opens the 24h customer service window
+  try {
+    await recordInboundMessage(config.phoneNumberId, msg.from, parseInt(msg.timestamp, 10) * 1000);
+  } catch (err) {
+    // The message still reaches the agent; only the window tracking is stale
+    log.warn(`[whatsapp-cloud] Failed to record the conversation window for ${msg.from}: ${err}`);
+  }
+
   // Access control
   if (config.dmPolicy === "allowlist") {
     const normalized = normalizePhone(msg.from);
@@ -236,16 +667,26 @@ function processMessage(
   // Extract text and media
   const parsed = extractMessageContent(msg);
 
+  const referral = msg.referral ? parseReferral(msg.referral) : undefined;
+
   const inbound: ParsedInboundMessage = {
     from: msg.from,
     senderName,
-    text: parsed.text,
+    // Let the agent know which ad or post started the conversation
+    text: referral
+      ? `${parsed.text}\n[Via ${referral.sourceType}: ${referral.headline ?? referral.sourceUrl}]`
+      : parsed.text,
     messageId: msg.id,
     timestamp: msg.timestamp,
     type: msg.type,
     media: parsed.media,
     interactiveReply: parsed.interactiveReply,
+    flowResponse: parsed.flowResponse,
     quotedMessageId: msg.context?.id,
+    reaction: parsed.reaction,
+    order: parsed.order,
+    referral,
+    system: parsed.system,
   };
 
   log.info(
@@ -259,19 +700,18 @@ function processMessage(
     markAsRead(config, msg.id, log);
   }
 
-  // Dispatch to OpenClaw
-  onMessage(inbound);
+  // Dispatch to OpenClaw, in order per sender
+  await dispatchInbound(config, inbound, onMessage, log);
 }
 
 // ---------------------------------------------------------------------------
 // Content extraction
 // ---------------------------------------------------------------------------
 
-interface ExtractedContent {
-  text: string;
-  media?: ParsedInboundMessage["media"];
-  interactiveReply?: ParsedInboundMessage["interactiveReply"];
-}
+type ExtractedContent = Pick<
+  ParsedInboundMessage,
+  "text" | "media" | "interactiveReply" | "flowResponse" | "reaction" | "order" | "system"
+>;
 
 function extractMessageContent(msg: WAMessage): ExtractedContent {
   switch (msg.type) {
@@ -359,17 +799,111 @@ function extractMessageContent(msg: WAMessage): ExtractedContent {
           },
         };
       }
+      if (reply?.type === "nfm_reply" && reply.nfm_reply) {
+        const flowResponse = parseFlowResponse(reply.nfm_reply);
+        if (!flowResponse) return { text: reply.nfm_reply.body ?? "[Flow response]" };
+        return { text: describeFlowResponse(flowResponse), flowResponse };
+      }
       return { text: "[Interactive message]" };
     }
 
     case "button":
       return { text: msg.button?.text ?? "[Button]" };
 
+    case "reaction": {
+      const emoji = msg.reaction?.emoji || undefined;
+      return {
+        text: emoji ? `[Reacted ${emoji} to a message]` : "[Removed a reaction]",
+        reaction: msg.reaction ? { messageId: msg.reaction.message_id, emoji } : undefined,
+      };
+    }
+
+    case "order": {
+      if (!msg.order) return { text: "[🛒 Order]" };
+      const items = msg.order.product_items.map((item) => ({
+        productRetailerId: item.product_retailer_id,
+        quantity: item.quantity,
+        itemPrice: item.item_price,
+        currency: item.currency,
+      }));
+      const summary = items
+        .map((item) => `${item.quantity} × ${item.productRetailerId} (${item.itemPrice} ${item.currency})`)
+        .join(", ");
+      return {
+        text: `[🛒 Order: ${summary}]${msg.order.text ? `\n${msg.order.text}` : ""}`,
+        order: { catalogId: msg.order.catalog_id, text: msg.order.text, items },
+      };
+    }
+
+    case "system":
+      return {
+        text: `[System: ${msg.system?.body ?? "notice"}]`,
+        system: msg.system
+          ? { type: msg.system.type, body: msg.system.body, newWaId: msg.system.new_wa_id ?? msg.system.wa_id }
+          : undefined,
+      };
+
+    case "request_welcome":
+      // Sent when a user opens the chat for the first time, before typing anything
+      return { text: "[Opened the chat]" };
+
+    case "unsupported": {
+      const reason = msg.errors?.[0]?.error_data?.details ?? msg.errors?.[0]?.title;
+      return { text: `[Unsupported message${reason ? `: ${reason}` : ""}]` };
+    }
+
     default:
       return { text: `[${msg.type} message — not yet supported]` };
   }
 }
 
+/** Map a click-to-WhatsApp referral to its parsed form */
+function parseReferral(referral: NonNullable<WAMessage["referral"]>): NonNullable<ParsedInboundMessage["referral"]> {
+  return {
+    sourceType: referral.source_type,
+    sourceId: referral.source_id,
+    sourceUrl: referral.source_url,
+    headline: referral.headline,
+    body: referral.body,
+    mediaType: referral.media_type,
+    mediaUrl: referral.image_url ?? referral.video_url,
+    ctwaClid: referral.ctwa_clid,
+  };
+}
+
+/** Parse a Flow submission; undefined when response_json isn't a JSON object */
+function parseFlowResponse(
+  reply: NonNullable<NonNullable<WAMessage["interactive"]>["nfm_reply"]>
+): ParsedInboundMessage["flowResponse"] {
+  let json: unknown;
+  try {
+    json = JSON.parse(reply.response_json);
+  } catch {
+    return undefined;
+  }
+  if (!json || typeof json !== "object" || Array.isArray(json)) return undefined;
+
+  const { flow_token, ...data } = json as Record<string, unknown>;
+  return {
+    name: reply.name,
+    flowToken: typeof flow_token === "string" ? flow_token : undefined,
+    data,
+  };
+}
+
+/** One "field: value" line per submitted field, so the agent can read the form */
+function describeFlowResponse(response: NonNullable<ParsedInboundMessage["flowResponse"]>): string {
+  const lines = Object.entries(response.data).map(([key, value]) => {
+    const text = Array.isArray(value)
+      ? value.join(", ")
+      : value !== null && typeof value === "object"
+        ? JSON.stringify(value)
+        : String(value);
+    return `${key}: ${text}`;
+  });
+  return ["[Flow response]", ...lines].join("\n");
+}
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------